@@ -162,15 +162,54 @@ export function requireAuth(identity: UserIdentity): void {
   }
 }
 
+/**
+ * A read-only grant on a build
+ * Targets are a user ID, an email address or a public link token
+ */
+export interface BuildAccessGrant {
+  type: "user" | "email" | "link";
+  target: string;
+}
+
 /**
  * Check if a user is allowed to access a build
+ * Owners have full access; grants only ever give read access.
  * @param identity - User identity
  * @param buildUserId - User ID that owns the build
+ * @param options - Requested access, grants on the build and a link token presented by the caller
  * @returns True if access is allowed
  */
 export function canAccessBuild(
   identity: UserIdentity,
   buildUserId: string,
+  options: {
+    access?: "read" | "write";
+    grants?: BuildAccessGrant[];
+    linkToken?: string;
+  } = {},
 ): boolean {
-  return identity.userId === buildUserId;
+  if (identity.userId === buildUserId) {
+    return true;
+  }
+
+  const { access = "read", grants = [], linkToken } = options;
+
+  if (access === "write") {
+    return false;
+  }
+
+  const email = identity.authenticated
+    ? identity.email?.toLowerCase()
+    : undefined;
+
+  return grants.some((grant) => {
+    switch (grant.type) {
+      case "user":
+        return grant.target === identity.userId;
+      case "email":
+        return email !== undefined && grant.target === email;
+      case "link":
+        return linkToken !== undefined && grant.target === linkToken;
+    }
+  });
 }
@@ -16,6 +16,19 @@ const configSchema = z.object({
     .default("sqlite"),
   SQLITE_DB_PATH: z.string().default("./data/pimp-my-ride.db"),
   SQLITE_VERBOSE: z.coerce.boolean().default(false),
+
+  // Build revision history
+  REVISION_HISTORY_LIMIT: z.coerce.number().int().min(1).default(50),
+
+  // Build schema migrations
+  MIGRATE_BUILDS_WRITE_BACK: z.stringbool().default(true),
+
+  // Economy
+  STARTING_CREDITS: z.coerce.number().int().min(0).default(5000),
+  DAILY_GRANT_CREDITS: z.coerce.number().int().min(0).default(500),
+  RACE_CREDITS_PER_POINT: z.coerce.number().int().min(0).default(20),
+  RACE_REWARDS_PER_DAY: z.coerce.number().int().min(0).default(10),
+  REFUND_RATE: z.coerce.number().min(0).max(1).default(0.5),
 });
 
 export type Config = z.infer<typeof configSchema>;
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { evaluateAchievements } from "./achievements.ts";
+import { createBuild } from "./models.ts";
+import type { RaceResult, RaceStanding } from "./race.ts";
+
+describe("achievements", () => {
+  const ids = (earned: { id: string }[]) => earned.map((a) => a.id);
+
+  it("should award build achievements from the build's state", () => {
+    const build = createBuild("active", undefined, {
+      performance: { power: 50, grip: 50, aero: 100, weight: 50 },
+    });
+
+    expect(
+      ids(evaluateAchievements({ type: "build_changed", build }, [])),
+    ).toEqual(["maxed_aero"]);
+    expect(
+      ids(
+        evaluateAchievements({ type: "build_saved", build, savedBuilds: 10 }, [
+          "maxed_aero",
+        ]),
+      ),
+    ).toEqual(["first_save", "full_garage"]);
+  });
+
+  it("should award race achievements from the standing", () => {
+    const standing = {
+      position: 1,
+      persona: "Cautious",
+      crashes: 1,
+    } as RaceStanding;
+    const result = { laps: 3 } as RaceResult;
+
+    expect(
+      ids(
+        evaluateAchievements({ type: "race_completed", result, standing }, [
+          "podium",
+        ]),
+      ),
+    ).toEqual(["first_win", "cautious_win"]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Achievements
+ * Every achievement is declared here as a rule over a progress event, so new
+ * ones can be added without touching the tools that raise the events
+ */
+
+import type { Build } from "./models.ts";
+import type { RaceResult, RaceStanding } from "./race.ts";
+
+/**
+ * Something a user did that can earn achievements
+ *   build_changed  - the active build was changed
+ *   build_saved    - a build was saved; savedBuilds counts the garage it was
+ *                    saved to, including the new build
+ *   race_completed - a race was submitted to the leaderboards
+ */
+export type AchievementEvent =
+  | { type: "build_changed"; build: Build }
+  | { type: "build_saved"; build: Build; savedBuilds: number }
+  | { type: "race_completed"; result: RaceResult; standing: RaceStanding };
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Whether the event earns the achievement */
+  earnedBy: (event: AchievementEvent) => boolean;
+}
+
+/** Size of a full garage */
+const FULL_GARAGE_BUILDS = 10;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first_save",
+    name: "First Save",
+    description: "Save a build",
+    earnedBy: (event) => event.type === "build_saved",
+  },
+  {
+    id: "full_garage",
+    name: "Full Garage",
+    description: `Have ${FULL_GARAGE_BUILDS} saved builds in a garage`,
+    earnedBy: (event) =>
+      event.type === "build_saved" && event.savedBuilds >= FULL_GARAGE_BUILDS,
+  },
+  {
+    id: "maxed_aero",
+    name: "Maxed Aero",
+    description: "Push aero to 100",
+    earnedBy: (event) =>
+      event.type !== "race_completed" &&
+      event.build.car.performance.aero === 100,
+  },
+  {
+    id: "glow_up",
+    name: "Glow Up",
+    description: "Fit underglow, a decal and a spoiler to the same build",
+    earnedBy: (event) =>
+      event.type !== "race_completed" &&
+      event.build.car.underglow !== "none" &&
+      event.build.car.decal !== "none" &&
+      event.build.car.spoiler !== "none",
+  },
+  {
+    id: "first_win",
+    name: "First Win",
+    description: "Win a submitted race",
+    earnedBy: (event) =>
+      event.type === "race_completed" && event.standing.position === 1,
+  },
+  {
+    id: "podium",
+    name: "Podium",
+    description: "Finish a submitted race in the top three",
+    earnedBy: (event) =>
+      event.type === "race_completed" && event.standing.position <= 3,
+  },
+  {
+    id: "clean_race",
+    name: "Clean Race",
+    description: "Finish a submitted race of 3 or more laps without crashing",
+    earnedBy: (event) =>
+      event.type === "race_completed" &&
+      event.result.laps >= 3 &&
+      event.standing.crashes === 0,
+  },
+  {
+    id: "cautious_win",
+    name: "Slow and Steady",
+    description: "Win a submitted race with the Cautious persona",
+    earnedBy: (event) =>
+      event.type === "race_completed" &&
+      event.standing.position === 1 &&
+      event.standing.persona === "Cautious",
+  },
+];
+
+/**
+ * Achievements an event earns that aren't in the earned list yet
+ */
+export function evaluateAchievements(
+  event: AchievementEvent,
+  earned: string[],
+): AchievementDefinition[] {
+  return ACHIEVEMENTS.filter(
+    (achievement) =>
+      !earned.includes(achievement.id) && achievement.earnedBy(event),
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertCarClass,
+  checkCarClass,
+  disallowedParts,
+  fitStatBudget,
+  qualifyingClass,
+  statTotal,
+} from "./classes.ts";
+import { CarConfigSchema } from "./models.ts";
+
+describe("car classes", () => {
+  const stock = CarConfigSchema.parse({});
+
+  it("should place a stock car in the lowest class", () => {
+    expect(statTotal(stock)).toBe(200);
+    expect(checkCarClass(stock, "D")).toEqual([]);
+    expect(qualifyingClass(stock)).toBe("D");
+  });
+
+  it("should explain stat budget and part violations", () => {
+    const car = CarConfigSchema.parse({
+      spoiler: "gt_wing",
+      performance: { power: 90, grip: 80, aero: 70, weight: 50 },
+    });
+
+    const violations = checkCarClass(car, "B");
+    expect(violations).toHaveLength(2);
+    expect(violations[0]).toMatch(/Stats total 290.*remove 10 points/);
+    expect(violations[1]).toMatch(/spoiler "gt_wing" is not allowed/);
+    expect(qualifyingClass(car)).toBe("S");
+    expect(() => assertCarClass(car, "A")).toThrow(
+      /Build does not fit class A/,
+    );
+  });
+
+  it("should keep nitrous out of the lower classes", () => {
+    const car = CarConfigSchema.parse({ nitrous: "single_shot" });
+
+    expect(checkCarClass(car, "C")[0]).toMatch(/nitrous "single_shot"/);
+    expect(qualifyingClass(car)).toBe("B");
+  });
+
+  it("should name disallowed parts and scale stats into the budget", () => {
+    const car = CarConfigSchema.parse({
+      spoiler: "gt_wing",
+      nitrous: "single_shot",
+      performance: { power: 90, grip: 80, aero: 70, weight: 50 },
+    });
+
+    expect(disallowedParts(car, "C")).toEqual(["spoiler", "nitrous"]);
+    expect(disallowedParts(car, "S")).toEqual([]);
+
+    const fitted = fitStatBudget(car, "B");
+    expect(fitted.performance).toEqual({
+      power: 86,
+      grip: 77,
+      aero: 67,
+      weight: 48,
+    });
+    expect(statTotal(fitted)).toBeLessThanOrEqual(280);
+    expect(fitStatBudget(car, "S")).toBe(car);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Car classes
+ * Each class caps the total stat points and the parts a build may use
+ */
+
+import {
+  type BodyKit,
+  type CarClass,
+  type CarConfig,
+  type Nitrous,
+  type Spoiler,
+  type WheelType,
+  CarClassSchema,
+} from "./models.ts";
+
+/**
+ * Class rules
+ * Part lists are allow-lists; a missing list allows every option
+ */
+export interface CarClassDefinition {
+  description: string;
+  /** Maximum power + grip + aero + weight */
+  statBudget: number;
+  bodyKits?: BodyKit[];
+  wheels?: WheelType[];
+  spoilers?: Spoiler[];
+  nitrous?: Nitrous[];
+}
+
+export const CAR_CLASSES: Record<CarClass, CarClassDefinition> = {
+  D: {
+    description: "Entry level: stock-ish street cars",
+    statBudget: 200,
+    bodyKits: ["stock", "sport", "luxury"],
+    wheels: ["stock", "sport", "chrome", "spinner"],
+    spoilers: ["none", "stock", "ducktail"],
+    nitrous: ["none"],
+  },
+  C: {
+    description: "Club racers with mild tuning",
+    statBudget: 240,
+    bodyKits: ["stock", "sport", "luxury", "muscle", "rally"],
+    wheels: ["stock", "sport", "chrome", "spinner", "offroad", "neon"],
+    spoilers: ["none", "stock", "ducktail", "sport"],
+    nitrous: ["none"],
+  },
+  B: {
+    description: "Serious tuning, no full race parts",
+    statBudget: 280,
+    bodyKits: ["stock", "sport", "luxury", "muscle", "rally", "drift"],
+    wheels: ["stock", "sport", "chrome", "spinner", "offroad", "neon"],
+    spoilers: ["none", "stock", "ducktail", "sport", "racing"],
+    nitrous: ["none", "single_shot"],
+  },
+  A: {
+    description: "Race-ready builds",
+    statBudget: 320,
+    spoilers: ["none", "stock", "ducktail", "sport", "racing"],
+  },
+  S: {
+    description: "Top tier: every part allowed",
+    statBudget: 360,
+  },
+  Unlimited: {
+    description: "No limits",
+    statBudget: 400,
+  },
+};
+
+/**
+ * Total stat points used by a car
+ */
+export function statTotal(car: CarConfig): number {
+  const { power, grip, aero, weight } = car.performance;
+  return power + grip + aero + weight;
+}
+
+/**
+ * Explain every way a car breaks a class's rules (empty when it qualifies)
+ */
+export function checkCarClass(car: CarConfig, carClass: CarClass): string[] {
+  const rules = CAR_CLASSES[carClass];
+  const violations: string[] = [];
+
+  const total = statTotal(car);
+  if (total > rules.statBudget) {
+    violations.push(
+      `Stats total ${total} (power + grip + aero + weight) but class ${carClass} allows ${rules.statBudget}; remove ${total - rules.statBudget} points`,
+    );
+  }
+
+  for (const { label, option, allowed } of restrictedParts(car, carClass)) {
+    if (!allowed.includes(option)) {
+      violations.push(
+        `${label} "${option}" is not allowed in class ${carClass} (allowed: ${allowed.join(", ")})`,
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Parts a class doesn't allow the car to use
+ */
+export function disallowedParts(
+  car: CarConfig,
+  carClass: CarClass,
+): ClassPart[] {
+  return restrictedParts(car, carClass)
+    .filter(({ option, allowed }) => !allowed.includes(option))
+    .map(({ part }) => part);
+}
+
+/**
+ * Scale a car's stats down, evenly, to fit a class's stat budget
+ */
+export function fitStatBudget(car: CarConfig, carClass: CarClass): CarConfig {
+  const { statBudget } = CAR_CLASSES[carClass];
+  const total = statTotal(car);
+
+  if (total <= statBudget) {
+    return car;
+  }
+
+  const scale = (value: number) => Math.floor((value * statBudget) / total);
+  const { power, grip, aero, weight } = car.performance;
+
+  return {
+    ...car,
+    performance: {
+      power: scale(power),
+      grip: scale(grip),
+      aero: scale(aero),
+      weight: scale(weight),
+    },
+  };
+}
+
+type ClassPart = "bodyKit" | "wheels" | "spoiler" | "nitrous";
+
+/**
+ * The car's options for each part the class restricts
+ */
+function restrictedParts(
+  car: CarConfig,
+  carClass: CarClass,
+): { part: ClassPart; label: string; option: string; allowed: string[] }[] {
+  const rules = CAR_CLASSES[carClass];
+  const parts: [ClassPart, string, string[] | undefined][] = [
+    ["bodyKit", "body kit", rules.bodyKits],
+    ["wheels", "wheels", rules.wheels],
+    ["spoiler", "spoiler", rules.spoilers],
+    ["nitrous", "nitrous", rules.nitrous],
+  ];
+
+  return parts.flatMap(([part, label, allowed]) =>
+    allowed ? [{ part, label, option: car[part], allowed }] : [],
+  );
+}
+
+/**
+ * Lowest class a car qualifies for
+ */
+export function qualifyingClass(car: CarConfig): CarClass {
+  return (
+    CarClassSchema.options.find(
+      (carClass) => checkCarClass(car, carClass).length === 0,
+    ) ?? "Unlimited"
+  );
+}
+
+/**
+ * Throw if a car breaks its class's rules
+ * @throws Error listing every violation
+ */
+export function assertCarClass(car: CarConfig, carClass: CarClass): void {
+  const violations = checkCarClass(car, carClass);
+
+  if (violations.length > 0) {
+    throw new Error(
+      `Build does not fit class ${carClass}: ${violations.join("; ")}`,
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertCompatibleChange,
+  checkCompatibility,
+  conflictingParts,
+} from "./compatibility.ts";
+import { CarConfigSchema } from "./models.ts";
+
+describe("part compatibility", () => {
+  it("should find no issues on a stock car", () => {
+    expect(checkCompatibility(CarConfigSchema.parse({}))).toEqual([]);
+  });
+
+  it("should report conflicts sorted by severity", () => {
+    const car = CarConfigSchema.parse({
+      bodyKit: "luxury",
+      wheels: "offroad",
+      spoiler: "gt_wing",
+    });
+
+    expect(checkCompatibility(car).map((i) => [i.ruleId, i.severity])).toEqual([
+      ["luxury-offroad-wheels", "error"],
+      ["luxury-race-wings", "error"],
+      ["gt-wing-grip-wheels", "warning"],
+    ]);
+  });
+
+  it("should refuse new hard conflicts and return soft ones", () => {
+    const before = CarConfigSchema.parse({ bodyKit: "luxury" });
+
+    expect(() =>
+      assertCompatibleChange(before, { ...before, wheels: "offroad" }),
+    ).toThrow(
+      /Incompatible parts: bodyKit "luxury" can't be used with wheels "offroad"/,
+    );
+
+    const muscle = { ...before, bodyKit: "muscle" as const };
+    expect(assertCompatibleChange(before, muscle)).toEqual([
+      expect.objectContaining({
+        ruleId: "muscle-kit-exhaust",
+        kind: "recommends",
+        severity: "info",
+      }),
+    ]);
+  });
+
+  it("should leave existing hard conflicts editable", () => {
+    const before = CarConfigSchema.parse({
+      bodyKit: "luxury",
+      wheels: "offroad",
+    });
+
+    expect(() =>
+      assertCompatibleChange(before, { ...before, color: "gold" }),
+    ).not.toThrow();
+  });
+
+  it("should name the parts in new hard conflicts", () => {
+    const before = CarConfigSchema.parse({ bodyKit: "luxury" });
+    const after = {
+      ...before,
+      wheels: "offroad" as const,
+      spoiler: "racing" as const,
+    };
+
+    expect(conflictingParts(before, after)).toEqual([
+      "bodyKit",
+      "wheels",
+      "bodyKit",
+      "spoiler",
+    ]);
+    expect(conflictingParts(after, after)).toEqual([]);
+  });
+});
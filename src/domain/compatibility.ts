@@ -0,0 +1,224 @@
+/**
+ * Part compatibility rules
+ * Declarative pairings between parts: combinations that clash, parts that
+ * need a matching part, and pairings that are recommended
+ */
+
+import { z } from "zod";
+import type { CarConfig } from "./models.ts";
+
+/**
+ * How serious a rule violation is
+ * Errors are refused by every change to the active build, warnings and info
+ * are reported
+ */
+export const RuleSeveritySchema = z.enum(["error", "warning", "info"]);
+
+export type RuleSeverity = z.infer<typeof RuleSeveritySchema>;
+
+/**
+ * incompatible - the two parts must not be fitted together
+ * requires     - the first part needs one of the second options
+ * recommends   - the first part works best with one of the second options
+ */
+export type RuleKind = "incompatible" | "requires" | "recommends";
+
+export type PartField = Exclude<keyof CarConfig, "performance" | "customDecal">;
+
+/**
+ * A set of options for one part field
+ */
+interface PartMatch {
+  field: PartField;
+  options: string[];
+}
+
+export interface CompatibilityRule {
+  id: string;
+  kind: RuleKind;
+  severity: RuleSeverity;
+  /** Parts the rule applies to */
+  when: PartMatch;
+  /** Parts that clash (incompatible) or are needed (requires, recommends) */
+  with: PartMatch;
+  reason: string;
+}
+
+export interface CompatibilityIssue {
+  ruleId: string;
+  kind: RuleKind;
+  severity: RuleSeverity;
+  message: string;
+}
+
+export const COMPATIBILITY_RULES: CompatibilityRule[] = [
+  {
+    id: "luxury-offroad-wheels",
+    kind: "incompatible",
+    severity: "error",
+    when: { field: "bodyKit", options: ["luxury"] },
+    with: { field: "wheels", options: ["offroad"] },
+    reason: "the luxury kit's low skirts leave no clearance for offroad tires",
+  },
+  {
+    id: "luxury-race-wings",
+    kind: "incompatible",
+    severity: "error",
+    when: { field: "bodyKit", options: ["luxury"] },
+    with: { field: "spoiler", options: ["gt_wing", "racing"] },
+    reason: "the luxury kit's trunk lid can't carry a race wing",
+  },
+  {
+    id: "rally-street-wheels",
+    kind: "requires",
+    severity: "error",
+    when: { field: "bodyKit", options: ["rally"] },
+    with: { field: "wheels", options: ["stock", "sport", "racing", "offroad"] },
+    reason: "rally stages shatter show wheels",
+  },
+  {
+    id: "drift-offroad-wheels",
+    kind: "incompatible",
+    severity: "warning",
+    when: { field: "bodyKit", options: ["drift"] },
+    with: { field: "wheels", options: ["offroad"] },
+    reason: "knobbly offroad tires won't hold a slide",
+  },
+  {
+    id: "racing-spinner-wheels",
+    kind: "incompatible",
+    severity: "warning",
+    when: { field: "bodyKit", options: ["racing"] },
+    with: { field: "wheels", options: ["spinner"] },
+    reason: "spinners add weight and drag to a race car",
+  },
+  {
+    id: "gt-wing-grip-wheels",
+    kind: "requires",
+    severity: "warning",
+    when: { field: "spoiler", options: ["gt_wing"] },
+    with: { field: "wheels", options: ["sport", "racing", "neon"] },
+    reason: "the wing's downforce is wasted without performance tires",
+  },
+  {
+    id: "racing-kit-exhaust",
+    kind: "recommends",
+    severity: "info",
+    when: { field: "bodyKit", options: ["racing"] },
+    with: { field: "exhaust", options: ["racing", "sport"] },
+    reason: "a free-flowing exhaust suits a race build",
+  },
+  {
+    id: "muscle-kit-exhaust",
+    kind: "recommends",
+    severity: "info",
+    when: { field: "bodyKit", options: ["muscle"] },
+    with: { field: "exhaust", options: ["dual", "quad", "side_exit"] },
+    reason: "a big engine deserves more than one pipe",
+  },
+  {
+    id: "drift-kit-spoiler",
+    kind: "recommends",
+    severity: "info",
+    when: { field: "bodyKit", options: ["drift"] },
+    with: { field: "spoiler", options: ["ducktail", "racing", "gt_wing"] },
+    reason: "rear downforce keeps long slides stable",
+  },
+];
+
+const SEVERITY_ORDER = RuleSeveritySchema.options;
+
+/**
+ * Check a car against every rule
+ * Issues are sorted by severity (errors first), then rule order
+ */
+export function checkCompatibility(car: CarConfig): CompatibilityIssue[] {
+  return COMPATIBILITY_RULES.flatMap((rule) => {
+    const issue = checkRule(car, rule);
+    return issue ? [issue] : [];
+  }).sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity),
+  );
+}
+
+/**
+ * Throw if a change introduces a hard conflict
+ * Errors the car already had are left alone so older builds stay editable
+ * @returns Issues that don't block the change
+ * @throws Error listing every new hard conflict
+ */
+export function assertCompatibleChange(
+  before: CarConfig,
+  after: CarConfig,
+): CompatibilityIssue[] {
+  const conflicts = newConflicts(before, after);
+
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Incompatible parts: ${conflicts.map((i) => i.message).join("; ")}`,
+    );
+  }
+
+  return checkCompatibility(after).filter((i) => i.severity !== "error");
+}
+
+/**
+ * Part fields involved in the hard conflicts a change introduces
+ */
+export function conflictingParts(
+  before: CarConfig,
+  after: CarConfig,
+): PartField[] {
+  const ruleIds = new Set(newConflicts(before, after).map((i) => i.ruleId));
+
+  return COMPATIBILITY_RULES.filter((rule) => ruleIds.has(rule.id)).flatMap(
+    (rule) => [rule.when.field, rule.with.field],
+  );
+}
+
+function newConflicts(
+  before: CarConfig,
+  after: CarConfig,
+): CompatibilityIssue[] {
+  const existing = new Set(checkCompatibility(before).map((i) => i.ruleId));
+
+  return checkCompatibility(after).filter(
+    (i) => i.severity === "error" && !existing.has(i.ruleId),
+  );
+}
+
+function checkRule(
+  car: CarConfig,
+  rule: CompatibilityRule,
+): CompatibilityIssue | null {
+  const part = car[rule.when.field];
+  const other = car[rule.with.field];
+
+  if (!part || !rule.when.options.includes(part)) {
+    return null;
+  }
+
+  const matches = other !== undefined && rule.with.options.includes(other);
+  const violated = rule.kind === "incompatible" ? matches : !matches;
+
+  if (!violated) {
+    return null;
+  }
+
+  const subject = `${rule.when.field} "${part}"`;
+  const options = rule.with.options.join(", ");
+  const message =
+    rule.kind === "incompatible"
+      ? `${subject} can't be used with ${rule.with.field} "${other}": ${rule.reason}`
+      : rule.kind === "requires"
+        ? `${subject} needs ${rule.with.field} ${options}: ${rule.reason}`
+        : `${subject} works best with ${rule.with.field} ${options}: ${rule.reason}`;
+
+  return {
+    ruleId: rule.id,
+    kind: rule.kind,
+    severity: rule.severity,
+    message,
+  };
+}
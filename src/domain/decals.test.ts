@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  deleteDecalLayer,
+  describeCustomDecal,
+  insertDecalLayer,
+} from "./decals.ts";
+import {
+  type CustomDecal,
+  type DecalLayer,
+  CustomDecalSchema,
+  DecalLayerSchema,
+  MAX_DECAL_LAYERS,
+} from "./models.ts";
+import { containsBlockedWord } from "../lib/profanity.ts";
+
+describe("custom decals", () => {
+  const star = DecalLayerSchema.parse({
+    type: "shape",
+    shape: "star",
+    x: 50,
+    y: 40,
+    color: "#0AF",
+  });
+  const text = DecalLayerSchema.parse({
+    type: "text",
+    text: "GO",
+    x: 20,
+    y: 50,
+    color: "gold",
+  });
+  const empty: CustomDecal = { layers: [] };
+
+  it("should stack layers and normalize their colors", () => {
+    const decal = insertDecalLayer(insertDecalLayer(empty, star), text, 0);
+
+    expect(decal.layers.map((l) => l.type)).toEqual(["text", "shape"]);
+    expect(decal.layers[1].color).toBe("#00aaff");
+    expect(describeCustomDecal(decal)).toBe(
+      'text "GO" gold at 20,50; star #00aaff at 50,40',
+    );
+  });
+
+  it("should cap the number of layers", () => {
+    const full: CustomDecal = {
+      layers: Array<DecalLayer>(MAX_DECAL_LAYERS).fill(star),
+    };
+
+    expect(() => insertDecalLayer(full, text)).toThrow(/at most/);
+    expect(
+      CustomDecalSchema.safeParse({ layers: [...full.layers, text] }).success,
+    ).toBe(false);
+  });
+
+  it("should remove layers by index", () => {
+    const decal = insertDecalLayer(insertDecalLayer(empty, star), text);
+    const { decal: remaining, removed } = deleteDecalLayer(decal, 0);
+
+    expect(removed).toEqual(decal.layers[0]);
+    expect(remaining.layers).toEqual([decal.layers[1]]);
+    expect(() => deleteDecalLayer(remaining, 3)).toThrow(/numbered 0-0/);
+  });
+
+  it("should reject blocked words and oversized text", () => {
+    expect(containsBlockedWord("Sh1t happens")).toBe(true);
+    expect(containsBlockedWord("Classic Scunthorpe")).toBe(false);
+
+    for (const value of ["sh1t", "x".repeat(25), "line\nbreak", "  "]) {
+      expect(DecalLayerSchema.safeParse({ ...text, text: value }).success).toBe(
+        false,
+      );
+      expect(CustomDecalSchema.safeParse({ sponsor: value }).success).toBe(
+        false,
+      );
+    }
+  });
+});
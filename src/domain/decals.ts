@@ -0,0 +1,87 @@
+/**
+ * Custom decals
+ * Edits and describes the layered design of the "custom" decal
+ */
+
+import {
+  type CustomDecal,
+  type DecalLayer,
+  MAX_DECAL_LAYERS,
+  normalizePaintColor,
+} from "./models.ts";
+
+/**
+ * Add a layer to a custom decal, normalizing its color
+ * @param index - Position in the stack, 0 being the bottom (defaults to the
+ *   top)
+ * @throws Error if the decal already has the most layers allowed
+ */
+export function insertDecalLayer(
+  decal: CustomDecal,
+  layer: DecalLayer,
+  index: number = decal.layers.length,
+): CustomDecal {
+  if (decal.layers.length >= MAX_DECAL_LAYERS) {
+    throw new Error(
+      `A custom decal can have at most ${MAX_DECAL_LAYERS} layers; remove one first`,
+    );
+  }
+
+  const layers = [...decal.layers];
+  layers.splice(Math.min(Math.max(index, 0), layers.length), 0, {
+    ...layer,
+    color: normalizePaintColor(layer.color),
+  });
+
+  return { ...decal, layers };
+}
+
+/**
+ * Remove a layer from a custom decal
+ * @throws Error if there is no layer at the index
+ */
+export function deleteDecalLayer(
+  decal: CustomDecal,
+  index: number,
+): { decal: CustomDecal; removed: DecalLayer } {
+  const removed = decal.layers[index];
+
+  if (!removed) {
+    throw decalLayerNotFound(decal.layers.length, index);
+  }
+
+  return {
+    decal: { ...decal, layers: decal.layers.filter((_, i) => i !== index) },
+    removed,
+  };
+}
+
+/**
+ * Error for a layer index a custom decal with layerCount layers doesn't have
+ */
+export function decalLayerNotFound(layerCount: number, index: number): Error {
+  return new Error(
+    layerCount === 0
+      ? "The custom decal has no layers"
+      : `No decal layer ${index}; layers are numbered 0-${layerCount - 1}`,
+  );
+}
+
+/**
+ * Short description of a layer, e.g. `star #ff0000 at 50,40`
+ */
+export function describeDecalLayer(layer: DecalLayer): string {
+  const what = layer.type === "shape" ? layer.shape : `text "${layer.text}"`;
+  return `${what} ${layer.color} at ${layer.x},${layer.y}`;
+}
+
+/**
+ * Short description of a custom decal, listing its layers bottom to top
+ */
+export function describeCustomDecal(decal: CustomDecal | undefined): string {
+  const parts = decal?.layers.map(describeDecalLayer) ?? [];
+  if (decal?.sponsor) {
+    parts.push(`sponsor "${decal.sponsor}"`);
+  }
+  return parts.length > 0 ? parts.join("; ") : "empty";
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { describeBuildDiff, diffBuilds } from "./diff.ts";
+import { createBuild } from "./models.ts";
+
+describe("diffBuilds", () => {
+  const base = createBuild("base");
+
+  it("should report identical builds", () => {
+    const diff = diffBuilds(base, createBuild("other"));
+
+    expect(diff.identical).toBe(true);
+    expect(diff.parts).toEqual([]);
+    expect(diff.score.delta).toBe(0);
+  });
+
+  it("should list changes in schema order with a score delta", () => {
+    const modified = createBuild(
+      "modified",
+      undefined,
+      {
+        spoiler: "gt_wing",
+        secondaryColor: "white",
+        performance: { power: 70, grip: 50, aero: 50, weight: 50 },
+      },
+      { nickname: "Zed" },
+    );
+
+    const diff = diffBuilds(base, modified);
+
+    expect(diff).toEqual({
+      identical: false,
+      parts: [
+        { field: "secondaryColor", before: null, after: "white" },
+        { field: "spoiler", before: "none", after: "gt_wing" },
+      ],
+      performance: [{ stat: "power", before: 50, after: 70, delta: 20 }],
+      driver: [{ field: "nickname", before: null, after: "Zed" }],
+      score: { before: 51, after: 65, delta: 14 },
+    });
+
+    expect(describeBuildDiff(diff)).toEqual([
+      "secondaryColor: none → white",
+      "spoiler: none → gt_wing",
+      "performance.power: 50 → 70",
+      "nickname: none → Zed",
+    ]);
+  });
+
+  it("should include the driver's persona in the score", () => {
+    const diff = diffBuilds(
+      base,
+      createBuild("demon", undefined, {}, { persona: "SpeedDemon" }),
+    );
+
+    expect(diff.parts).toEqual([]);
+    expect(diff.score.delta).not.toBe(0);
+  });
+});
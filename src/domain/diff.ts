@@ -0,0 +1,150 @@
+/**
+ * Build diff utilities
+ * Compares two builds field by field in a stable, machine-readable format
+ */
+
+import {
+  type Build,
+  type CustomDecal,
+  type Performance,
+  CarConfigSchema,
+  DriverProfileSchema,
+  PerformanceSchema,
+  calculatePerformanceScore,
+} from "./models.ts";
+import { describeCustomDecal } from "./decals.ts";
+
+/**
+ * A changed part or driver field
+ * Unset optional fields (e.g. no secondary color) are reported as null, and
+ * custom decal designs are described with describeCustomDecal
+ */
+export interface FieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * A changed performance stat
+ */
+export interface StatChange {
+  stat: keyof Performance;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/**
+ * Differences between two builds
+ * Changes are always listed in schema field order, so equal inputs produce
+ * identical output
+ */
+export interface BuildDiff {
+  identical: boolean;
+  parts: FieldChange[];
+  performance: StatChange[];
+  driver: FieldChange[];
+  score: { before: number; after: number; delta: number };
+}
+
+type ComparableBuild = Pick<Build, "car" | "driver">;
+
+const PART_FIELDS = Object.keys(CarConfigSchema.shape).filter(
+  (field) => field !== "performance",
+) as Exclude<keyof Build["car"], "performance">[];
+
+const STAT_FIELDS = Object.keys(
+  PerformanceSchema.shape,
+) as (keyof Performance)[];
+
+const DRIVER_FIELDS = Object.keys(
+  DriverProfileSchema.shape,
+) as (keyof Build["driver"])[];
+
+/**
+ * Compare two builds
+ * @param before - Build to compare from
+ * @param after - Build to compare to
+ */
+export function diffBuilds(
+  before: ComparableBuild,
+  after: ComparableBuild,
+): BuildDiff {
+  const parts = PART_FIELDS.flatMap((field) =>
+    field === "customDecal"
+      ? customDecalChange(before.car.customDecal, after.car.customDecal)
+      : fieldChange(field, before.car[field], after.car[field]),
+  );
+
+  const performance = STAT_FIELDS.flatMap((stat): StatChange[] => {
+    const from = before.car.performance[stat];
+    const to = after.car.performance[stat];
+    return from === to
+      ? []
+      : [{ stat, before: from, after: to, delta: to - from }];
+  });
+
+  const driver = DRIVER_FIELDS.flatMap((field) =>
+    fieldChange(field, before.driver[field], after.driver[field]),
+  );
+
+  const scoreBefore = calculatePerformanceScore(before.car, before.driver);
+  const scoreAfter = calculatePerformanceScore(after.car, after.driver);
+
+  return {
+    identical:
+      parts.length === 0 && performance.length === 0 && driver.length === 0,
+    parts,
+    performance,
+    driver,
+    score: {
+      before: scoreBefore,
+      after: scoreAfter,
+      delta: scoreAfter - scoreBefore,
+    },
+  };
+}
+
+/**
+ * Describe a diff as one line per change, e.g. "wheels: stock → racing"
+ */
+export function describeBuildDiff(diff: BuildDiff): string[] {
+  return [
+    ...diff.parts.map(describeFieldChange),
+    ...diff.performance.map(
+      ({ stat, before, after }) => `performance.${stat}: ${before} → ${after}`,
+    ),
+    ...diff.driver.map(describeFieldChange),
+  ];
+}
+
+function fieldChange(
+  field: string,
+  before: string | undefined,
+  after: string | undefined,
+): FieldChange[] {
+  return before === after
+    ? []
+    : [{ field, before: before ?? null, after: after ?? null }];
+}
+
+function customDecalChange(
+  before: CustomDecal | undefined,
+  after: CustomDecal | undefined,
+): FieldChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [
+    {
+      field: "customDecal",
+      before: before ? describeCustomDecal(before) : null,
+      after: after ? describeCustomDecal(after) : null,
+    },
+  ];
+}
+
+function describeFieldChange({ field, before, after }: FieldChange): string {
+  return `${field}: ${before ?? "none"} → ${after ?? "none"}`;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { partPrice, quoteCarChange } from "./economy.ts";
+import { CUSTOM_PAINT_PRICE, CarConfigSchema } from "./models.ts";
+
+describe("economy", () => {
+  const stock = CarConfigSchema.parse({});
+
+  it("should charge full price for new parts and stat points", () => {
+    const upgraded = {
+      ...stock,
+      wheels: "racing" as const,
+      performance: { ...stock.performance, power: 60 },
+    };
+
+    const quote = quoteCarChange(stock, upgraded, 0.5);
+
+    expect(quote.lines.map((l) => [l.item, l.cost, l.refund])).toEqual([
+      ["wheels", partPrice("wheels", "racing"), 0],
+      ["performance.power", 300, 0],
+    ]);
+    expect(quote.total).toBe(partPrice("wheels", "racing") + 300);
+  });
+
+  it("should refund replaced parts and removed points at the refund rate", () => {
+    const before = CarConfigSchema.parse({
+      spoiler: "gt_wing",
+      secondaryColor: "gold",
+    });
+    const after = {
+      ...before,
+      spoiler: "none" as const,
+      secondaryColor: undefined,
+      performance: { ...before.performance, aero: 40 },
+    };
+
+    const quote = quoteCarChange(before, after, 0.25);
+
+    expect(quote.cost).toBe(0);
+    expect(quote.refund).toBe(
+      Math.round(partPrice("secondaryColor", "gold") * 0.25) +
+        Math.round(partPrice("spoiler", "gt_wing") * 0.25) +
+        50,
+    );
+    expect(quote.total).toBe(-quote.refund);
+  });
+
+  it("should price custom paint and finishes", () => {
+    const painted = { ...stock, color: "#0a7f3c", finish: "chrome" as const };
+
+    const quote = quoteCarChange(stock, painted, 0.5);
+
+    expect(quote.lines.map((l) => [l.item, l.cost, l.refund])).toEqual([
+      ["color", CUSTOM_PAINT_PRICE, Math.round(partPrice("color", "red") / 2)],
+      ["finish", partPrice("finish", "chrome"), 0],
+    ]);
+  });
+
+  it("should quote nothing for an unchanged car", () => {
+    expect(quoteCarChange(stock, stock, 0.5)).toEqual({
+      lines: [],
+      cost: 0,
+      refund: 0,
+      total: 0,
+      refundRate: 0.5,
+    });
+  });
+});
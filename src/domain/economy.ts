@@ -0,0 +1,111 @@
+/**
+ * Economy
+ * Prices changes to a car: new parts and stat points are bought at full
+ * price, replaced parts and removed points are sold back at the refund rate
+ */
+
+import {
+  type CarConfig,
+  type Performance,
+  COLOR_PRICE,
+  CUSTOM_PAINT_PRICE,
+  PART_PRICES,
+  PerformanceSchema,
+  STAT_POINT_COST,
+} from "./models.ts";
+
+/**
+ * Cost of one changed part or stat
+ * cost is charged for the new part or added points, refund is paid for the
+ * replaced part or removed points
+ */
+export interface PriceLine {
+  item: string;
+  change: string;
+  cost: number;
+  refund: number;
+}
+
+/**
+ * Price of a change to a car
+ * total is what the wallet is charged (negative when the change pays out)
+ */
+export interface PriceQuote {
+  lines: PriceLine[];
+  cost: number;
+  refund: number;
+  total: number;
+  refundRate: number;
+}
+
+type PartField = keyof typeof PART_PRICES | "color" | "secondaryColor";
+
+const PART_FIELDS: PartField[] = [
+  "color",
+  "secondaryColor",
+  ...(Object.keys(PART_PRICES) as (keyof typeof PART_PRICES)[]),
+];
+
+const STAT_FIELDS = Object.keys(
+  PerformanceSchema.shape,
+) as (keyof Performance)[];
+
+/**
+ * Price of a single part option (unset optional parts are free)
+ * Paint not in COLOR_PRICE is a custom color
+ */
+export function partPrice(part: PartField, option: string | undefined): number {
+  if (option === undefined) {
+    return 0;
+  }
+  if (part === "color" || part === "secondaryColor") {
+    return (
+      (COLOR_PRICE as Record<string, number>)[option] ?? CUSTOM_PAINT_PRICE
+    );
+  }
+  return (PART_PRICES[part] as Record<string, number>)[option] ?? 0;
+}
+
+/**
+ * Price the change from one car to another
+ * @param refundRate - Share of the price paid back for replaced parts and
+ *   removed stat points (0-1)
+ */
+export function quoteCarChange(
+  before: CarConfig,
+  after: CarConfig,
+  refundRate: number,
+): PriceQuote {
+  const lines: PriceLine[] = [];
+
+  for (const part of PART_FIELDS) {
+    const from = before[part];
+    const to = after[part];
+    if (from !== to) {
+      lines.push({
+        item: part,
+        change: `${from ?? "none"} → ${to ?? "none"}`,
+        cost: partPrice(part, to),
+        refund: Math.round(partPrice(part, from) * refundRate),
+      });
+    }
+  }
+
+  for (const stat of STAT_FIELDS) {
+    const delta = after.performance[stat] - before.performance[stat];
+    if (delta !== 0) {
+      const value = Math.abs(delta) * STAT_POINT_COST[stat];
+      lines.push({
+        item: `performance.${stat}`,
+        change: `${before.performance[stat]} → ${after.performance[stat]}`,
+        cost: delta > 0 ? Math.round(value) : 0,
+        refund: delta < 0 ? Math.round(value * refundRate) : 0,
+      });
+    }
+  }
+
+  const cost = lines.reduce((sum, line) => sum + line.cost, 0);
+  const refund = lines.reduce((sum, line) => sum + line.refund, 0);
+
+  return { lines, cost, refund, total: cost - refund, refundRate };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  ColorHarmonySchema,
+  detectHarmony,
+  generateLiveries,
+  scoreLivery,
+} from "./livery.ts";
+import { ColorSchema } from "./models.ts";
+
+describe("livery", () => {
+  it("should classify color pairs by hue distance", () => {
+    expect(detectHarmony("red", "cyan")).toBe("complementary");
+    expect(detectHarmony("red", "orange")).toBe("analogous");
+    expect(detectHarmony("red", "green")).toBe("triadic");
+    expect(detectHarmony("blue", "blue")).toBe("monochrome");
+    expect(detectHarmony("black", "silver")).toBe("monochrome");
+    expect(detectHarmony("black", "red")).toBe("accent");
+    expect(detectHarmony("red", "lime")).toBe("clash");
+  });
+
+  it("should propose harmonious liveries around the base color", () => {
+    for (const color of ColorSchema.options) {
+      for (const livery of generateLiveries(color, { count: 20 })) {
+        expect(livery.color).toBe(color);
+        expect(livery.secondaryColor).not.toBe(color);
+        expect(detectHarmony(color, livery.secondaryColor)).toBe(
+          livery.harmony,
+        );
+        expect(livery.score).toBe(scoreLivery(livery).score);
+      }
+    }
+  });
+
+  it("should lead with one livery per harmony", () => {
+    const liveries = generateLiveries("red");
+    const harmonies = liveries.map((l) => l.harmony);
+
+    expect(liveries).toHaveLength(4);
+    expect(new Set(harmonies).size).toBe(harmonies.length);
+    expect(
+      generateLiveries("red", { harmony: "triadic" }).every(
+        (l) => l.harmony === "triadic",
+      ),
+    ).toBe(true);
+  });
+
+  it("should steer decals and underglow by mood", () => {
+    for (const livery of generateLiveries("blue", { mood: "stealth" })) {
+      expect(["carbon_fiber", "camo"]).toContain(livery.decal);
+      expect(livery.underglow).toBe("none");
+    }
+    for (const livery of generateLiveries("blue", { mood: "elegant" })) {
+      expect(livery.underglow).toBe("white");
+    }
+  });
+
+  it("should score harmony above clashes", () => {
+    const base = { decal: "none" as const, underglow: "none" as const };
+    const harmonious = scoreLivery({
+      ...base,
+      color: "red",
+      secondaryColor: "cyan",
+    });
+    const clashing = scoreLivery({
+      ...base,
+      color: "red",
+      secondaryColor: "lime",
+    });
+    const single = scoreLivery({ ...base, color: "red" });
+
+    expect(harmonious.harmony).toBe("complementary");
+    expect(clashing.harmony).toBe("clash");
+    expect(single.harmony).toBe("single");
+    expect(harmonious.score).toBeGreaterThan(single.score);
+    expect(single.score).toBeGreaterThan(clashing.score);
+    expect(clashing.notes).toContain(
+      "red and lime have no harmony relationship",
+    );
+  });
+
+  it("should score custom paint as its nearest named color", () => {
+    const custom = scoreLivery({
+      color: "#ff0000",
+      secondaryColor: "#00ffff",
+      decal: "racing_stripes",
+      underglow: "none",
+    });
+
+    expect(custom.harmony).toBe("complementary");
+    expect(custom.breakdown.decal).toBe(100);
+    expect(ColorHarmonySchema.options).toContain(custom.harmony);
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Livery generation and scoring
+ * Applies color-harmony rules to pick matching colors, decals and underglow
+ */
+
+import { z } from "zod";
+import {
+  type CarConfig,
+  type Color,
+  type Decal,
+  type Underglow,
+  ColorSchema,
+} from "./models.ts";
+import { nearestNamedColor } from "./paint.ts";
+
+/**
+ * Color-harmony relationships
+ * "accent" pairs a neutral (black, white, silver) with any chromatic color
+ */
+export const ColorHarmonySchema = z.enum([
+  "complementary",
+  "analogous",
+  "triadic",
+  "monochrome",
+  "accent",
+]);
+
+export type ColorHarmony = z.infer<typeof ColorHarmonySchema>;
+
+/**
+ * Mood keywords that steer decal and underglow choices
+ */
+export const LiveryMoodSchema = z.enum([
+  "aggressive",
+  "elegant",
+  "playful",
+  "stealth",
+  "retro",
+  "sporty",
+]);
+
+export type LiveryMood = z.infer<typeof LiveryMoodSchema>;
+
+/**
+ * A proposed livery
+ */
+export interface Livery {
+  name: string;
+  harmony: ColorHarmony;
+  color: Color;
+  secondaryColor: Color;
+  decal: Decal;
+  underglow: Underglow;
+  /** Visual coherence score (0-100) */
+  score: number;
+}
+
+/**
+ * Visual coherence report for a car's livery
+ */
+export interface LiveryScore {
+  score: number;
+  /** Relationship between the primary and secondary colors */
+  harmony: ColorHarmony | "single" | "clash";
+  breakdown: { colors: number; underglow: number; decal: number };
+  notes: string[];
+}
+
+/**
+ * Hue on the color wheel (degrees); null for neutrals
+ */
+const COLOR_HUES: Record<Color, number | null> = {
+  red: 0,
+  orange: 30,
+  gold: 45,
+  yellow: 55,
+  lime: 90,
+  green: 120,
+  cyan: 180,
+  blue: 220,
+  purple: 275,
+  magenta: 300,
+  pink: 330,
+  black: null,
+  white: null,
+  silver: null,
+};
+
+const UNDERGLOW_HUES: Record<Exclude<Underglow, "none">, number | null> = {
+  red: 0,
+  green: 120,
+  blue: 220,
+  purple: 275,
+  white: null,
+  rainbow: null,
+};
+
+const COLOR_TITLES: Record<Color, string> = {
+  red: "Crimson",
+  orange: "Tangerine",
+  gold: "Gilded",
+  yellow: "Sunburst",
+  lime: "Acid",
+  green: "Emerald",
+  cyan: "Glacier",
+  blue: "Cobalt",
+  purple: "Violet",
+  magenta: "Fuchsia",
+  pink: "Bubblegum",
+  black: "Midnight",
+  white: "Arctic",
+  silver: "Chrome",
+};
+
+const HARMONY_TITLES: Record<ColorHarmony, string> = {
+  complementary: "Contrast",
+  analogous: "Flow",
+  triadic: "Triad",
+  monochrome: "Mono",
+  accent: "Accent",
+};
+
+/** Ideal hue distance for each chromatic harmony */
+const HARMONY_OFFSETS: Record<ColorHarmony, number> = {
+  complementary: 180,
+  analogous: 30,
+  triadic: 120,
+  monochrome: 0,
+  accent: 0,
+};
+
+/** Decals that suit each harmony */
+const HARMONY_DECALS: Record<ColorHarmony, Decal[]> = {
+  complementary: ["racing_stripes", "checkered"],
+  analogous: ["flames", "tribal"],
+  triadic: ["checkered", "custom"],
+  monochrome: ["carbon_fiber", "none"],
+  accent: ["racing_stripes", "sponsor"],
+};
+
+/** Decals that suit each mood, preferred over harmony decals */
+const MOOD_DECALS: Record<LiveryMood, Decal[]> = {
+  aggressive: ["flames", "tribal"],
+  elegant: ["none", "racing_stripes"],
+  playful: ["checkered", "custom"],
+  stealth: ["carbon_fiber", "camo"],
+  retro: ["racing_stripes", "checkered"],
+  sporty: ["sponsor", "racing_stripes"],
+};
+
+/** Moods that keep the underglow off or subtle */
+const SUBTLE_MOODS: Partial<Record<LiveryMood, Underglow>> = {
+  stealth: "none",
+  elegant: "white",
+};
+
+/**
+ * Generate livery proposals around a base color, best first
+ * @param baseColor - Primary color to build around
+ * @param options - Restrict to one harmony, steer with a mood, limit the count
+ */
+export function generateLiveries(
+  baseColor: Color,
+  options: { harmony?: ColorHarmony; mood?: LiveryMood; count?: number } = {},
+): Livery[] {
+  const { harmony, mood, count = 4 } = options;
+  const liveries: Livery[] = [];
+
+  for (const [candidateHarmony, secondaryColor] of harmonyCandidates(
+    baseColor,
+  )) {
+    if (harmony && candidateHarmony !== harmony) {
+      continue;
+    }
+
+    const decal = pickDecal(candidateHarmony, mood);
+    const underglow = pickUnderglow(
+      baseColor,
+      secondaryColor,
+      candidateHarmony,
+      mood,
+    );
+
+    const { score } = scoreLivery({
+      color: baseColor,
+      secondaryColor,
+      decal,
+      underglow,
+    });
+
+    liveries.push({
+      name: `${COLOR_TITLES[baseColor]} ${COLOR_TITLES[secondaryColor]} ${HARMONY_TITLES[candidateHarmony]}`,
+      harmony: candidateHarmony,
+      color: baseColor,
+      secondaryColor,
+      decal,
+      underglow,
+      score,
+    });
+  }
+
+  // Stable sort keeps candidate order for equal scores
+  const ranked = liveries.sort((a, b) => b.score - a.score);
+
+  // Lead with the best livery of each harmony so proposals stay varied
+  const leaders = ranked.filter(
+    (livery) => ranked.find((l) => l.harmony === livery.harmony) === livery,
+  );
+  const rest = ranked.filter((livery) => !leaders.includes(livery));
+
+  return [...leaders, ...rest].slice(0, count);
+}
+
+/**
+ * Score a car's livery for visual coherence
+ * Custom paint is scored as its nearest named color
+ */
+export function scoreLivery(
+  car: Pick<CarConfig, "color" | "secondaryColor" | "decal" | "underglow">,
+): LiveryScore {
+  const notes: string[] = [];
+  const harmony = car.secondaryColor
+    ? detectHarmony(
+        nearestNamedColor(car.color),
+        nearestNamedColor(car.secondaryColor),
+      )
+    : "single";
+
+  let colors: number;
+  switch (harmony) {
+    case "complementary":
+    case "analogous":
+    case "triadic":
+      colors = 90;
+      notes.push(
+        `${car.color} and ${car.secondaryColor} form a ${harmony} pair`,
+      );
+      break;
+    case "monochrome":
+      colors = 85;
+      notes.push(`${car.color} and ${car.secondaryColor} stay in one family`);
+      break;
+    case "accent":
+      colors = 80;
+      notes.push(`${car.secondaryColor} accents ${car.color} cleanly`);
+      break;
+    case "single":
+      colors = 70;
+      notes.push("No secondary color; an accent would add depth");
+      break;
+    case "clash":
+      colors = 40;
+      notes.push(
+        `${car.color} and ${car.secondaryColor} have no harmony relationship`,
+      );
+      break;
+  }
+
+  const underglow = scoreUnderglow(car, harmony);
+  if (underglow < 60) {
+    notes.push(`${car.underglow} underglow does not match the paint`);
+  }
+
+  const decal =
+    harmony !== "single" &&
+    harmony !== "clash" &&
+    HARMONY_DECALS[harmony].includes(car.decal)
+      ? 100
+      : 70;
+
+  const score = Math.round(colors * 0.6 + underglow * 0.25 + decal * 0.15);
+
+  return { score, harmony, breakdown: { colors, underglow, decal }, notes };
+}
+
+/**
+ * Classify the relationship between two colors
+ */
+export function detectHarmony(
+  primary: Color,
+  secondary: Color,
+): ColorHarmony | "clash" {
+  const a = COLOR_HUES[primary];
+  const b = COLOR_HUES[secondary];
+
+  if (a === null && b === null) {
+    return "monochrome";
+  }
+  if (a === null || b === null) {
+    return "accent";
+  }
+
+  const distance = hueDistance(a, b);
+
+  if (distance <= 15) {
+    return "monochrome";
+  }
+  if (distance <= 60) {
+    return "analogous";
+  }
+  if (distance >= 100 && distance <= 140) {
+    return "triadic";
+  }
+  if (distance >= 150) {
+    return "complementary";
+  }
+  return "clash";
+}
+
+/**
+ * Secondary color candidates labeled by harmony, in proposal order
+ * Within a harmony, colors closest to the ideal hue offset come first
+ */
+function harmonyCandidates(baseColor: Color): [ColorHarmony, Color][] {
+  const hue = COLOR_HUES[baseColor];
+  const candidates: [ColorHarmony, Color][] = [];
+
+  for (const color of ColorSchema.options) {
+    if (color === baseColor) {
+      continue;
+    }
+    const harmony = detectHarmony(baseColor, color);
+    if (harmony !== "clash") {
+      candidates.push([harmony, color]);
+    }
+  }
+
+  const order = ColorHarmonySchema.options;
+  const offsetError = ([harmony, color]: [ColorHarmony, Color]) => {
+    const other = COLOR_HUES[color];
+    if (hue === null || other === null) {
+      return 0;
+    }
+    return Math.abs(hueDistance(hue, other) - HARMONY_OFFSETS[harmony]);
+  };
+
+  return candidates.sort(
+    (a, b) =>
+      order.indexOf(a[0]) - order.indexOf(b[0]) ||
+      offsetError(a) - offsetError(b),
+  );
+}
+
+function pickDecal(harmony: ColorHarmony, mood?: LiveryMood): Decal {
+  return mood ? MOOD_DECALS[mood][0] : HARMONY_DECALS[harmony][0];
+}
+
+function pickUnderglow(
+  color: Color,
+  secondaryColor: Color,
+  harmony: ColorHarmony,
+  mood?: LiveryMood,
+): Underglow {
+  const subtle = mood ? SUBTLE_MOODS[mood] : undefined;
+  if (subtle) {
+    return subtle;
+  }
+
+  if (harmony === "triadic") {
+    return "rainbow";
+  }
+
+  // Glow in the accent color where possible, otherwise the primary
+  const hue = COLOR_HUES[secondaryColor] ?? COLOR_HUES[color];
+  if (hue === null) {
+    return "white";
+  }
+
+  return nearestUnderglow(hue);
+}
+
+function nearestUnderglow(hue: number): Underglow {
+  let best: Underglow = "white";
+  let bestDistance = Infinity;
+
+  for (const [underglow, glowHue] of Object.entries(UNDERGLOW_HUES)) {
+    if (glowHue === null) {
+      continue;
+    }
+    const distance = hueDistance(hue, glowHue);
+    if (distance < bestDistance) {
+      best = underglow as Underglow;
+      bestDistance = distance;
+    }
+  }
+
+  // Far from every tinted glow: fall back to white
+  return bestDistance <= 45 ? best : "white";
+}
+
+function scoreUnderglow(
+  car: Pick<CarConfig, "color" | "secondaryColor" | "underglow">,
+  harmony: LiveryScore["harmony"],
+): number {
+  if (car.underglow === "none") {
+    return 80;
+  }
+  if (car.underglow === "rainbow") {
+    return harmony === "triadic" ? 95 : 55;
+  }
+
+  const glowHue = UNDERGLOW_HUES[car.underglow];
+  const paintHues = [car.color, car.secondaryColor]
+    .filter((c) => c !== undefined)
+    .map((c) => COLOR_HUES[nearestNamedColor(c)]);
+
+  if (glowHue === null) {
+    // White glow suits neutral paint best
+    return paintHues.includes(null) ? 90 : 70;
+  }
+
+  const closest = Math.min(
+    ...paintHues.map((h) => (h === null ? 180 : hueDistance(h, glowHue))),
+  );
+
+  if (closest <= 30) {
+    return 100;
+  }
+  if (closest <= 60) {
+    return 70;
+  }
+  return 30;
+}
+
+function hueDistance(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return Math.min(diff, 360 - diff);
+}
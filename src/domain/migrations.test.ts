@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { BUILD_MIGRATIONS, migrateBuild } from "./migrations.ts";
+import { BUILD_SCHEMA_VERSION, createBuild } from "./models.ts";
+
+describe("build migrations", () => {
+  const build = createBuild("old", "Old Faithful", { wheels: "racing" });
+  const { tires, suspension, transmission, nitrous, finish, ...car } =
+    build.car;
+  const { schemaVersion, ...unversioned } = { ...build, car };
+
+  it("should have one migration per version", () => {
+    expect(BUILD_MIGRATIONS.map((migration) => migration.version)).toEqual(
+      Array.from({ length: BUILD_SCHEMA_VERSION - 1 }, (_, i) => i + 2),
+    );
+    expect(schemaVersion).toBe(BUILD_SCHEMA_VERSION);
+  });
+
+  it("should upgrade unversioned builds saved before parts existed", () => {
+    const result = migrateBuild(unversioned);
+
+    expect(result).toEqual({ build, fromVersion: 1, migrated: true });
+    expect([tires, suspension, transmission, nitrous, finish]).toEqual([
+      "street",
+      "stock",
+      "stock",
+      "none",
+      "gloss",
+    ]);
+  });
+
+  it("should keep fields set before their migration ran", () => {
+    const result = migrateBuild({
+      ...unversioned,
+      car: { ...car, finish: "matte", nitrous: "dual_shot" },
+    });
+
+    expect(result.build.car).toMatchObject({
+      finish: "matte",
+      nitrous: "dual_shot",
+    });
+  });
+
+  it("should leave current builds alone", () => {
+    expect(migrateBuild(build)).toEqual({
+      build,
+      fromVersion: BUILD_SCHEMA_VERSION,
+      migrated: false,
+    });
+  });
+
+  it("should reject builds it can't migrate", () => {
+    expect(() => migrateBuild("not a build")).toThrow(/not a build object/);
+    expect(() =>
+      migrateBuild({ ...build, schemaVersion: BUILD_SCHEMA_VERSION + 1 }),
+    ).toThrow(/newer than this server supports/);
+    expect(() =>
+      migrateBuild({ ...unversioned, car: { ...car, wheels: "square" } }),
+    ).toThrow(/can't be migrated to schema version/);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Build schema migrations
+ * Stored builds record the schemaVersion they were written with. Builds from
+ * before versioning count as version 1 and are upgraded one version at a time
+ */
+
+import { type Build, BUILD_SCHEMA_VERSION, BuildSchema } from "./models.ts";
+import { formatZodError } from "../lib/errors.ts";
+
+/**
+ * A build as stored, before it is migrated and validated
+ */
+type StoredBuild = { [field: string]: unknown; car: Record<string, unknown> };
+
+export interface BuildMigration {
+  /** Version the migration upgrades a build to */
+  version: number;
+  description: string;
+  migrate: (build: StoredBuild) => StoredBuild;
+}
+
+/**
+ * Every migration, oldest first
+ * Migrations are frozen once released: fill in the values a field had when it
+ * was added rather than reading today's defaults
+ */
+export const BUILD_MIGRATIONS: BuildMigration[] = [
+  {
+    version: 2,
+    description: "Add paint finishes",
+    migrate: (build) => ({ ...build, car: { finish: "gloss", ...build.car } }),
+  },
+  {
+    version: 3,
+    description: "Add tires, suspension, transmission and nitrous",
+    migrate: (build) => ({
+      ...build,
+      car: {
+        tires: "street",
+        suspension: "stock",
+        transmission: "stock",
+        nitrous: "none",
+        ...build.car,
+      },
+    }),
+  },
+  {
+    version: 4,
+    description: "Add build tags",
+    migrate: (build) => ({ tags: [], ...build }),
+  },
+];
+
+export interface MigrationResult {
+  build: Build;
+  /** Version the build was stored with */
+  fromVersion: number;
+  /** Whether the build was upgraded and should be written back */
+  migrated: boolean;
+}
+
+/**
+ * Upgrade a stored build to BUILD_SCHEMA_VERSION and validate it
+ * @throws Error if the build is malformed, from a newer version or invalid
+ *   after migrating
+ */
+export function migrateBuild(stored: unknown): MigrationResult {
+  if (!isStoredBuild(stored)) {
+    throw new Error("Stored build is not a build object");
+  }
+
+  const fromVersion = stored.schemaVersion ?? 1;
+
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion)) {
+    throw new Error(`Invalid build schema version ${String(fromVersion)}`);
+  }
+  if (fromVersion > BUILD_SCHEMA_VERSION) {
+    throw new Error(
+      `Build schema version ${fromVersion} is newer than this server supports (${BUILD_SCHEMA_VERSION})`,
+    );
+  }
+
+  const upgraded = BUILD_MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion,
+  ).reduce((build, migration) => migration.migrate(build), stored);
+
+  const result = BuildSchema.safeParse({
+    ...upgraded,
+    schemaVersion: BUILD_SCHEMA_VERSION,
+  });
+
+  if (!result.success) {
+    throw new Error(
+      `Build can't be migrated to schema version ${BUILD_SCHEMA_VERSION}: ${formatZodError(result.error)}`,
+    );
+  }
+
+  return {
+    build: result.data,
+    fromVersion,
+    migrated: fromVersion < BUILD_SCHEMA_VERSION,
+  };
+}
+
+function isStoredBuild(value: unknown): value is StoredBuild {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { car?: unknown }).car === "object" &&
+    (value as { car?: unknown }).car !== null
+  );
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  CarConfigSchema,
+  CarConfigUpdateSchema,
+  DriverPersonaSchema,
+  PERSONA_MODIFIERS,
+  calculateBuildRating,
+  calculatePerformanceScore,
+  createBuild,
+} from "./models.ts";
+import { PART_CATEGORIES, PART_CATEGORY_NAMES, partBonus } from "./parts.ts";
+
+describe("models", () => {
+  it("should score tuning parts", () => {
+    const { car } = createBuild("active");
+    const tuned = {
+      ...car,
+      tires: "soft" as const,
+      nitrous: "dual_shot" as const,
+    };
+
+    expect(calculatePerformanceScore(tuned)).toBe(
+      calculatePerformanceScore(car) +
+        partBonus("tires", "soft") +
+        partBonus("nitrous", "dual_shot"),
+    );
+  });
+
+  it("should derive the car config schemas from the part registry", () => {
+    const car = CarConfigSchema.parse({});
+
+    for (const category of PART_CATEGORY_NAMES) {
+      const { options, description } = PART_CATEGORIES[category];
+      const field = CarConfigUpdateSchema.shape[category];
+
+      expect(car[category]).toBe(PART_CATEGORIES[category].default);
+      expect(field.description).toBe(description);
+      expect(field.safeParse(options.at(-1)).success).toBe(true);
+      expect(field.safeParse("not_a_part").success).toBe(false);
+    }
+  });
+});
+
+describe("calculateBuildRating", () => {
+  const car = CarConfigSchema.parse({
+    performance: { power: 80, grip: 60, aero: 50, weight: 50 },
+  });
+
+  it("should move each adjustment in its modifier's direction", () => {
+    for (const persona of DriverPersonaSchema.options) {
+      const modifiers = PERSONA_MODIFIERS[persona];
+      const expected = {
+        topSpeedBias: Math.sign(modifiers.topSpeedBias),
+        corneringBias: Math.sign(modifiers.corneringBias),
+        consistency: Math.sign(modifiers.consistency - 0.7),
+        risk: -Math.sign(modifiers.risk),
+        tireWear: -Math.sign(modifiers.tireWear),
+        boostChance: Math.sign(modifiers.boostChance),
+      };
+
+      const rating = calculateBuildRating(car, { persona });
+
+      for (const adjustment of rating.adjustments) {
+        expect(Math.sign(adjustment.points), persona).toBe(
+          expected[adjustment.modifier],
+        );
+      }
+      expect(rating.score).toBe(
+        Math.round(rating.carScore + rating.driverAdjustment),
+      );
+      expect(calculatePerformanceScore(car, { persona })).toBe(rating.score);
+    }
+
+    const speed = (persona: "SpeedDemon" | "Cautious") =>
+      calculateBuildRating(car, { persona }).adjustments.find(
+        (a) => a.modifier === "topSpeedBias",
+      )!.points;
+    expect(speed("SpeedDemon")).toBeGreaterThan(0);
+    expect(speed("Cautious")).toBeLessThan(0);
+  });
+
+  it("should drop adjustments worth no points", () => {
+    const modifiers = calculateBuildRating(car, {
+      persona: "Cautious",
+    }).adjustments.map((a) => a.modifier);
+
+    expect(modifiers).not.toContain("risk");
+    expect(modifiers).not.toContain("boostChance");
+
+    const stalled = CarConfigSchema.parse({
+      performance: { power: 0, grip: 0, aero: 0, weight: 0 },
+    });
+    expect(
+      calculateBuildRating(stalled, { persona: "SpeedDemon" }).adjustments.map(
+        (a) => a.modifier,
+      ),
+    ).not.toContain("topSpeedBias");
+  });
+
+  it("should clamp the score to 0-100", () => {
+    const maxed = CarConfigSchema.parse({
+      bodyKit: "racing",
+      wheels: "racing",
+      spoiler: "gt_wing",
+      performance: { power: 100, grip: 100, aero: 100, weight: 100 },
+    });
+    const tactical = calculateBuildRating(maxed, { persona: "Tactical" });
+    expect(tactical.carScore + tactical.driverAdjustment).toBeGreaterThan(100);
+    expect(tactical.score).toBe(100);
+
+    const stalled = CarConfigSchema.parse({
+      performance: { power: 0, grip: 0, aero: 0, weight: 0 },
+    });
+    const rage = calculateBuildRating(stalled, { persona: "RoadRage" });
+    expect(rage.carScore + rage.driverAdjustment).toBeLessThan(0);
+    expect(rage.score).toBe(0);
+  });
+});
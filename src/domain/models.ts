@@ -4,6 +4,15 @@
  */
 
 import { z } from "zod";
+import { containsBlockedWord } from "../lib/profanity.ts";
+import {
+  type PartCategory,
+  type PartOption,
+  PART_CATEGORIES,
+  PART_CATEGORY_NAMES,
+  mapPartCategories,
+  partBonus,
+} from "./parts.ts";
 
 /**
  * Color options for car customization
@@ -27,96 +36,190 @@ export const ColorSchema = z.enum([
 
 export type Color = z.infer<typeof ColorSchema>;
 
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const RGB_COLOR_PATTERN =
+  /^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/i;
+
+/**
+ * Custom paint: a hex value (#rgb or #rrggbb) or rgb(r, g, b)
+ * Stored normalized to lowercase #rrggbb (see normalizePaintColor)
+ */
+export const CustomColorSchema = z
+  .string()
+  .refine((value) => parseCustomColor(value) !== null, {
+    message:
+      "Expected a named color, a hex color (#rgb or #rrggbb) or rgb(r, g, b) with values 0-255",
+  });
+
+/**
+ * Paint color: a named color or a custom hex/RGB value
+ */
+export const PaintColorSchema = z.union([ColorSchema, CustomColorSchema]);
+
+export type PaintColor = z.infer<typeof PaintColorSchema>;
+
+/**
+ * Option schema of every part category, derived from the part registry
+ */
+export const PART_SCHEMAS = mapPartCategories((category) =>
+  z.enum(PART_CATEGORIES[category].options),
+) as { [C in PartCategory]: z.ZodEnum<{ [O in PartOption<C>]: O }> };
+
+/**
+ * Paint finish options
+ */
+export const FinishSchema = PART_SCHEMAS.finish;
+
+export type Finish = z.infer<typeof FinishSchema>;
+
 /**
  * Wheel options
  */
-export const WheelTypeSchema = z.enum([
-  "stock",
-  "sport",
-  "racing",
-  "offroad",
-  "chrome",
-  "neon",
-  "spinner",
-]);
+export const WheelTypeSchema = PART_SCHEMAS.wheels;
 
 export type WheelType = z.infer<typeof WheelTypeSchema>;
 
 /**
  * Body kit options
  */
-export const BodyKitSchema = z.enum([
-  "stock",
-  "sport",
-  "racing",
-  "drift",
-  "luxury",
-  "rally",
-  "muscle",
-]);
+export const BodyKitSchema = PART_SCHEMAS.bodyKit;
 
 export type BodyKit = z.infer<typeof BodyKitSchema>;
 
 /**
  * Decal/livery options
  */
-export const DecalSchema = z.enum([
-  "none",
-  "racing_stripes",
-  "flames",
-  "tribal",
-  "camo",
-  "carbon_fiber",
-  "checkered",
-  "sponsor",
-  "custom",
-]);
+export const DecalSchema = PART_SCHEMAS.decal;
 
 export type Decal = z.infer<typeof DecalSchema>;
 
+/** Most layers a custom decal can have */
+export const MAX_DECAL_LAYERS = 8;
+
+/** Longest decal text layer or sponsor name */
+export const MAX_DECAL_TEXT_LENGTH = 24;
+
 /**
- * Spoiler options
+ * Text shown on a custom decal: printable, short and free of blocked words
+ */
+const DecalTextSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_DECAL_TEXT_LENGTH)
+  .regex(/^[^\p{Cc}]+$/u, "Decal text can't contain control characters")
+  .refine((text) => !containsBlockedWord(text), {
+    message: "Decal text contains a blocked word",
+  });
+
+/** Percentage of the car's side view, 0,0 at the top left */
+const DecalPositionSchema = z.number().min(0).max(100);
+
+/**
+ * Shapes a custom decal layer can draw
+ * A stripe is a band across the whole side, so its width is ignored
+ */
+export const DecalShapeSchema = z.enum([
+  "rect",
+  "circle",
+  "triangle",
+  "star",
+  "stripe",
+]);
+
+export type DecalShape = z.infer<typeof DecalShapeSchema>;
+
+/**
+ * A layer of a custom decal: a shape or text centered on x,y
+ * Shape sizes are percentages of the side view, text size is in pixels
  */
-export const SpoilerSchema = z.enum([
-  "none",
-  "stock",
-  "sport",
-  "racing",
-  "gt_wing",
-  "ducktail",
+export const DecalLayerSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("shape"),
+    shape: DecalShapeSchema,
+    x: DecalPositionSchema,
+    y: DecalPositionSchema,
+    width: z.number().min(1).max(100).default(20),
+    height: z.number().min(1).max(100).default(20),
+    rotation: z.number().min(-180).max(180).default(0),
+    color: PaintColorSchema,
+  }),
+  z.object({
+    type: z.literal("text"),
+    text: DecalTextSchema,
+    x: DecalPositionSchema,
+    y: DecalPositionSchema,
+    size: z.number().min(6).max(40).default(14),
+    rotation: z.number().min(-180).max(180).default(0),
+    color: PaintColorSchema,
+  }),
 ]);
 
+export type DecalLayer = z.infer<typeof DecalLayerSchema>;
+
+/** A decal layer as given by a caller, before defaults are applied */
+export type DecalLayerInput = z.input<typeof DecalLayerSchema>;
+
+/**
+ * Design of the "custom" decal: layers drawn bottom to top and an optional
+ * sponsor badge
+ */
+export const CustomDecalSchema = z.object({
+  sponsor: DecalTextSchema.optional(),
+  layers: z.array(DecalLayerSchema).max(MAX_DECAL_LAYERS).default([]),
+});
+
+export type CustomDecal = z.infer<typeof CustomDecalSchema>;
+
+/**
+ * Spoiler options
+ */
+export const SpoilerSchema = PART_SCHEMAS.spoiler;
+
 export type Spoiler = z.infer<typeof SpoilerSchema>;
 
 /**
  * Exhaust options
  */
-export const ExhaustSchema = z.enum([
-  "stock",
-  "sport",
-  "racing",
-  "dual",
-  "quad",
-  "side_exit",
-]);
+export const ExhaustSchema = PART_SCHEMAS.exhaust;
 
 export type Exhaust = z.infer<typeof ExhaustSchema>;
 
 /**
  * Underglow options
  */
-export const UnderglowSchema = z.enum([
-  "none",
-  "red",
-  "blue",
-  "green",
-  "purple",
-  "rainbow",
-  "white",
-]);
+export const UnderglowSchema = PART_SCHEMAS.underglow;
 
 export type Underglow = z.infer<typeof UnderglowSchema>;
 
+/**
+ * Tire compound options
+ */
+export const TireCompoundSchema = PART_SCHEMAS.tires;
+
+export type TireCompound = z.infer<typeof TireCompoundSchema>;
+
+/**
+ * Suspension setup options
+ */
+export const SuspensionSchema = PART_SCHEMAS.suspension;
+
+export type Suspension = z.infer<typeof SuspensionSchema>;
+
+/**
+ * Gearbox options
+ */
+export const TransmissionSchema = PART_SCHEMAS.transmission;
+
+export type Transmission = z.infer<typeof TransmissionSchema>;
+
+/**
+ * Nitrous system options
+ */
+export const NitrousSchema = PART_SCHEMAS.nitrous;
+
+export type Nitrous = z.infer<typeof NitrousSchema>;
+
 /**
  * Performance characteristics
  */
@@ -137,14 +240,15 @@ export type Performance = z.infer<typeof PerformanceSchema>;
  * Car configuration
  */
 export const CarConfigSchema = z.object({
-  color: ColorSchema.default("red"),
-  secondaryColor: ColorSchema.optional(),
-  wheels: WheelTypeSchema.default("stock"),
-  bodyKit: BodyKitSchema.default("stock"),
-  decal: DecalSchema.default("none"),
-  spoiler: SpoilerSchema.default("none"),
-  exhaust: ExhaustSchema.default("stock"),
-  underglow: UnderglowSchema.default("none"),
+  color: PaintColorSchema.default("red"),
+  secondaryColor: PaintColorSchema.optional(),
+  ...(mapPartCategories((category) =>
+    (PART_SCHEMAS[category] as z.ZodEnum).default(
+      PART_CATEGORIES[category].default,
+    ),
+  ) as { [C in PartCategory]: z.ZodDefault<(typeof PART_SCHEMAS)[C]> }),
+  /** Only kept while decal is "custom" */
+  customDecal: CustomDecalSchema.optional(),
   performance: PerformanceSchema.default({
     power: 50,
     grip: 50,
@@ -180,14 +284,54 @@ export const DriverProfileSchema = z.object({
 
 export type DriverProfile = z.infer<typeof DriverProfileSchema>;
 
+/**
+ * Car classes, from the tightest stat budget to none (see classes.ts)
+ */
+export const CarClassSchema = z.enum(["D", "C", "B", "A", "S", "Unlimited"]);
+
+export type CarClass = z.infer<typeof CarClassSchema>;
+
+/**
+ * Version of the stored build format (see migrations.ts)
+ */
+export const BUILD_SCHEMA_VERSION = 4;
+
+/** Most tags a build can have */
+export const MAX_BUILD_TAGS = 10;
+
+/** Longest build tag */
+export const MAX_BUILD_TAG_LENGTH = 24;
+
+/**
+ * User-defined build tag, stored lowercase, e.g. "drift" or "team-b"
+ */
+export const BuildTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(MAX_BUILD_TAG_LENGTH)
+  .regex(
+    /^[a-z0-9][a-z0-9 _-]*$/,
+    "Tags can only contain letters, digits, spaces, _ and -",
+  )
+  .refine((tag) => !containsBlockedWord(tag), {
+    message: "Tag contains a blocked word",
+  });
+
 /**
  * Complete build (car + driver)
  */
 export const BuildSchema = z.object({
+  /** Format version the build was stored with */
+  schemaVersion: z.number().int().min(1).default(BUILD_SCHEMA_VERSION),
   id: z.string(),
   name: z.string().optional(),
   car: CarConfigSchema,
   driver: DriverProfileSchema,
+  /** Class the build is held to (unrestricted when unset) */
+  carClass: CarClassSchema.optional(),
+  tags: z.array(BuildTagSchema).max(MAX_BUILD_TAGS).default([]),
   createdAt: z.number(),
   updatedAt: z.number(),
 });
@@ -196,17 +340,55 @@ export type Build = z.infer<typeof BuildSchema>;
 
 /**
  * Partial car config update (all fields optional)
+ * Fields are listed without defaults so omitted fields stay unchanged
  */
-export const CarConfigUpdateSchema = CarConfigSchema.extend({
-  performance: PerformanceSchema.partial().optional(),
-}).partial();
+export const CarConfigUpdateSchema = z.object({
+  color: PaintColorSchema.optional().describe(
+    `Primary color of the car: a named color (${ColorSchema.options.join(", ")}), a hex value (#rgb or #rrggbb) or rgb(r, g, b)`,
+  ),
+  secondaryColor: PaintColorSchema.optional().describe(
+    "Secondary/accent color: a named color, a hex value or rgb(r, g, b)",
+  ),
+  ...(mapPartCategories((category) =>
+    PART_SCHEMAS[category]
+      .optional()
+      .describe(PART_CATEGORIES[category].description),
+  ) as { [C in PartCategory]: z.ZodOptional<(typeof PART_SCHEMAS)[C]> }),
+  performance: z
+    .object({
+      power: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Engine power (0-100)"),
+      grip: z.number().min(0).max(100).optional().describe("Tire grip (0-100)"),
+      aero: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Aerodynamics (0-100)"),
+      weight: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Weight reduction (0-100, higher = lighter)"),
+    })
+    .optional()
+    .describe("Performance characteristics"),
+});
 
 export type CarConfigUpdate = z.infer<typeof CarConfigUpdateSchema>;
 
 /**
  * Partial driver profile update (all fields optional)
  */
-export const DriverProfileUpdateSchema = DriverProfileSchema.partial();
+export const DriverProfileUpdateSchema = z.object({
+  persona: DriverPersonaSchema.optional(),
+  nickname: z.string().min(1).max(50).optional(),
+});
 
 export type DriverProfileUpdate = z.infer<typeof DriverProfileUpdateSchema>;
 
@@ -216,8 +398,17 @@ export type DriverProfileUpdate = z.infer<typeof DriverProfileUpdateSchema>;
 export const BuildMetadataSchema = z.object({
   id: z.string(),
   name: z.string().optional(),
+  tags: z.array(z.string()),
+  carClass: CarClassSchema.optional(),
+  color: PaintColorSchema,
+  persona: DriverPersonaSchema,
+  nickname: z.string().optional(),
+  /** Performance score of the car and driver, see calculatePerformanceScore */
+  performanceScore: z.number(),
   createdAt: z.number(),
   updatedAt: z.number(),
+  /** Storage version, passed back as expectedVersion to overwrite the build */
+  version: z.number().optional(),
 });
 
 export type BuildMetadata = z.infer<typeof BuildMetadataSchema>;
@@ -286,6 +477,83 @@ export const PERSONA_PERKS: Record<
   },
 };
 
+/**
+ * Machine-readable persona modifiers used by scoring and races
+ */
+export interface PersonaModifiers {
+  /** 0-1, higher means less lap-to-lap variation */
+  consistency: number;
+  /** 0-1, chance of a costly mistake on any lap */
+  risk: number;
+  /** 0-1, how quickly tires wear and lap times drop off over a race */
+  tireWear: number;
+  /** Pace adjustment on straights */
+  topSpeedBias: number;
+  /** Pace adjustment in corners */
+  corneringBias: number;
+  /** 0-1, chance of a random burst of speed on any lap */
+  boostChance: number;
+}
+
+export const PERSONA_MODIFIERS: Record<DriverPersona, PersonaModifiers> = {
+  CoolCalmCollected: {
+    consistency: 0.9,
+    risk: 0.02,
+    tireWear: 0.3,
+    topSpeedBias: -0.01,
+    corneringBias: 0.02,
+    boostChance: 0,
+  },
+  RoadRage: {
+    consistency: 0.4,
+    risk: 0.15,
+    tireWear: 0.8,
+    topSpeedBias: 0.04,
+    corneringBias: 0,
+    boostChance: 0,
+  },
+  SpeedDemon: {
+    consistency: 0.6,
+    risk: 0.06,
+    tireWear: 0.6,
+    topSpeedBias: 0.06,
+    corneringBias: -0.04,
+    boostChance: 0,
+  },
+  Cautious: {
+    consistency: 0.95,
+    risk: 0,
+    tireWear: 0.15,
+    topSpeedBias: -0.03,
+    corneringBias: -0.01,
+    boostChance: 0,
+  },
+  ShowOff: {
+    consistency: 0.5,
+    risk: 0.07,
+    tireWear: 0.9,
+    topSpeedBias: 0,
+    corneringBias: -0.02,
+    boostChance: 0.05,
+  },
+  Tactical: {
+    consistency: 0.8,
+    risk: 0.03,
+    tireWear: 0.25,
+    topSpeedBias: 0.01,
+    corneringBias: 0.01,
+    boostChance: 0,
+  },
+  Wildcard: {
+    consistency: 0.2,
+    risk: 0.1,
+    tireWear: 0.5,
+    topSpeedBias: 0,
+    corneringBias: 0,
+    boostChance: 0.25,
+  },
+};
+
 /**
  * Helper to create a default car config
  */
@@ -324,49 +592,250 @@ export function createBuild(
   });
 }
 
+/**
+ * Paint price for each named color (also used for the secondary color)
+ */
+export const COLOR_PRICE: Record<Color, number> = {
+  red: 100,
+  blue: 100,
+  green: 100,
+  yellow: 100,
+  orange: 100,
+  purple: 100,
+  pink: 100,
+  black: 150,
+  white: 100,
+  silver: 250,
+  gold: 400,
+  cyan: 200,
+  magenta: 200,
+  lime: 200,
+};
+
+/** Paint price for a custom hex/RGB color */
+export const CUSTOM_PAINT_PRICE = 300;
+
+/**
+ * Credit price of every part option, by part (paint colors are priced by
+ * COLOR_PRICE and CUSTOM_PAINT_PRICE)
+ * Stock parts, street tires, gloss and "none" are free, and so is editing the
+ * custom decal
+ */
+export const PART_PRICES = mapPartCategories(
+  (category) => PART_CATEGORIES[category].prices,
+) as { [C in PartCategory]: Record<PartOption<C>, number> };
+
+/**
+ * Credit cost of one point of each performance stat
+ */
+export const STAT_POINT_COST: Record<keyof Performance, number> = {
+  power: 30,
+  grip: 25,
+  aero: 20,
+  weight: 25,
+};
+
+/**
+ * Apply a partial update to a car config
+ * Performance stats are merged so updating one stat keeps the others, custom
+ * paint is normalized and the custom decal design is dropped along with the
+ * custom decal
+ */
+export function applyCarConfigUpdate(
+  car: CarConfig,
+  updates: CarConfigUpdate,
+): CarConfig {
+  const { performance, ...parts } = updates;
+  const updated: CarConfig = {
+    ...car,
+    ...parts,
+    performance: { ...car.performance, ...performance },
+  };
+
+  if (parts.color !== undefined) {
+    updated.color = normalizePaintColor(parts.color);
+  }
+  if (parts.secondaryColor !== undefined) {
+    updated.secondaryColor = normalizePaintColor(parts.secondaryColor);
+  }
+  if (updated.decal !== "custom") {
+    delete updated.customDecal;
+  }
+
+  return updated;
+}
+
+/**
+ * Format color channels as lowercase #rrggbb
+ */
+export function formatHexColor(channels: number[]): string {
+  return `#${channels.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Parse a custom hex/RGB color into channels (null if it isn't one)
+ */
+export function parseCustomColor(
+  value: string,
+): [r: number, g: number, b: number] | null {
+  const color = value.trim();
+
+  if (HEX_COLOR_PATTERN.test(color)) {
+    const hex =
+      color.length === 4
+        ? [...color.slice(1)].map((digit) => digit + digit).join("")
+        : color.slice(1);
+    return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [
+      number,
+      number,
+      number,
+    ];
+  }
+
+  const rgb = RGB_COLOR_PATTERN.exec(color);
+  if (rgb) {
+    const channels = rgb.slice(1, 4).map(Number);
+    return channels.every((c) => c <= 255)
+      ? (channels as [number, number, number])
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Normalize paint: named colors are kept, custom colors become lowercase
+ * #rrggbb
+ */
+export function normalizePaintColor(color: PaintColor): PaintColor {
+  const channels = ColorSchema.safeParse(color).success
+    ? null
+    : parseCustomColor(color);
+
+  return channels ? formatHexColor(channels) : color;
+}
+
+/**
+ * How one persona modifier changes a build's rating
+ */
+export interface PersonaAdjustment {
+  modifier: keyof PersonaModifiers;
+  value: number;
+  points: number;
+  explanation: string;
+}
+
+/**
+ * Combined car-plus-driver rating
+ */
+export interface BuildRating {
+  /** Car-only score */
+  carScore: number;
+  /** Sum of persona adjustments */
+  driverAdjustment: number;
+  score: number;
+  adjustments: PersonaAdjustment[];
+}
+
+/** Consistency at which a driver neither gains nor loses points */
+const NEUTRAL_CONSISTENCY = 0.7;
+
 /**
  * Calculate derived performance score from car config
+ * Pass a driver to include persona adjustments (see calculateBuildRating)
  */
-export function calculatePerformanceScore(car: CarConfig): number {
+export function calculatePerformanceScore(
+  car: CarConfig,
+  driver?: DriverProfile,
+): number {
+  if (driver) {
+    return calculateBuildRating(car, driver).score;
+  }
+
   const { power, grip, aero, weight } = car.performance;
 
   // Base score from performance stats
   let score = (power + grip + aero + weight) / 4;
 
-  // Body kit bonuses
-  const bodyKitBonus: Record<BodyKit, number> = {
-    stock: 0,
-    sport: 5,
-    racing: 10,
-    drift: 7,
-    luxury: 3,
-    rally: 8,
-    muscle: 6,
-  };
-  score += bodyKitBonus[car.bodyKit];
-
-  // Wheel bonuses
-  const wheelBonus: Record<WheelType, number> = {
-    stock: 0,
-    sport: 3,
-    racing: 8,
-    offroad: 5,
-    chrome: 1,
-    neon: 2,
-    spinner: 0,
-  };
-  score += wheelBonus[car.wheels];
-
-  // Spoiler bonuses
-  const spoilerBonus: Record<Spoiler, number> = {
-    none: 0,
-    stock: 2,
-    sport: 4,
-    racing: 7,
-    gt_wing: 9,
-    ducktail: 5,
-  };
-  score += spoilerBonus[car.spoiler];
+  // Part bonuses
+  for (const category of PART_CATEGORY_NAMES) {
+    score += partBonus(category, car[category]);
+  }
 
   return Math.min(100, Math.round(score));
 }
+
+/**
+ * Rate a car with its driver, explaining each persona adjustment
+ * Speed biases scale with the stat they lean on, so a top-speed driver gains
+ * more from a powerful car
+ */
+export function calculateBuildRating(
+  car: CarConfig,
+  driver: DriverProfile,
+): BuildRating {
+  const { persona } = driver;
+  const modifiers = PERSONA_MODIFIERS[persona];
+  const { power, grip } = car.performance;
+
+  const candidates: PersonaAdjustment[] = [
+    {
+      modifier: "topSpeedBias",
+      value: modifiers.topSpeedBias,
+      points: roundPoints(modifiers.topSpeedBias * power),
+      explanation: `${persona} top-speed bias (${signed(modifiers.topSpeedBias)}) applied to power ${power}`,
+    },
+    {
+      modifier: "corneringBias",
+      value: modifiers.corneringBias,
+      points: roundPoints(modifiers.corneringBias * grip),
+      explanation: `${persona} cornering bias (${signed(modifiers.corneringBias)}) applied to grip ${grip}`,
+    },
+    {
+      modifier: "consistency",
+      value: modifiers.consistency,
+      points: roundPoints((modifiers.consistency - NEUTRAL_CONSISTENCY) * 10),
+      explanation: `Consistency ${modifiers.consistency} vs a neutral ${NEUTRAL_CONSISTENCY}`,
+    },
+    {
+      modifier: "risk",
+      value: modifiers.risk,
+      points: roundPoints(-modifiers.risk * 20),
+      explanation: `${Math.round(modifiers.risk * 100)}% chance of a costly mistake per lap`,
+    },
+    {
+      modifier: "tireWear",
+      value: modifiers.tireWear,
+      points: roundPoints(-modifiers.tireWear * 3),
+      explanation: `Tire wear ${modifiers.tireWear} slows later laps`,
+    },
+    {
+      modifier: "boostChance",
+      value: modifiers.boostChance,
+      points: roundPoints(modifiers.boostChance * 10),
+      explanation: `${Math.round(modifiers.boostChance * 100)}% chance of a burst of speed per lap`,
+    },
+  ];
+
+  const adjustments = candidates.filter((a) => a.points !== 0);
+  const carScore = calculatePerformanceScore(car);
+  const driverAdjustment = roundPoints(
+    adjustments.reduce((sum, a) => sum + a.points, 0),
+  );
+
+  return {
+    carScore,
+    driverAdjustment,
+    score: Math.max(0, Math.min(100, Math.round(carScore + driverAdjustment))),
+    adjustments,
+  };
+}
+
+function roundPoints(value: number): number {
+  // Adding 0 turns -0 into 0
+  return Math.round(value * 10) / 10 + 0;
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : `${value}`;
+}
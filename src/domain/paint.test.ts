@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { NAMED_COLOR_HEX, nearestNamedColor, paintHex } from "./paint.ts";
+import {
+  CarConfigSchema,
+  ColorSchema,
+  applyCarConfigUpdate,
+} from "./models.ts";
+
+describe("paint", () => {
+  it("should accept named, hex and rgb paint", () => {
+    for (const color of ["teal", "#12345", "#ggg", "rgb(256, 0, 0)"]) {
+      expect(CarConfigSchema.safeParse({ color }).success).toBe(false);
+    }
+    for (const color of ["red", "#0af", "#00AAFF", "rgb(0, 170, 255)"]) {
+      expect(CarConfigSchema.safeParse({ color }).success).toBe(true);
+    }
+  });
+
+  it("should normalize custom paint to lowercase #rrggbb", () => {
+    const car = CarConfigSchema.parse({});
+
+    expect(applyCarConfigUpdate(car, { color: "#0AF" }).color).toBe("#00aaff");
+    expect(
+      applyCarConfigUpdate(car, { secondaryColor: "rgb(0, 170, 255)" })
+        .secondaryColor,
+    ).toBe("#00aaff");
+    expect(applyCarConfigUpdate(car, { color: "gold" }).color).toBe("gold");
+  });
+
+  it("should default to a gloss finish", () => {
+    expect(CarConfigSchema.parse({}).finish).toBe("gloss");
+  });
+
+  it("should map paint to the nearest named color", () => {
+    for (const color of ColorSchema.options) {
+      expect(nearestNamedColor(color)).toBe(color);
+      expect(nearestNamedColor(NAMED_COLOR_HEX[color])).toBe(color);
+    }
+    expect(nearestNamedColor("#ff0000")).toBe("red");
+    expect(nearestNamedColor("rgb(10, 60, 220)")).toBe("blue");
+    expect(nearestNamedColor("#000")).toBe("black");
+  });
+
+  it("should give the hex value of any paint", () => {
+    expect(paintHex("red")).toBe(NAMED_COLOR_HEX.red);
+    expect(paintHex("#0af")).toBe("#00aaff");
+    expect(paintHex("rgb(255, 0, 16)")).toBe("#ff0010");
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Paint
+ * Hex values for paint colors and the nearest named color to custom paint,
+ * for consumers that only understand the named colors
+ */
+
+import {
+  type Color,
+  type PaintColor,
+  ColorSchema,
+  normalizePaintColor,
+  parseCustomColor,
+} from "./models.ts";
+
+/**
+ * Paint hex values for each named color
+ */
+export const NAMED_COLOR_HEX: Record<Color, string> = {
+  red: "#d7263d",
+  blue: "#1b4fd8",
+  green: "#1f9d55",
+  yellow: "#f6d31c",
+  orange: "#f77f00",
+  purple: "#7b2cbf",
+  pink: "#ff70a6",
+  black: "#1c1c1c",
+  white: "#f4f4f4",
+  silver: "#b8bcc2",
+  gold: "#d4a017",
+  cyan: "#00b4d8",
+  magenta: "#d100d1",
+  lime: "#9ef01a",
+};
+
+/**
+ * Whether paint is one of the named colors
+ */
+export function isNamedColor(color: PaintColor): color is Color {
+  return ColorSchema.safeParse(color).success;
+}
+
+/**
+ * Hex value of any paint color
+ */
+export function paintHex(color: PaintColor): string {
+  if (isNamedColor(color)) {
+    return NAMED_COLOR_HEX[color];
+  }
+  return normalizePaintColor(color);
+}
+
+/**
+ * Named color closest to a paint color (named colors map to themselves)
+ * Distance is the "redmean" weighted RGB distance, which tracks perceived
+ * difference better than plain RGB
+ */
+export function nearestNamedColor(color: PaintColor): Color {
+  if (isNamedColor(color)) {
+    return color;
+  }
+
+  const target = channelsOf(paintHex(color));
+  let nearest: Color = ColorSchema.options[0];
+  let nearestDistance = Infinity;
+
+  for (const named of ColorSchema.options) {
+    const distance = colorDistance(target, channelsOf(NAMED_COLOR_HEX[named]));
+    if (distance < nearestDistance) {
+      nearest = named;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+function channelsOf(hex: string): [number, number, number] {
+  return parseCustomColor(hex) ?? [0, 0, 0];
+}
+
+function colorDistance(
+  [r1, g1, b1]: [number, number, number],
+  [r2, g2, b2]: [number, number, number],
+): number {
+  const redMean = (r1 + r2) / 2;
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  return (
+    (2 + redMean / 256) * dr * dr +
+    4 * dg * dg +
+    (2 + (255 - redMean) / 256) * db * db
+  );
+}
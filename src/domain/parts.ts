@@ -0,0 +1,300 @@
+/**
+ * Part registry
+ * Every part category is declared here once: its options, default, score
+ * bonuses, prices and descriptions. The car config schemas, tool input
+ * schemas, score and customization options are all derived from it
+ */
+
+/**
+ * Declaration of a part category
+ */
+export interface PartCategoryDefinition<Option extends string = string> {
+  /** Name used in prose, e.g. "body kit" */
+  label: string;
+  /** Description of the field in tool input schemas */
+  description: string;
+  /** Key of the option list in get_customization_options */
+  optionsKey: string;
+  options: readonly [Option, ...Option[]];
+  /** Option fitted to new cars and filled into old builds */
+  default: NoInfer<Option>;
+  /** Performance score bonus of each option (cosmetic parts have none) */
+  bonus?: Record<NoInfer<Option>, number>;
+  /** Credit price of each option */
+  prices: Record<NoInfer<Option>, number>;
+}
+
+function definePartCategory<const Option extends string>(
+  category: PartCategoryDefinition<Option>,
+): PartCategoryDefinition<Option> {
+  return category;
+}
+
+/**
+ * Every part category, in car config order
+ * Share codes encode parts by category and option index in this order, so
+ * append new categories and options to the end
+ */
+export const PART_CATEGORIES = {
+  finish: definePartCategory({
+    label: "paint finish",
+    description: "Paint finish",
+    optionsKey: "finishes",
+    options: ["gloss", "matte", "metallic", "pearl", "chrome", "satin"],
+    default: "gloss",
+    prices: {
+      gloss: 0,
+      matte: 300,
+      metallic: 400,
+      pearl: 600,
+      chrome: 1200,
+      satin: 350,
+    },
+  }),
+  wheels: definePartCategory({
+    label: "wheels",
+    description: "Wheel type",
+    optionsKey: "wheels",
+    options: [
+      "stock",
+      "sport",
+      "racing",
+      "offroad",
+      "chrome",
+      "neon",
+      "spinner",
+    ],
+    default: "stock",
+    bonus: {
+      stock: 0,
+      sport: 3,
+      racing: 8,
+      offroad: 5,
+      chrome: 1,
+      neon: 2,
+      spinner: 0,
+    },
+    prices: {
+      stock: 0,
+      sport: 300,
+      racing: 800,
+      offroad: 500,
+      chrome: 400,
+      neon: 450,
+      spinner: 350,
+    },
+  }),
+  bodyKit: definePartCategory({
+    label: "body kit",
+    description: "Body kit style",
+    optionsKey: "bodyKits",
+    options: ["stock", "sport", "racing", "drift", "luxury", "rally", "muscle"],
+    default: "stock",
+    bonus: {
+      stock: 0,
+      sport: 5,
+      racing: 10,
+      drift: 7,
+      luxury: 3,
+      rally: 8,
+      muscle: 6,
+    },
+    prices: {
+      stock: 0,
+      sport: 600,
+      racing: 1500,
+      drift: 1100,
+      luxury: 900,
+      rally: 1200,
+      muscle: 1000,
+    },
+  }),
+  decal: definePartCategory({
+    label: "decal",
+    description:
+      'Decal/livery style ("custom" is designed with the decal layer tools)',
+    optionsKey: "decals",
+    options: [
+      "none",
+      "racing_stripes",
+      "flames",
+      "tribal",
+      "camo",
+      "carbon_fiber",
+      "checkered",
+      "sponsor",
+      "custom",
+    ],
+    default: "none",
+    prices: {
+      none: 0,
+      racing_stripes: 150,
+      flames: 200,
+      tribal: 200,
+      camo: 180,
+      carbon_fiber: 350,
+      checkered: 150,
+      sponsor: 100,
+      custom: 500,
+    },
+  }),
+  spoiler: definePartCategory({
+    label: "spoiler",
+    description: "Spoiler type",
+    optionsKey: "spoilers",
+    options: ["none", "stock", "sport", "racing", "gt_wing", "ducktail"],
+    default: "none",
+    bonus: {
+      none: 0,
+      stock: 2,
+      sport: 4,
+      racing: 7,
+      gt_wing: 9,
+      ducktail: 5,
+    },
+    prices: {
+      none: 0,
+      stock: 100,
+      sport: 350,
+      racing: 700,
+      gt_wing: 1000,
+      ducktail: 450,
+    },
+  }),
+  exhaust: definePartCategory({
+    label: "exhaust",
+    description: "Exhaust system",
+    optionsKey: "exhausts",
+    options: ["stock", "sport", "racing", "dual", "quad", "side_exit"],
+    default: "stock",
+    prices: {
+      stock: 0,
+      sport: 250,
+      racing: 600,
+      dual: 400,
+      quad: 650,
+      side_exit: 500,
+    },
+  }),
+  underglow: definePartCategory({
+    label: "underglow",
+    description: "Underglow lighting",
+    optionsKey: "underglows",
+    options: ["none", "red", "blue", "green", "purple", "rainbow", "white"],
+    default: "none",
+    prices: {
+      none: 0,
+      red: 200,
+      blue: 200,
+      green: 200,
+      purple: 200,
+      rainbow: 500,
+      white: 250,
+    },
+  }),
+  tires: definePartCategory({
+    label: "tires",
+    description: "Tire compound",
+    optionsKey: "tires",
+    options: ["street", "sport", "soft", "hard", "wet", "all_terrain"],
+    default: "street",
+    bonus: {
+      street: 0,
+      sport: 3,
+      soft: 6,
+      hard: 2,
+      wet: 1,
+      all_terrain: 2,
+    },
+    prices: {
+      street: 0,
+      sport: 300,
+      soft: 600,
+      hard: 400,
+      wet: 350,
+      all_terrain: 450,
+    },
+  }),
+  suspension: definePartCategory({
+    label: "suspension",
+    description: "Suspension setup",
+    optionsKey: "suspensions",
+    options: ["stock", "lowered", "sport", "coilover", "rally", "air_ride"],
+    default: "stock",
+    bonus: {
+      stock: 0,
+      lowered: 2,
+      sport: 4,
+      coilover: 6,
+      rally: 4,
+      air_ride: 1,
+    },
+    prices: {
+      stock: 0,
+      lowered: 250,
+      sport: 500,
+      coilover: 900,
+      rally: 800,
+      air_ride: 700,
+    },
+  }),
+  transmission: definePartCategory({
+    label: "transmission",
+    description: "Gearbox",
+    optionsKey: "transmissions",
+    options: ["stock", "close_ratio", "sequential", "dual_clutch"],
+    default: "stock",
+    bonus: { stock: 0, close_ratio: 3, sequential: 6, dual_clutch: 5 },
+    prices: { stock: 0, close_ratio: 700, sequential: 1400, dual_clutch: 1200 },
+  }),
+  nitrous: definePartCategory({
+    label: "nitrous",
+    description: "Nitrous system",
+    optionsKey: "nitrous",
+    options: ["none", "single_shot", "dual_shot", "progressive"],
+    default: "none",
+    bonus: { none: 0, single_shot: 3, dual_shot: 6, progressive: 5 },
+    prices: { none: 0, single_shot: 600, dual_shot: 1200, progressive: 1500 },
+  }),
+};
+
+export type PartCategory = keyof typeof PART_CATEGORIES;
+
+/**
+ * Options of a part category
+ */
+export type PartOption<Category extends PartCategory> =
+  (typeof PART_CATEGORIES)[Category]["options"][number];
+
+/** Part categories in car config order */
+export const PART_CATEGORY_NAMES = Object.keys(
+  PART_CATEGORIES,
+) as PartCategory[];
+
+/**
+ * Score bonus table of a part category (empty for cosmetic parts)
+ */
+export function partBonusTable(
+  category: PartCategory,
+): Readonly<Record<string, number>> {
+  const definition: PartCategoryDefinition = PART_CATEGORIES[category];
+  return definition.bonus ?? {};
+}
+
+/**
+ * Performance score bonus of a part option (0 for cosmetic parts)
+ */
+export function partBonus(category: PartCategory, option: string): number {
+  return partBonusTable(category)[option] ?? 0;
+}
+
+/**
+ * Build an object with one entry per part category
+ */
+export function mapPartCategories<Value>(
+  map: (category: PartCategory) => Value,
+): Record<PartCategory, Value> {
+  return Object.fromEntries(
+    PART_CATEGORY_NAMES.map((category) => [category, map(category)]),
+  ) as Record<PartCategory, Value>;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { renderBuildSvg } from "./preview.ts";
+import {
+  type Build,
+  BodyKitSchema,
+  DecalSchema,
+  ExhaustSchema,
+  SpoilerSchema,
+  UnderglowSchema,
+  WheelTypeSchema,
+  BUILD_SCHEMA_VERSION,
+  createDefaultCarConfig,
+} from "./models.ts";
+
+describe("renderBuildSvg", () => {
+  const build: Build = {
+    schemaVersion: BUILD_SCHEMA_VERSION,
+    id: "red_devil",
+    name: "Red Devil",
+    car: {
+      ...createDefaultCarConfig(),
+      secondaryColor: "black",
+      bodyKit: "racing",
+      wheels: "chrome",
+      decal: "flames",
+      spoiler: "gt_wing",
+      exhaust: "quad",
+      underglow: "purple",
+    },
+    driver: { persona: "SpeedDemon", nickname: "Blaze" },
+    tags: [],
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  it("should match the stored snapshot", () => {
+    expect(renderBuildSvg(build)).toMatchSnapshot();
+  });
+
+  it("should render identical output for the same build", () => {
+    expect(renderBuildSvg(structuredClone(build))).toBe(renderBuildSvg(build));
+  });
+
+  it("should escape user-provided text", () => {
+    const svg = renderBuildSvg({ ...build, name: '<script>"x"</script>' });
+
+    expect(svg).not.toContain("<script>");
+    expect(svg).toContain("&lt;script&gt;&quot;x&quot;&lt;/script&gt;");
+  });
+
+  it("should render custom decal layers and escape their text", () => {
+    const svg = renderBuildSvg({
+      ...build,
+      car: {
+        ...build.car,
+        decal: "custom",
+        customDecal: {
+          sponsor: "Paws & Co",
+          layers: [
+            {
+              type: "shape",
+              shape: "star",
+              x: 50,
+              y: 40,
+              width: 20,
+              height: 30,
+              rotation: 0,
+              color: "#00aaff",
+            },
+            {
+              type: "text",
+              text: "<GO>",
+              x: 20,
+              y: 50,
+              size: 14,
+              rotation: 15,
+              color: "gold",
+            },
+          ],
+        },
+      },
+    });
+
+    expect(svg).toContain('fill="#00aaff"');
+    expect(svg).toContain("&lt;GO&gt;");
+    expect(svg).toContain("PAWS &amp; CO");
+    expect(svg).not.toContain("<GO>");
+  });
+
+  it("should render every part option", () => {
+    const options = [
+      ["bodyKit", BodyKitSchema.options],
+      ["wheels", WheelTypeSchema.options],
+      ["decal", DecalSchema.options],
+      ["spoiler", SpoilerSchema.options],
+      ["exhaust", ExhaustSchema.options],
+      ["underglow", UnderglowSchema.options],
+    ] as const;
+
+    for (const [field, values] of options) {
+      for (const value of values) {
+        const svg = renderBuildSvg({
+          ...build,
+          car: { ...build.car, [field]: value },
+        });
+        expect(svg).toMatch(/^<svg[\s\S]*<\/svg>$/);
+      }
+    }
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * SVG preview rendering
+ * Draws a stylized side view of a build; output is deterministic for a given build
+ */
+
+import type {
+  BodyKit,
+  Build,
+  CustomDecal,
+  Decal,
+  DecalLayer,
+  Exhaust,
+  Finish,
+  Spoiler,
+  Underglow,
+  WheelType,
+} from "./models.ts";
+import { paintHex } from "./paint.ts";
+
+const WIDTH = 400;
+const HEIGHT = 220;
+
+/** Area of the side view that custom decal positions are relative to */
+const DECAL_AREA = { x: 40, y: 55, width: 335, height: 100 } as const;
+
+/** Wheel centers (rear, front) and radius */
+const WHEEL_X = [110, 290] as const;
+const WHEEL_RADIUS = 28;
+
+const UNDERGLOW_HEX: Record<Exclude<Underglow, "none" | "rainbow">, string> = {
+  red: "#ff2a2a",
+  blue: "#2a7bff",
+  green: "#2aff6b",
+  purple: "#b84dff",
+  white: "#ffffff",
+};
+
+/**
+ * Side-view silhouette for each body kit
+ * `ride` is the y coordinate of the underside, `window` the glass outline
+ */
+const BODY_SHAPES: Record<
+  BodyKit,
+  { body: string; window: string; ride: number }
+> = {
+  stock: {
+    body: "M60 150 L60 120 Q70 100 110 98 L150 96 Q175 70 220 68 L260 68 Q290 70 310 98 L345 104 Q360 108 360 125 L360 150 Z",
+    window: "M160 96 Q180 76 220 75 L255 75 Q280 78 298 96 Z",
+    ride: 150,
+  },
+  sport: {
+    body: "M55 150 L58 118 Q75 102 120 100 L160 98 Q190 72 235 72 L262 73 Q295 80 318 100 L352 106 Q366 112 364 130 L362 150 Z",
+    window: "M170 98 Q195 79 235 78 L258 79 Q285 85 305 99 Z",
+    ride: 150,
+  },
+  racing: {
+    body: "M50 150 L52 122 Q70 110 130 108 L175 104 Q205 80 245 80 L265 82 Q300 92 330 106 L368 116 L370 150 Z",
+    window: "M185 104 Q210 86 245 86 L262 87 Q290 95 312 105 Z",
+    ride: 150,
+  },
+  drift: {
+    body: "M52 150 L54 120 Q70 104 118 101 L158 99 Q186 74 232 73 L262 74 Q294 82 316 101 L354 107 Q368 113 366 132 L364 150 L330 150 Q326 122 290 120 Q254 122 250 150 L150 150 Q146 122 110 120 Q74 122 70 150 Z",
+    window: "M168 99 Q192 80 232 79 L258 80 Q284 86 303 100 Z",
+    ride: 150,
+  },
+  luxury: {
+    body: "M45 150 L45 115 Q55 98 100 96 L140 94 Q165 62 215 60 L270 60 Q300 64 318 94 L350 100 Q365 105 365 122 L365 150 Z",
+    window: "M150 94 Q172 68 215 67 L266 67 Q292 71 306 94 Z",
+    ride: 150,
+  },
+  rally: {
+    body: "M60 140 L60 108 Q66 94 100 92 L150 90 Q165 60 210 58 L265 58 Q285 60 300 90 L345 96 Q358 100 358 118 L358 140 Z",
+    window: "M158 90 Q172 66 210 65 L262 65 Q280 68 290 90 Z",
+    ride: 140,
+  },
+  muscle: {
+    body: "M50 150 L50 112 L100 106 L140 104 L165 74 L235 74 L265 104 L355 108 Q365 110 365 122 L365 150 Z",
+    window: "M150 104 L170 80 L230 80 L252 104 Z",
+    ride: 150,
+  },
+};
+
+/**
+ * Render a build as a standalone SVG document
+ */
+export function renderBuildSvg(build: Build): string {
+  const { car, driver } = build;
+  const shape = BODY_SHAPES[car.bodyKit];
+  const paint = paintHex(car.color);
+  const accent = car.secondaryColor ? paintHex(car.secondaryColor) : null;
+  const label = build.name ?? driver.nickname ?? "Pomeranian Kart";
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">`,
+    renderDefs(shape.body),
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="#20232a"/>`,
+    `<line x1="0" y1="${shape.ride + 30}" x2="${WIDTH}" y2="${shape.ride + 30}" stroke="#3a3f4b" stroke-width="2"/>`,
+    renderUnderglow(car.underglow, shape.ride),
+    renderSpoiler(car.spoiler, paint),
+    renderExhaust(car.exhaust, shape.ride),
+    `<path d="${shape.body}" fill="${paint}" stroke="#111" stroke-width="2"/>`,
+    renderFinish(car.finish),
+    accent
+      ? `<rect x="40" y="${shape.ride - 12}" width="335" height="12" fill="${accent}" clip-path="url(#body-clip)"/>`
+      : "",
+    renderDecal(car.decal, accent ?? "#ffffff", car.customDecal),
+    `<path d="${shape.window}" fill="#9fd3ff" fill-opacity="0.75" stroke="#111" stroke-width="1.5"/>`,
+    ...WHEEL_X.map((x) => renderWheel(car.wheels, x, shape.ride + 2)),
+    `<text x="20" y="30" font-family="sans-serif" font-size="16" font-weight="bold" fill="#ffffff">${escapeXml(label)}</text>`,
+    `<text x="20" y="50" font-family="sans-serif" font-size="12" fill="#a0a4ad">${escapeXml(`${car.bodyKit} · ${car.wheels} wheels · ${driver.persona}`)}</text>`,
+    "</svg>",
+  ];
+
+  return parts.filter(Boolean).join("\n");
+}
+
+function renderDefs(bodyPath: string): string {
+  return [
+    "<defs>",
+    `<clipPath id="body-clip"><path d="${bodyPath}"/></clipPath>`,
+    '<filter id="glow" x="-20%" y="-200%" width="140%" height="500%"><feGaussianBlur stdDeviation="6"/></filter>',
+    '<linearGradient id="rainbow" x1="0" x2="1" y1="0" y2="0"><stop offset="0" stop-color="#ff2a2a"/><stop offset="0.25" stop-color="#ffd22a"/><stop offset="0.5" stop-color="#2aff6b"/><stop offset="0.75" stop-color="#2a7bff"/><stop offset="1" stop-color="#b84dff"/></linearGradient>',
+    '<linearGradient id="chrome" x1="0" x2="0" y1="0" y2="1"><stop offset="0" stop-color="#ffffff"/><stop offset="0.5" stop-color="#9aa0a6"/><stop offset="1" stop-color="#e8eaed"/></linearGradient>',
+    '<pattern id="checkered" width="12" height="12" patternUnits="userSpaceOnUse"><rect width="12" height="12" fill="#ffffff"/><rect width="6" height="6" fill="#111111"/><rect x="6" y="6" width="6" height="6" fill="#111111"/></pattern>',
+    '<pattern id="carbon" width="6" height="6" patternUnits="userSpaceOnUse"><rect width="6" height="6" fill="#2b2b2b"/><rect width="3" height="3" fill="#3d3d3d"/><rect x="3" y="3" width="3" height="3" fill="#3d3d3d"/></pattern>',
+    "</defs>",
+  ].join("\n");
+}
+
+/**
+ * Sheen drawn over the paint; gloss (and builds saved before finishes
+ * existed) draw nothing
+ */
+function renderFinish(finish: Finish | undefined): string {
+  let content: string;
+
+  switch (finish) {
+    case undefined:
+    case "gloss":
+      return "";
+    case "matte":
+      content =
+        '<rect x="40" y="55" width="335" height="100" fill="#000000" fill-opacity="0.18"/>';
+      break;
+    case "satin":
+      content =
+        '<rect x="40" y="55" width="335" height="100" fill="#ffffff" fill-opacity="0.08"/>';
+      break;
+    case "metallic":
+      content =
+        '<rect x="40" y="95" width="335" height="14" fill="#ffffff" fill-opacity="0.3"/>';
+      break;
+    case "pearl":
+      content =
+        '<rect x="40" y="55" width="335" height="100" fill="#fff0fa" fill-opacity="0.15"/><rect x="40" y="95" width="335" height="14" fill="#ffffff" fill-opacity="0.25"/>';
+      break;
+    case "chrome":
+      content =
+        '<rect x="40" y="55" width="335" height="100" fill="url(#chrome)" fill-opacity="0.55"/>';
+      break;
+  }
+
+  return `<g clip-path="url(#body-clip)">${content}</g>`;
+}
+
+function renderUnderglow(underglow: Underglow, ride: number): string {
+  if (underglow === "none") {
+    return "";
+  }
+
+  const fill =
+    underglow === "rainbow" ? "url(#rainbow)" : UNDERGLOW_HEX[underglow];
+
+  return `<ellipse cx="210" cy="${ride + 24}" rx="150" ry="9" fill="${fill}" fill-opacity="0.85" filter="url(#glow)"/>`;
+}
+
+function renderDecal(
+  decal: Decal,
+  accent: string,
+  customDecal: CustomDecal | undefined,
+): string {
+  let content: string;
+
+  switch (decal) {
+    case "none":
+      return "";
+    case "racing_stripes":
+      content = `<rect x="40" y="104" width="335" height="7" fill="${accent}"/><rect x="40" y="115" width="335" height="4" fill="${accent}"/>`;
+      break;
+    case "flames":
+      content =
+        '<path d="M372 140 Q330 104 300 124 Q284 100 258 122 Q240 104 218 126 Q204 114 186 132 Q200 140 372 146 Z" fill="#f77f00"/><path d="M372 142 Q336 118 310 132 Q292 118 270 134 Q250 124 232 138 Q260 144 372 146 Z" fill="#f6d31c"/>';
+      break;
+    case "tribal":
+      content =
+        '<path d="M110 126 Q150 100 190 120 Q220 104 250 124 Q280 108 320 126 Q280 116 250 132 Q220 114 190 130 Q150 112 110 126 Z" fill="#111111"/>';
+      break;
+    case "camo":
+      content = [
+        '<ellipse cx="100" cy="128" rx="22" ry="10" fill="#4b5320"/>',
+        '<ellipse cx="170" cy="118" rx="28" ry="12" fill="#3b3b1f"/>',
+        '<ellipse cx="240" cy="132" rx="24" ry="9" fill="#6b6b3a"/>',
+        '<ellipse cx="310" cy="120" rx="26" ry="11" fill="#4b5320"/>',
+        '<ellipse cx="205" cy="90" rx="20" ry="8" fill="#6b6b3a"/>',
+      ].join("");
+      break;
+    case "carbon_fiber":
+      content =
+        '<rect x="40" y="55" width="335" height="100" fill="url(#carbon)" fill-opacity="0.55"/>';
+      break;
+    case "checkered":
+      content =
+        '<rect x="40" y="55" width="90" height="100" fill="url(#checkered)"/>';
+      break;
+    case "sponsor":
+      content =
+        '<rect x="175" y="112" width="90" height="20" rx="3" fill="#ffffff"/><text x="220" y="127" font-family="sans-serif" font-size="12" font-weight="bold" text-anchor="middle" fill="#111111">POMERIUM</text>';
+      break;
+    case "custom":
+      if (customDecal) {
+        content = renderCustomDecal(customDecal);
+        break;
+      }
+      content = `<polygon points="220,104 226,118 241,118 229,127 233,141 220,133 207,141 211,127 199,118 214,118" fill="${accent}"/>`;
+      break;
+  }
+
+  return `<g clip-path="url(#body-clip)">${content}</g>`;
+}
+
+/**
+ * Draw a custom decal's layers bottom to top, then its sponsor badge
+ */
+function renderCustomDecal(decal: CustomDecal): string {
+  const layers = decal.layers.map(renderDecalLayer);
+
+  if (decal.sponsor) {
+    const width = Math.max(60, decal.sponsor.length * 8 + 16);
+    layers.push(
+      `<rect x="${220 - width / 2}" y="135" width="${width}" height="16" rx="3" fill="#ffffff"/><text x="220" y="147" font-family="sans-serif" font-size="11" font-weight="bold" text-anchor="middle" fill="#111111">${escapeXml(decal.sponsor.toUpperCase())}</text>`,
+    );
+  }
+
+  return layers.join("");
+}
+
+function renderDecalLayer(layer: DecalLayer): string {
+  const cx = round(DECAL_AREA.x + (layer.x / 100) * DECAL_AREA.width);
+  const cy = round(DECAL_AREA.y + (layer.y / 100) * DECAL_AREA.height);
+  const fill = paintHex(layer.color);
+  const transform = layer.rotation
+    ? ` transform="rotate(${layer.rotation} ${cx} ${cy})"`
+    : "";
+
+  if (layer.type === "text") {
+    return `<text x="${cx}" y="${cy}" font-family="sans-serif" font-size="${layer.size}" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${fill}"${transform}>${escapeXml(layer.text)}</text>`;
+  }
+
+  const width = round((layer.width / 100) * DECAL_AREA.width);
+  const height = round((layer.height / 100) * DECAL_AREA.height);
+
+  switch (layer.shape) {
+    case "rect":
+      return `<rect x="${round(cx - width / 2)}" y="${round(cy - height / 2)}" width="${width}" height="${height}" fill="${fill}"${transform}/>`;
+    case "circle":
+      return `<ellipse cx="${cx}" cy="${cy}" rx="${round(width / 2)}" ry="${round(height / 2)}" fill="${fill}"${transform}/>`;
+    case "stripe":
+      return `<rect x="${DECAL_AREA.x}" y="${round(cy - height / 2)}" width="${DECAL_AREA.width}" height="${height}" fill="${fill}"${transform}/>`;
+    case "triangle":
+      return `<polygon points="${cx},${round(cy - height / 2)} ${round(cx + width / 2)},${round(cy + height / 2)} ${round(cx - width / 2)},${round(cy + height / 2)}" fill="${fill}"${transform}/>`;
+    case "star": {
+      const points = Array.from({ length: 10 }, (_, i) => {
+        const angle = (Math.PI / 5) * i - Math.PI / 2;
+        const scale = i % 2 === 0 ? 0.5 : 0.2;
+        return `${round(cx + Math.cos(angle) * width * scale)},${round(cy + Math.sin(angle) * height * scale)}`;
+      });
+      return `<polygon points="${points.join(" ")}" fill="${fill}"${transform}/>`;
+    }
+  }
+}
+
+function renderSpoiler(spoiler: Spoiler, paint: string): string {
+  switch (spoiler) {
+    case "none":
+      return "";
+    case "stock":
+      return `<path d="M55 112 L88 109 L88 114 L55 117 Z" fill="${paint}" stroke="#111" stroke-width="1.5"/>`;
+    case "sport":
+      return `<rect x="66" y="102" width="4" height="12" fill="#222"/><rect x="48" y="98" width="44" height="6" fill="${paint}" stroke="#111" stroke-width="1.5"/>`;
+    case "racing":
+      return `<rect x="58" y="90" width="4" height="24" fill="#222"/><rect x="80" y="90" width="4" height="24" fill="#222"/><rect x="42" y="84" width="54" height="7" fill="#222" stroke="#111" stroke-width="1.5"/>`;
+    case "gt_wing":
+      return `<rect x="56" y="78" width="5" height="36" fill="#222"/><rect x="82" y="78" width="5" height="36" fill="#222"/><rect x="34" y="70" width="68" height="9" fill="#222" stroke="#111" stroke-width="1.5"/><rect x="34" y="64" width="4" height="20" fill="#222"/><rect x="98" y="64" width="4" height="20" fill="#222"/>`;
+    case "ducktail":
+      return `<path d="M52 108 Q68 94 96 100 L96 108 L52 112 Z" fill="${paint}" stroke="#111" stroke-width="1.5"/>`;
+  }
+}
+
+function renderExhaust(exhaust: Exhaust, ride: number): string {
+  const tip = (x: number, y: number, r: number, fill = "#8a8f98") =>
+    `<ellipse cx="${x}" cy="${y}" rx="${Math.round(r * 0.6)}" ry="${r}" fill="${fill}" stroke="#333" stroke-width="1.5"/>`;
+  const y = ride - 6;
+
+  switch (exhaust) {
+    case "stock":
+      return tip(50, y, 3);
+    case "sport":
+      return tip(48, y, 5);
+    case "racing":
+      return tip(46, y, 6, "#4a6fa5");
+    case "dual":
+      return [tip(48, y - 6, 4), tip(48, y + 4, 4)].join("");
+    case "quad":
+      return [
+        tip(46, y - 8, 3),
+        tip(50, y - 8, 3),
+        tip(46, y + 2, 3),
+        tip(50, y + 2, 3),
+      ].join("");
+    case "side_exit":
+      return `<rect x="196" y="${ride - 2}" width="26" height="6" rx="3" fill="#8a8f98" stroke="#333" stroke-width="1.5"/>`;
+  }
+}
+
+function renderWheel(type: WheelType, cx: number, cy: number): string {
+  const r = WHEEL_RADIUS;
+  const rim = Math.round(r * 0.62);
+  const elements: string[] = [];
+
+  // Tire
+  elements.push(
+    type === "offroad"
+      ? `<circle cx="${cx}" cy="${cy}" r="${r + 2}" fill="#151515" stroke="#2e2e2e" stroke-width="4" stroke-dasharray="5 3"/>`
+      : `<circle cx="${cx}" cy="${cy}" r="${r}" fill="#151515"/>`,
+  );
+
+  // Rim
+  const rimFill: Record<WheelType, string> = {
+    stock: "#8d9298",
+    sport: "#c0c4c9",
+    racing: "#e1e3e6",
+    offroad: "#555b61",
+    chrome: "url(#chrome)",
+    neon: "#111111",
+    spinner: "#d4a017",
+  };
+  elements.push(
+    type === "neon"
+      ? `<circle cx="${cx}" cy="${cy}" r="${rim}" fill="${rimFill[type]}" stroke="#39ff14" stroke-width="3"/>`
+      : `<circle cx="${cx}" cy="${cy}" r="${rim}" fill="${rimFill[type]}"/>`,
+  );
+
+  // Spokes
+  const spokeCount: Record<WheelType, number> = {
+    stock: 4,
+    sport: 5,
+    racing: 10,
+    offroad: 6,
+    chrome: 8,
+    neon: 5,
+    spinner: 3,
+  };
+  const spokeColor = type === "neon" ? "#39ff14" : "#2f3236";
+
+  for (let i = 0; i < spokeCount[type]; i++) {
+    const angle = (i / spokeCount[type]) * Math.PI * 2;
+    const x = round(cx + Math.cos(angle) * (rim - 2));
+    const y = round(cy + Math.sin(angle) * (rim - 2));
+
+    if (type === "spinner") {
+      // Curved blades
+      const cxCtrl = round(cx + Math.cos(angle + 0.8) * rim * 0.7);
+      const cyCtrl = round(cy + Math.sin(angle + 0.8) * rim * 0.7);
+      elements.push(
+        `<path d="M${cx} ${cy} Q${cxCtrl} ${cyCtrl} ${x} ${y}" fill="none" stroke="#8a6d0b" stroke-width="3"/>`,
+      );
+    } else {
+      elements.push(
+        `<line x1="${cx}" y1="${cy}" x2="${x}" y2="${y}" stroke="${spokeColor}" stroke-width="${type === "racing" ? 1.5 : 3}"/>`,
+      );
+    }
+  }
+
+  // Hub cap
+  elements.push(`<circle cx="${cx}" cy="${cy}" r="4" fill="#2f3236"/>`);
+
+  return `<g>${elements.join("")}</g>`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_AI_OPPONENTS,
+  createAiOpponents,
+  raceRewardScale,
+  simulateRace,
+  type RaceEntrant,
+} from "./race.ts";
+import { createDefaultCarConfig } from "./models.ts";
+
+describe("simulateRace", () => {
+  const player: RaceEntrant = {
+    id: "active",
+    name: "Player",
+    car: createDefaultCarConfig(),
+    driver: { persona: "CoolCalmCollected" },
+  };
+
+  const grid = [player, ...createAiOpponents(5, 42)];
+
+  it("should produce identical results for the same seed", () => {
+    const first = simulateRace(grid, {
+      trackId: "harbor_circuit",
+      laps: 5,
+      seed: 42,
+    });
+    const second = simulateRace(grid, {
+      trackId: "harbor_circuit",
+      laps: 5,
+      seed: 42,
+    });
+
+    expect(second).toEqual(first);
+  });
+
+  it("should produce different results for different seeds", () => {
+    const first = simulateRace(grid, {
+      trackId: "harbor_circuit",
+      laps: 5,
+      seed: 1,
+    });
+    const second = simulateRace(grid, {
+      trackId: "harbor_circuit",
+      laps: 5,
+      seed: 2,
+    });
+
+    expect(second.standings).not.toEqual(first.standings);
+  });
+
+  it("should rank every entrant with one lap time per lap", () => {
+    const result = simulateRace(grid, {
+      trackId: "mountain_pass",
+      laps: 3,
+      seed: 7,
+    });
+
+    expect(result.standings.map((s) => s.position)).toEqual([1, 2, 3, 4, 5, 6]);
+    for (const standing of result.standings) {
+      expect(standing.lapTimes).toHaveLength(3);
+    }
+
+    const totals = result.standings.map((s) => s.totalTime);
+    expect(totals).toEqual([...totals].sort((a, b) => a - b));
+  });
+
+  it("should never crash a Cautious driver", () => {
+    const cautious = Array.from({ length: 4 }, (_, index) => ({
+      ...player,
+      id: `cautious_${index}`,
+      driver: { persona: "Cautious" as const },
+    }));
+
+    const result = simulateRace(cautious, {
+      trackId: "desert_rally",
+      laps: 20,
+      seed: 99,
+    });
+
+    expect(result.events.some((e) => e.type === "crash")).toBe(false);
+  });
+
+  it("should reject an empty grid", () => {
+    expect(() =>
+      simulateRace([], { trackId: "harbor_circuit", laps: 3, seed: 1 }),
+    ).toThrow("at least one entrant");
+  });
+
+  it("should reject entrants that share an ID", () => {
+    expect(() =>
+      simulateRace([player, player], {
+        trackId: "harbor_circuit",
+        laps: 3,
+        seed: 1,
+      }),
+    ).toThrow("unique ID");
+  });
+});
+
+describe("createAiOpponents", () => {
+  it("should generate the same opponents for the same seed", () => {
+    expect(createAiOpponents(3, 123)).toEqual(createAiOpponents(3, 123));
+  });
+});
+
+describe("raceRewardScale", () => {
+  const player: RaceEntrant = {
+    id: "active",
+    name: "Player",
+    car: createDefaultCarConfig(),
+    driver: { persona: "Cautious" },
+  };
+  const scale = (grid: RaceEntrant[]) =>
+    raceRewardScale(
+      simulateRace(grid, { trackId: "harbor_circuit", laps: 3, seed: 7 }),
+    );
+
+  it("should scale with the AI field", () => {
+    expect(scale([player, ...createAiOpponents(MAX_AI_OPPONENTS, 7)])).toBe(1);
+    expect(scale([player, ...createAiOpponents(1, 7)])).toBeCloseTo(
+      1 / MAX_AI_OPPONENTS,
+    );
+  });
+
+  it("should pay nothing for races without AI opponents", () => {
+    expect(scale([player])).toBe(0);
+    expect(scale([player, { ...player, id: "saved" }])).toBe(0);
+  });
+});
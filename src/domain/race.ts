@@ -0,0 +1,319 @@
+/**
+ * Race simulation engine
+ * Deterministic: the same entrants, track, lap count and seed always produce the same result
+ */
+
+import { createRandom, type Random } from "../lib/random.ts";
+import {
+  type CarConfig,
+  type DriverPersona,
+  type DriverProfile,
+  BodyKitSchema,
+  DriverPersonaSchema,
+  SpoilerSchema,
+  WheelTypeSchema,
+  PERSONA_MODIFIERS,
+  createDefaultCarConfig,
+} from "./models.ts";
+import {
+  type Track,
+  type TrackId,
+  calculateTrackScore,
+  getTrack,
+} from "./tracks.ts";
+
+/**
+ * A car and driver taking part in a race
+ */
+export interface RaceEntrant {
+  /** Unique on the grid: "ai:<n>" for AI opponents, "build:<buildId>" for builds */
+  id: string;
+  name: string;
+  car: CarConfig;
+  driver: DriverProfile;
+  /** True for computer-controlled opponents */
+  ai?: boolean;
+}
+
+/**
+ * Race settings
+ */
+export interface RaceOptions {
+  trackId: TrackId;
+  laps: number;
+  seed: number;
+}
+
+/**
+ * Notable moment during a race
+ */
+export interface RaceEvent {
+  lap: number;
+  type: "overtake" | "crash" | "boost";
+  entrantId: string;
+  /** Entrant that was passed (overtakes only) */
+  targetId?: string;
+  description: string;
+}
+
+/**
+ * Final standing for a single entrant
+ */
+export interface RaceStanding {
+  position: number;
+  id: string;
+  name: string;
+  persona: DriverPersona;
+  ai: boolean;
+  totalTime: number;
+  bestLap: number;
+  lapTimes: number[];
+  overtakes: number;
+  crashes: number;
+  points: number;
+}
+
+/**
+ * Complete race result
+ */
+export interface RaceResult {
+  trackId: TrackId;
+  laps: number;
+  seed: number;
+  standings: RaceStanding[];
+  events: RaceEvent[];
+}
+
+/** Points awarded by finishing position */
+const POINTS_BY_POSITION = [10, 8, 6, 5, 4, 3, 2, 1];
+
+/** Most AI opponents a race can have */
+export const MAX_AI_OPPONENTS = 7;
+
+/** Fraction of the base lap time lost in a crash */
+const CRASH_PENALTY = 0.25;
+
+/** Fraction of the lap time saved by a boost */
+const BOOST_GAIN = 0.06;
+
+/** Lap time lost per completed lap at full tire wear */
+const TIRE_WEAR_RATE = 0.004;
+
+const AI_DRIVER_NAMES = [
+  "Turbo Tanaka",
+  "Fluffy Fangio",
+  "Nitro Nakamura",
+  "Biscuit Brabham",
+  "Drift King Dax",
+  "Pixel Prost",
+  "Zoomie Zhang",
+  "Rusty Rossi",
+];
+
+/**
+ * Simulate a race between entrants
+ * @param entrants - Cars on the grid, in starting order
+ * @param options - Track, lap count and seed
+ * @returns Standings sorted by finishing position plus a lap-by-lap event log
+ */
+export function simulateRace(
+  entrants: RaceEntrant[],
+  options: RaceOptions,
+): RaceResult {
+  const { trackId, laps, seed } = options;
+
+  if (entrants.length === 0) {
+    throw new Error("A race needs at least one entrant");
+  }
+
+  const ids = new Set(entrants.map((entrant) => entrant.id));
+  if (ids.size !== entrants.length) {
+    throw new Error("Each race entrant needs a unique ID");
+  }
+
+  if (!Number.isInteger(laps) || laps < 1) {
+    throw new Error("Lap count must be a positive integer");
+  }
+
+  const track = getTrack(trackId);
+  const random = createRandom(seed);
+  const events: RaceEvent[] = [];
+
+  const states = entrants.map((entrant) => ({
+    entrant,
+    pace: calculatePace(entrant, track),
+    modifiers: PERSONA_MODIFIERS[entrant.driver.persona],
+    totalTime: 0,
+    lapTimes: [] as number[],
+    overtakes: 0,
+    crashes: 0,
+  }));
+
+  // Grid order is the starting order
+  let order = states.map((state) => state.entrant.id);
+
+  for (let lap = 1; lap <= laps; lap++) {
+    for (const state of states) {
+      const { entrant, modifiers } = state;
+
+      // Faster pace shortens the lap; 0.5 pace equals the track's base time
+      let lapTime = track.baseLapTime * (1.25 - state.pace * 0.5);
+
+      // Worn tires cost more time every lap
+      lapTime *= 1 + TIRE_WEAR_RATE * modifiers.tireWear * (lap - 1);
+
+      // Inconsistent drivers vary more from lap to lap
+      const variance = 0.04 * (1 - modifiers.consistency);
+      lapTime *= 1 + random.range(-variance, variance);
+
+      if (random.chance(modifiers.boostChance)) {
+        lapTime *= 1 - BOOST_GAIN;
+        events.push({
+          lap,
+          type: "boost",
+          entrantId: entrant.id,
+          description: `${entrant.name} found a burst of speed`,
+        });
+      }
+
+      if (random.chance(modifiers.risk)) {
+        lapTime += track.baseLapTime * CRASH_PENALTY;
+        state.crashes++;
+        events.push({
+          lap,
+          type: "crash",
+          entrantId: entrant.id,
+          description: `${entrant.name} crashed and lost time`,
+        });
+      }
+
+      lapTime = roundTime(lapTime);
+      state.lapTimes.push(lapTime);
+      state.totalTime = roundTime(state.totalTime + lapTime);
+    }
+
+    // Re-rank by cumulative time and record who passed whom
+    const nextOrder = rankStates(states).map((state) => state.entrant.id);
+
+    for (const [newIndex, id] of nextOrder.entries()) {
+      const previousIndex = order.indexOf(id);
+      const passed = order
+        .slice(0, previousIndex)
+        .filter((otherId) => nextOrder.indexOf(otherId) > newIndex);
+
+      for (const targetId of passed) {
+        const state = states.find((s) => s.entrant.id === id)!;
+        const target = states.find((s) => s.entrant.id === targetId)!;
+        state.overtakes++;
+        events.push({
+          lap,
+          type: "overtake",
+          entrantId: id,
+          targetId,
+          description: `${state.entrant.name} overtook ${target.entrant.name}`,
+        });
+      }
+    }
+
+    order = nextOrder;
+  }
+
+  const standings: RaceStanding[] = rankStates(states).map((state, index) => ({
+    position: index + 1,
+    id: state.entrant.id,
+    name: state.entrant.name,
+    persona: state.entrant.driver.persona,
+    ai: state.entrant.ai ?? false,
+    totalTime: state.totalTime,
+    bestLap: Math.min(...state.lapTimes),
+    lapTimes: state.lapTimes,
+    overtakes: state.overtakes,
+    crashes: state.crashes,
+    points: POINTS_BY_POSITION[index] ?? 0,
+  }));
+
+  return { trackId, laps, seed, standings, events };
+}
+
+/**
+ * Share of the full credits and XP a race pays, by the size of its AI field
+ * A full field pays everything; races without AI opponents pay nothing
+ */
+export function raceRewardScale(result: RaceResult): number {
+  const aiOpponents = result.standings.filter((s) => s.ai).length;
+  return Math.min(aiOpponents, MAX_AI_OPPONENTS) / MAX_AI_OPPONENTS;
+}
+
+/**
+ * Generate computer-controlled opponents
+ * @param count - Number of opponents
+ * @param seed - Seed so the same opponents appear for the same race
+ */
+export function createAiOpponents(count: number, seed: number): RaceEntrant[] {
+  // Offset the seed so opponents don't mirror the race's own random sequence
+  const random = createRandom(seed ^ 0x5f3759df);
+
+  return Array.from({ length: count }, (_, index) =>
+    createAiOpponent(random, index),
+  );
+}
+
+/**
+ * Race entrant ID for a build, kept apart from AI opponent IDs
+ */
+export function buildEntrantId(buildId: string): string {
+  return `build:${buildId}`;
+}
+
+function createAiOpponent(random: Random, index: number): RaceEntrant {
+  const car = createDefaultCarConfig();
+  car.bodyKit = random.pick(BodyKitSchema.options);
+  car.wheels = random.pick(WheelTypeSchema.options);
+  car.spoiler = random.pick(SpoilerSchema.options);
+  car.performance = {
+    power: random.int(35, 85),
+    grip: random.int(35, 85),
+    aero: random.int(35, 85),
+    weight: random.int(35, 85),
+  };
+
+  return {
+    id: `ai:${index + 1}`,
+    name: AI_DRIVER_NAMES[index % AI_DRIVER_NAMES.length],
+    car,
+    driver: { persona: random.pick(DriverPersonaSchema.options) },
+    ai: true,
+  };
+}
+
+/**
+ * Pace rating (0-1) blending straight-line and cornering ability for a track
+ */
+function calculatePace(entrant: RaceEntrant, track: Track): number {
+  const { car, driver } = entrant;
+  const { power, grip, aero, weight } = car.performance;
+  const modifiers = PERSONA_MODIFIERS[driver.persona];
+
+  const straightPace =
+    (power * 0.6 + aero * 0.2 + weight * 0.2) / 100 + modifiers.topSpeedBias;
+  const cornerPace =
+    (grip * 0.5 + aero * 0.2 + weight * 0.3) / 100 + modifiers.corneringBias;
+
+  // Part bonuses count through the car's score on this track
+  const partBonus = (calculateTrackScore(car, track.id).score - 50) / 500;
+
+  const { straightRatio } = track;
+  const pace =
+    straightPace * straightRatio + cornerPace * (1 - straightRatio) + partBonus;
+
+  return Math.max(0, Math.min(1, pace));
+}
+
+function rankStates<T extends { totalTime: number }>(states: T[]): T[] {
+  // Array.prototype.sort is stable, so ties keep grid order
+  return [...states].sort((a, b) => a.totalTime - b.totalTime);
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUILD_THEMES,
+  BuildThemeSchema,
+  LockableFieldSchema,
+  generateRandomBuild,
+} from "./randomize.ts";
+import { CarConfigSchema, createBuild } from "./models.ts";
+
+describe("generateRandomBuild", () => {
+  const base = createBuild("active");
+
+  it("should produce the same build for the same seed", () => {
+    const first = generateRandomBuild({ seed: 42, theme: "drift_king" });
+
+    expect(generateRandomBuild({ seed: 42, theme: "drift_king" })).toEqual(
+      first,
+    );
+    expect(generateRandomBuild({ seed: 43, theme: "drift_king" })).not.toEqual(
+      first,
+    );
+  });
+
+  it("should draw only from the theme's pools", () => {
+    for (const theme of BuildThemeSchema.options) {
+      const pools = BUILD_THEMES[theme];
+
+      for (let seed = 1; seed <= 20; seed++) {
+        const { car, driver } = generateRandomBuild({ seed, theme });
+
+        expect(CarConfigSchema.safeParse(car).success).toBe(true);
+        expect(pools.colors).toContain(car.color);
+        expect(pools.wheels).toContain(car.wheels);
+        expect(pools.spoilers).toContain(car.spoiler);
+        expect(pools.nitrous).toContain(car.nitrous);
+        expect(pools.personas).toContain(driver.persona);
+        expect(car.secondaryColor).not.toBe(car.color);
+
+        const [min, max] = pools.performance.power;
+        expect(car.performance.power).toBeGreaterThanOrEqual(min);
+        expect(car.performance.power).toBeLessThanOrEqual(max);
+      }
+    }
+  });
+
+  it("should keep locked fields without changing the other draws", () => {
+    const free = generateRandomBuild({ seed: 7, base });
+    const locked = generateRandomBuild({
+      seed: 7,
+      base,
+      locked: ["wheels", "persona", "performance"],
+    });
+
+    expect(locked.car.wheels).toBe(base.car.wheels);
+    expect(locked.car.performance).toEqual(base.car.performance);
+    expect(locked.driver.persona).toBe(base.driver.persona);
+    expect(locked.car.spoiler).toBe(free.car.spoiler);
+    expect(locked.car.exhaust).toBe(free.car.exhaust);
+    expect(locked.driver.nickname).toBe(free.driver.nickname);
+  });
+
+  it("should return the base build when every field is locked", () => {
+    const { car, driver } = generateRandomBuild({
+      seed: 7,
+      base,
+      locked: LockableFieldSchema.options,
+    });
+
+    expect(car).toEqual(base.car);
+    expect(driver).toEqual(base.driver);
+  });
+
+  it("should require a base build to lock fields", () => {
+    expect(() => generateRandomBuild({ seed: 7, locked: ["color"] })).toThrow(
+      "A base build is required to lock fields",
+    );
+  });
+});
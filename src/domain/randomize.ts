@@ -0,0 +1,381 @@
+/**
+ * Random build generation
+ * Produces themed, reproducible car and driver combinations from a seed
+ */
+
+import { z } from "zod";
+import { createRandom, type Random } from "../lib/random.ts";
+import {
+  type BodyKit,
+  type CarConfig,
+  type Color,
+  type Decal,
+  type DriverPersona,
+  type DriverProfile,
+  type Exhaust,
+  type Finish,
+  type Nitrous,
+  type Performance,
+  type Spoiler,
+  type Suspension,
+  type TireCompound,
+  type Transmission,
+  type Underglow,
+  type WheelType,
+  BodyKitSchema,
+  CarConfigSchema,
+  ColorSchema,
+  DecalSchema,
+  DriverPersonaSchema,
+  DriverProfileSchema,
+  ExhaustSchema,
+  FinishSchema,
+  NitrousSchema,
+  SpoilerSchema,
+  SuspensionSchema,
+  TireCompoundSchema,
+  TransmissionSchema,
+  UnderglowSchema,
+  WheelTypeSchema,
+} from "./models.ts";
+
+/**
+ * Style themes for random builds
+ */
+export const BuildThemeSchema = z.enum([
+  "street_racer",
+  "luxury_cruiser",
+  "rally_beast",
+  "drift_king",
+  "muscle_classic",
+  "neon_night",
+]);
+
+export type BuildTheme = z.infer<typeof BuildThemeSchema>;
+
+/**
+ * Fields that can be locked so randomization leaves them unchanged
+ */
+export const LockableFieldSchema = z.enum([
+  "color",
+  "secondaryColor",
+  "wheels",
+  "bodyKit",
+  "decal",
+  "spoiler",
+  "exhaust",
+  "underglow",
+  "performance",
+  "persona",
+  "nickname",
+  "finish",
+  "tires",
+  "suspension",
+  "transmission",
+  "nitrous",
+]);
+
+export type LockableField = z.infer<typeof LockableFieldSchema>;
+
+type StatRange = [min: number, max: number];
+
+/**
+ * Option pools and stat ranges that define a theme
+ */
+interface ThemeDefinition {
+  description: string;
+  colors: Color[];
+  wheels: WheelType[];
+  bodyKits: BodyKit[];
+  decals: Decal[];
+  spoilers: Spoiler[];
+  exhausts: Exhaust[];
+  underglows: Underglow[];
+  finishes: Finish[];
+  tires: TireCompound[];
+  suspensions: Suspension[];
+  transmissions: Transmission[];
+  nitrous: Nitrous[];
+  personas: DriverPersona[];
+  performance: Record<keyof Performance, StatRange>;
+}
+
+export const BUILD_THEMES: Record<BuildTheme, ThemeDefinition> = {
+  street_racer: {
+    description: "Tuned for the city at night: light, quick and loud",
+    colors: ["black", "blue", "white", "silver", "red"],
+    wheels: ["sport", "racing", "neon"],
+    bodyKits: ["sport", "racing"],
+    decals: ["racing_stripes", "carbon_fiber", "tribal"],
+    spoilers: ["sport", "racing", "gt_wing"],
+    exhausts: ["sport", "racing", "dual"],
+    underglows: ["blue", "purple", "white", "none"],
+    finishes: ["gloss", "metallic", "matte"],
+    tires: ["sport", "soft"],
+    suspensions: ["lowered", "coilover"],
+    transmissions: ["close_ratio", "sequential"],
+    nitrous: ["single_shot", "dual_shot"],
+    personas: ["SpeedDemon", "RoadRage", "ShowOff"],
+    performance: {
+      power: [65, 90],
+      grip: [50, 75],
+      aero: [55, 80],
+      weight: [60, 85],
+    },
+  },
+  luxury_cruiser: {
+    description: "Comfort and class over lap times",
+    colors: ["black", "white", "silver", "gold"],
+    wheels: ["chrome", "spinner", "stock"],
+    bodyKits: ["luxury"],
+    decals: ["none", "sponsor"],
+    spoilers: ["none", "ducktail"],
+    exhausts: ["stock", "dual", "quad"],
+    underglows: ["none", "white"],
+    finishes: ["pearl", "metallic", "gloss"],
+    tires: ["street", "sport"],
+    suspensions: ["stock", "air_ride"],
+    transmissions: ["stock", "dual_clutch"],
+    nitrous: ["none"],
+    personas: ["CoolCalmCollected", "Cautious"],
+    performance: {
+      power: [50, 75],
+      grip: [45, 65],
+      aero: [40, 60],
+      weight: [20, 45],
+    },
+  },
+  rally_beast: {
+    description: "Built to survive gravel, mud and jumps",
+    colors: ["green", "orange", "yellow", "white", "blue"],
+    wheels: ["offroad", "sport"],
+    bodyKits: ["rally"],
+    decals: ["sponsor", "camo", "racing_stripes"],
+    spoilers: ["stock", "sport", "racing"],
+    exhausts: ["sport", "side_exit"],
+    underglows: ["none"],
+    finishes: ["matte", "satin"],
+    tires: ["all_terrain", "wet"],
+    suspensions: ["rally"],
+    transmissions: ["sequential", "close_ratio"],
+    nitrous: ["none", "single_shot"],
+    personas: ["Tactical", "Wildcard", "CoolCalmCollected"],
+    performance: {
+      power: [55, 80],
+      grip: [70, 95],
+      aero: [40, 65],
+      weight: [50, 75],
+    },
+  },
+  drift_king: {
+    description: "Sideways everywhere, smoke for days",
+    colors: ["pink", "purple", "cyan", "white", "lime"],
+    wheels: ["sport", "racing", "neon"],
+    bodyKits: ["drift"],
+    decals: ["tribal", "flames", "checkered"],
+    spoilers: ["gt_wing", "racing", "ducktail"],
+    exhausts: ["racing", "side_exit", "quad"],
+    underglows: ["purple", "rainbow", "blue"],
+    finishes: ["gloss", "pearl", "chrome"],
+    tires: ["hard", "sport"],
+    suspensions: ["coilover", "lowered"],
+    transmissions: ["sequential"],
+    nitrous: ["progressive", "single_shot"],
+    personas: ["ShowOff", "Wildcard"],
+    performance: {
+      power: [60, 85],
+      grip: [35, 60],
+      aero: [45, 70],
+      weight: [55, 80],
+    },
+  },
+  muscle_classic: {
+    description: "Big engine, straight lines, no apologies",
+    colors: ["red", "black", "orange", "yellow", "blue"],
+    wheels: ["chrome", "stock", "sport"],
+    bodyKits: ["muscle"],
+    decals: ["racing_stripes", "flames", "none"],
+    spoilers: ["none", "ducktail", "stock"],
+    exhausts: ["dual", "quad", "side_exit"],
+    underglows: ["none", "red"],
+    finishes: ["gloss", "metallic"],
+    tires: ["street", "soft"],
+    suspensions: ["stock", "sport"],
+    transmissions: ["stock", "close_ratio"],
+    nitrous: ["dual_shot", "single_shot"],
+    personas: ["RoadRage", "SpeedDemon", "CoolCalmCollected"],
+    performance: {
+      power: [80, 100],
+      grip: [35, 60],
+      aero: [30, 55],
+      weight: [25, 50],
+    },
+  },
+  neon_night: {
+    description: "Maximum glow, maximum attention",
+    colors: ["magenta", "cyan", "lime", "purple", "pink"],
+    wheels: ["neon", "spinner", "chrome"],
+    bodyKits: ["sport", "drift", "racing"],
+    decals: ["checkered", "tribal", "custom"],
+    spoilers: ["gt_wing", "sport", "racing"],
+    exhausts: ["quad", "dual", "racing"],
+    underglows: ["rainbow", "purple", "blue", "green"],
+    finishes: ["chrome", "pearl", "gloss"],
+    tires: ["sport", "soft"],
+    suspensions: ["lowered", "air_ride"],
+    transmissions: ["dual_clutch", "close_ratio"],
+    nitrous: ["progressive", "dual_shot"],
+    personas: ["ShowOff", "Wildcard"],
+    performance: {
+      power: [45, 75],
+      grip: [45, 75],
+      aero: [45, 75],
+      weight: [45, 75],
+    },
+  },
+};
+
+/** Stat range used when no theme is given */
+const FULL_RANGE: StatRange = [20, 100];
+
+const NICKNAME_PREFIXES = [
+  "Turbo",
+  "Nitro",
+  "Fluffy",
+  "Drift",
+  "Thunder",
+  "Pixel",
+  "Rocket",
+  "Zoomie",
+];
+
+const NICKNAME_SUFFIXES = [
+  "Paws",
+  "Blaze",
+  "Bandit",
+  "Comet",
+  "Fang",
+  "Tail",
+  "Storm",
+  "Biscuit",
+];
+
+/**
+ * Options for random build generation
+ */
+export interface RandomBuildOptions {
+  seed: number;
+  theme?: BuildTheme;
+  /** Current car and driver, required when locking fields */
+  base?: { car: CarConfig; driver: DriverProfile };
+  /** Fields copied unchanged from the base build */
+  locked?: LockableField[];
+}
+
+/**
+ * Generate a random car and driver
+ * Every field is always drawn in the same order, so locking a field never
+ * changes what the seed produces for the other fields
+ */
+export function generateRandomBuild(options: RandomBuildOptions): {
+  car: CarConfig;
+  driver: DriverProfile;
+} {
+  const { seed, theme, base, locked = [] } = options;
+
+  if (locked.length > 0 && !base) {
+    throw new Error("A base build is required to lock fields");
+  }
+
+  const random = createRandom(seed);
+  const pools = theme ? BUILD_THEMES[theme] : undefined;
+
+  const color = random.pick(pools?.colors ?? ColorSchema.options);
+  const secondaryPool = (pools?.colors ?? ColorSchema.options).filter(
+    (c) => c !== color,
+  );
+  // Roughly a third of builds stay single-color
+  const secondaryColor = random.chance(0.35)
+    ? undefined
+    : random.pick(secondaryPool);
+
+  const drawn = {
+    car: CarConfigSchema.parse({
+      color,
+      secondaryColor,
+      wheels: random.pick(pools?.wheels ?? WheelTypeSchema.options),
+      bodyKit: random.pick(pools?.bodyKits ?? BodyKitSchema.options),
+      decal: random.pick(pools?.decals ?? DecalSchema.options),
+      spoiler: random.pick(pools?.spoilers ?? SpoilerSchema.options),
+      exhaust: random.pick(pools?.exhausts ?? ExhaustSchema.options),
+      underglow: random.pick(pools?.underglows ?? UnderglowSchema.options),
+      performance: {
+        power: drawStat(random, pools?.performance.power),
+        grip: drawStat(random, pools?.performance.grip),
+        aero: drawStat(random, pools?.performance.aero),
+        weight: drawStat(random, pools?.performance.weight),
+      },
+    }),
+    driver: DriverProfileSchema.parse({
+      persona: random.pick(pools?.personas ?? DriverPersonaSchema.options),
+      nickname: `${random.pick(NICKNAME_PREFIXES)} ${random.pick(NICKNAME_SUFFIXES)}`,
+    }),
+  };
+  // Drawn last so seeds keep producing the same builds they did before
+  // finishes and tuning parts existed
+  drawn.car.finish = random.pick(pools?.finishes ?? FinishSchema.options);
+  drawn.car.tires = random.pick(pools?.tires ?? TireCompoundSchema.options);
+  drawn.car.suspension = random.pick(
+    pools?.suspensions ?? SuspensionSchema.options,
+  );
+  drawn.car.transmission = random.pick(
+    pools?.transmissions ?? TransmissionSchema.options,
+  );
+  drawn.car.nitrous = random.pick(pools?.nitrous ?? NitrousSchema.options);
+
+  if (!base) {
+    return drawn;
+  }
+
+  // Restore locked fields from the base build
+  const car: CarConfig = { ...drawn.car };
+  const driver: DriverProfile = { ...drawn.driver };
+
+  for (const field of locked) {
+    switch (field) {
+      case "persona":
+      case "nickname":
+        setField(driver, field, base.driver[field]);
+        break;
+      case "decal":
+        setField(car, "decal", base.car.decal);
+        setField(car, "customDecal", base.car.customDecal);
+        break;
+      default:
+        setField(car, field, base.car[field]);
+    }
+  }
+
+  // A locked primary color can collide with the drawn accent color
+  if (car.secondaryColor === car.color && !locked.includes("secondaryColor")) {
+    delete car.secondaryColor;
+  }
+
+  return { car, driver };
+}
+
+function drawStat(random: Random, range: StatRange = FULL_RANGE): number {
+  return random.int(range[0], range[1]);
+}
+
+function setField<T extends object, K extends keyof T>(
+  target: T,
+  field: K,
+  value: T[K],
+): void {
+  if (value === undefined) {
+    delete target[field];
+  } else {
+    target[field] = value;
+  }
+}
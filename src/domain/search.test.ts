@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { searchBuilds, toBuildMetadata, updateTags } from "./search.ts";
+import { type Build, createBuild } from "./models.ts";
+
+describe("build search", () => {
+  const build = (
+    id: string,
+    updatedAt: number,
+    changes: Omit<Partial<Build>, "car"> & { car?: Partial<Build["car"]> },
+  ): Build => {
+    const created = createBuild(id, changes.name, changes.car);
+    return {
+      ...created,
+      ...changes,
+      car: created.car,
+      updatedAt,
+    };
+  };
+
+  const builds = [
+    build("drifter", 3, {
+      name: "Drift King",
+      tags: ["drift", "team-b"],
+      car: { bodyKit: "drift", wheels: "racing" },
+    }),
+    build("cruiser", 1, { name: "Sunday Cruiser", tags: ["chill"] }),
+    build("rocket", 2, {
+      name: "Rocket",
+      tags: ["drift"],
+      car: {
+        wheels: "racing",
+        performance: { power: 90, grip: 80, aero: 85, weight: 70 },
+      },
+      driver: { persona: "SpeedDemon" },
+    }),
+  ];
+  const ids = (search: Parameters<typeof searchBuilds>[1]) =>
+    searchBuilds(builds, search).map((metadata) => metadata.id);
+
+  it("should list builds newest first by default", () => {
+    expect(ids({})).toEqual(["drifter", "rocket", "cruiser"]);
+  });
+
+  it("should sort by name and score", () => {
+    expect(ids({ sortBy: "name" })).toEqual(["drifter", "rocket", "cruiser"]);
+    expect(ids({ sortBy: "name", order: "desc" })).toEqual([
+      "cruiser",
+      "rocket",
+      "drifter",
+    ]);
+    expect(ids({ sortBy: "score" })[0]).toBe("rocket");
+  });
+
+  it("should combine filters", () => {
+    expect(ids({ tags: ["Drift"] })).toEqual(["drifter", "rocket"]);
+    expect(ids({ tags: ["drift", "team-b"] })).toEqual(["drifter"]);
+    expect(ids({ name: "cruis" })).toEqual(["cruiser"]);
+    expect(ids({ persona: "SpeedDemon" })).toEqual(["rocket"]);
+    expect(ids({ parts: { wheels: "racing", bodyKit: "drift" } })).toEqual([
+      "drifter",
+    ]);
+
+    const rocketScore = toBuildMetadata(builds[2]).performanceScore;
+    expect(ids({ minScore: rocketScore })).toEqual(["rocket"]);
+    expect(ids({ maxScore: rocketScore - 1 })).toEqual(["drifter", "cruiser"]);
+    expect(() => ids({ minScore: 80, maxScore: 20 })).toThrow(/can't be above/);
+  });
+
+  it("should add and remove tags", () => {
+    expect(
+      updateTags(["drift", "chill"], { add: [" Track Day ", "drift"] }),
+    ).toEqual(["drift", "chill", "track day"]);
+    expect(updateTags(["drift", "chill"], { remove: ["DRIFT"] })).toEqual([
+      "chill",
+    ]);
+    expect(() => updateTags([], { add: ["no/slashes"] })).toThrow();
+    expect(() =>
+      updateTags([], {
+        add: Array.from({ length: 11 }, (_, i) => `tag${i}`),
+      }),
+    ).toThrow(/at most 10 tags/);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Build tags and garage search
+ * Filters and sorts saved builds by tag, name, persona, parts and score
+ */
+
+import { z } from "zod";
+import {
+  type Build,
+  type BuildMetadata,
+  BuildTagSchema,
+  DriverPersonaSchema,
+  MAX_BUILD_TAGS,
+  PART_SCHEMAS,
+  calculatePerformanceScore,
+} from "./models.ts";
+import { type PartCategory, mapPartCategories } from "./parts.ts";
+
+/**
+ * Part values a build must have, e.g. { wheels: "racing" }
+ */
+export const PartFilterSchema = z.object(
+  mapPartCategories((category) => PART_SCHEMAS[category].optional()) as {
+    [C in PartCategory]: z.ZodOptional<(typeof PART_SCHEMAS)[C]>;
+  },
+);
+
+export const BuildSortSchema = z.enum(["name", "updatedAt", "score"]);
+
+export type BuildSort = z.infer<typeof BuildSortSchema>;
+
+/**
+ * Search filters (all optional and combined with AND) and sort order
+ */
+export const BuildSearchSchema = z.object({
+  /** Builds must have every one of these tags */
+  tags: z.array(BuildTagSchema).optional(),
+  /** Case-insensitive substring of the build name */
+  name: z.string().trim().min(1).optional(),
+  persona: DriverPersonaSchema.optional(),
+  parts: PartFilterSchema.optional(),
+  minScore: z.number().min(0).max(100).optional(),
+  maxScore: z.number().min(0).max(100).optional(),
+  sortBy: BuildSortSchema.default("updatedAt"),
+  /** Defaults to A-Z for names and highest first otherwise */
+  order: z.enum(["asc", "desc"]).optional(),
+});
+
+export type BuildSearch = z.input<typeof BuildSearchSchema>;
+
+/**
+ * Listing details of a build
+ */
+export function toBuildMetadata(build: Build): BuildMetadata {
+  return {
+    id: build.id,
+    name: build.name,
+    tags: build.tags,
+    carClass: build.carClass,
+    color: build.car.color,
+    persona: build.driver.persona,
+    nickname: build.driver.nickname,
+    performanceScore: calculatePerformanceScore(build.car, build.driver),
+    createdAt: build.createdAt,
+    updatedAt: build.updatedAt,
+  };
+}
+
+/**
+ * Filter and sort builds
+ * @throws Error if minScore is above maxScore
+ */
+export function searchBuilds(
+  builds: Build[],
+  search: BuildSearch,
+): BuildMetadata[] {
+  const query = BuildSearchSchema.parse(search);
+
+  if (
+    query.minScore !== undefined &&
+    query.maxScore !== undefined &&
+    query.minScore > query.maxScore
+  ) {
+    throw new Error(
+      `minScore (${query.minScore}) can't be above maxScore (${query.maxScore})`,
+    );
+  }
+
+  const name = query.name?.toLowerCase();
+  const parts = Object.entries(query.parts ?? {}).filter(
+    ([, option]) => option !== undefined,
+  ) as [PartCategory, string][];
+
+  const matches = builds
+    .filter(
+      (build) =>
+        (query.tags ?? []).every((tag) => build.tags.includes(tag)) &&
+        (!name || (build.name ?? build.id).toLowerCase().includes(name)) &&
+        (!query.persona || build.driver.persona === query.persona) &&
+        parts.every(([category, option]) => build.car[category] === option),
+    )
+    .map(toBuildMetadata)
+    .filter(
+      ({ performanceScore }) =>
+        performanceScore >= (query.minScore ?? 0) &&
+        performanceScore <= (query.maxScore ?? 100),
+    );
+
+  const order = query.order ?? (query.sortBy === "name" ? "asc" : "desc");
+  const direction = order === "asc" ? 1 : -1;
+
+  return matches.sort((a, b) => {
+    switch (query.sortBy) {
+      case "name":
+        return (
+          direction *
+          (a.name ?? a.id).localeCompare(b.name ?? b.id, undefined, {
+            sensitivity: "base",
+          })
+        );
+      case "updatedAt":
+        return direction * (a.updatedAt - b.updatedAt);
+      case "score":
+        return (
+          direction * (a.performanceScore - b.performanceScore) ||
+          b.updatedAt - a.updatedAt
+        );
+    }
+  });
+}
+
+/**
+ * Add and remove tags, keeping them unique and in the order they were added
+ * @throws Error if a tag is invalid or the build would have too many
+ */
+export function updateTags(
+  tags: string[],
+  changes: { add?: string[]; remove?: string[] },
+): string[] {
+  const add = z.array(BuildTagSchema).parse(changes.add ?? []);
+  const remove = new Set(z.array(BuildTagSchema).parse(changes.remove ?? []));
+
+  const updated = [...new Set([...tags, ...add])].filter(
+    (tag) => !remove.has(tag),
+  );
+
+  if (updated.length > MAX_BUILD_TAGS) {
+    throw new Error(
+      `A build can have at most ${MAX_BUILD_TAGS} tags; remove some first`,
+    );
+  }
+
+  return updated;
+}
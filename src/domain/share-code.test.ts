@@ -0,0 +1,181 @@
+import { createHash } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import {
+  SHARE_CODE_PREFIX,
+  decodeShareCode,
+  encodeShareCode,
+} from "./share-code.ts";
+import { CarConfigSchema, type DriverProfile } from "./models.ts";
+import { PART_CATEGORIES, PART_CATEGORY_NAMES } from "./parts.ts";
+
+describe("share codes", () => {
+  const car = CarConfigSchema.parse({
+    color: "magenta",
+    secondaryColor: "cyan",
+    wheels: "neon",
+    bodyKit: "drift",
+    decal: "tribal",
+    spoiler: "gt_wing",
+    exhaust: "quad",
+    underglow: "rainbow",
+    tires: "soft",
+    suspension: "coilover",
+    transmission: "sequential",
+    nitrous: "dual_shot",
+    performance: { power: 72.5, grip: 40, aero: 100, weight: 0 },
+  });
+  const driver: DriverProfile = { persona: "Wildcard", nickname: "Zoomie 🐾" };
+
+  const signed = (bytes: number[]) => {
+    const payload = Buffer.from(bytes);
+    const checksum = createHash("sha256").update(payload).digest();
+    return (
+      SHARE_CODE_PREFIX +
+      Buffer.concat([payload, checksum.subarray(0, 2)]).toString("base64url")
+    );
+  };
+
+  it("should round-trip a build through a URL-safe code", () => {
+    const code = encodeShareCode(car, driver);
+
+    expect(code.startsWith(SHARE_CODE_PREFIX)).toBe(true);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeShareCode(code)).toEqual({ car, driver });
+  });
+
+  it("should round-trip a build without optional fields", () => {
+    const plain = CarConfigSchema.parse({});
+    const code = encodeShareCode(plain, { persona: "Cautious" });
+
+    expect(decodeShareCode(code)).toEqual({
+      car: plain,
+      driver: { persona: "Cautious" },
+    });
+  });
+
+  it("should round-trip custom paint and finishes", () => {
+    const custom = { ...car, color: "#0a7f3c", finish: "pearl" as const };
+    const code = encodeShareCode(custom, driver);
+
+    expect(decodeShareCode(code)).toEqual({ car: custom, driver });
+    expect(
+      decodeShareCode(
+        encodeShareCode({ ...custom, secondaryColor: "#ffffff" }, driver),
+      ).car.secondaryColor,
+    ).toBe("#ffffff");
+  });
+
+  it("should round-trip a custom decal", () => {
+    const decorated = CarConfigSchema.parse({
+      ...car,
+      decal: "custom",
+      customDecal: {
+        sponsor: "Paws & Co",
+        layers: [
+          { type: "shape", shape: "star", x: 50, y: 40, color: "#00aaff" },
+          { type: "text", text: "GO", x: 20, y: 50, color: "gold" },
+        ],
+      },
+    });
+    const code = encodeShareCode(decorated, driver);
+
+    expect(decodeShareCode(code)).toEqual({ car: decorated, driver });
+  });
+
+  it("should encode every part category in the registry", () => {
+    for (const category of PART_CATEGORY_NAMES) {
+      for (const option of PART_CATEGORIES[category].options) {
+        const fitted = { ...car, [category]: option };
+
+        expect(decodeShareCode(encodeShareCode(fitted, driver)).car).toEqual(
+          fitted,
+        );
+      }
+    }
+  });
+
+  it("should decode version 1 codes with a gloss finish", () => {
+    // magenta/cyan, neon, drift, tribal, gt_wing, quad, rainbow, Wildcard,
+    // stats 10/20/30/40, no nickname
+    const payload = Buffer.from([
+      1, 12, 12, 5, 3, 3, 4, 4, 5, 6, 3, 232, 7, 208, 11, 184, 15, 160, 0,
+    ]);
+    const checksum = createHash("sha256").update(payload).digest();
+    const code =
+      SHARE_CODE_PREFIX +
+      Buffer.concat([payload, checksum.subarray(0, 2)]).toString("base64url");
+
+    const decoded = decodeShareCode(code);
+    expect(decoded.car).toMatchObject({
+      color: "magenta",
+      secondaryColor: "cyan",
+      finish: "gloss",
+      tires: "street",
+      nitrous: "none",
+      performance: { power: 10, grip: 20, aero: 30, weight: 40 },
+    });
+    expect(decoded.driver).toEqual({ persona: "Wildcard" });
+  });
+
+  it("should decode version 4 codes with their fixed part list", () => {
+    // magenta/cyan, neon, drift, tribal, gt_wing, quad, rainbow, Wildcard,
+    // pearl, soft, coilover, sequential, dual_shot, stats 10/20/30/40, no
+    // nickname, no custom decal
+    const code = signed([
+      4, 12, 12, 5, 3, 3, 4, 4, 5, 6, 3, 2, 3, 2, 2, 3, 232, 7, 208, 11, 184,
+      15, 160, 0, 0, 0,
+    ]);
+
+    expect(decodeShareCode(code)).toEqual({
+      car: { ...car, finish: "pearl", performance: expect.any(Object) },
+      driver: { persona: "Wildcard" },
+    });
+  });
+
+  it("should decode parts missing from a code with their defaults", () => {
+    // magenta, no secondary, Wildcard, 2 parts (finish, wheels), stats 0,
+    // no nickname, no custom decal
+    const code = signed([
+      5, 12, 0, 6, 2, 2, 5, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+    ]);
+
+    expect(decodeShareCode(code).car).toMatchObject({
+      finish: "metallic",
+      wheels: "neon",
+      bodyKit: PART_CATEGORIES.bodyKit.default,
+      nitrous: PART_CATEGORIES.nitrous.default,
+    });
+    expect(() =>
+      decodeShareCode(signed([5, 12, 0, 6, 99, ...Array(99 + 11).fill(0)])),
+    ).toThrow(/from a newer version/);
+  });
+
+  it("should reject corrupted codes", () => {
+    const code = encodeShareCode(car, driver);
+    const flipped = code.at(-5) === "A" ? "B" : "A";
+    const corrupted = code.slice(0, -5) + flipped + code.slice(-4);
+
+    expect(() => decodeShareCode(corrupted)).toThrow(/checksum mismatch/);
+    expect(() => decodeShareCode(code.slice(0, -3))).toThrow(
+      /Invalid share code/,
+    );
+    expect(() => decodeShareCode("hello")).toThrow(/expected it to start/);
+  });
+
+  it("should reject codes from a newer version", () => {
+    const payload = Buffer.from(
+      encodeShareCode(car, driver).slice(SHARE_CODE_PREFIX.length),
+      "base64url",
+    ).subarray(0, -2);
+    payload[0] = 99;
+
+    const checksum = createHash("sha256").update(payload).digest();
+    const future =
+      SHARE_CODE_PREFIX +
+      Buffer.concat([payload, checksum.subarray(0, 2)]).toString("base64url");
+
+    expect(() => decodeShareCode(future)).toThrow(
+      /version 99 is newer than this server supports/,
+    );
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Share codes
+ * Packs a car and driver into a compact, URL-safe string for pasting in chat
+ *
+ * Layout (before base64url encoding):
+ *   version (1 byte)
+ *   color (paint, see below)
+ *   secondaryColor (0 = none, otherwise paint with named indexes + 1)
+ *   persona (1 byte, enum index)
+ *   part count (1 byte), then one option index byte per part category in
+ *   part registry order
+ *   power, grip, aero, weight (2 bytes each, value × 100)
+ *   nickname (1 byte length + UTF-8 bytes)
+ *   customDecal (2 bytes length + UTF-8 JSON; length 0 = none)
+ *   checksum (2 bytes, SHA-256 of everything above)
+ *
+ * Paint is a named color's enum index (1 byte) or a custom color as 255
+ * followed by its red, green and blue bytes.
+ *
+ * Versions 1-4 list a fixed set of parts instead (see LEGACY_PARTS). Version
+ * 1 codes predate custom paint and finishes: they have no finish byte and
+ * decode with a gloss finish. Versions 1 and 2 have no customDecal, and
+ * versions 1-3 have no tires, suspension, transmission or nitrous bytes.
+ * Parts missing from a code decode with their defaults.
+ *
+ * Enum indexes follow option order, so new options and part categories must
+ * be appended and any other layout change needs a new version.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  type CarConfig,
+  type DriverPersona,
+  type DriverProfile,
+  type PaintColor,
+  CarConfigSchema,
+  ColorSchema,
+  DriverPersonaSchema,
+  DriverProfileSchema,
+  formatHexColor,
+  parseCustomColor,
+} from "./models.ts";
+import {
+  type PartCategory,
+  type PartCategoryDefinition,
+  PART_CATEGORIES,
+  PART_CATEGORY_NAMES,
+} from "./parts.ts";
+import { isNamedColor } from "./paint.ts";
+
+export const SHARE_CODE_PREFIX = "PMR-";
+export const SHARE_CODE_VERSION = 5;
+
+/**
+ * Enum bytes of versions 1-4 in code order, with the version that added each
+ * This layout is frozen; new part categories only appear in version 5+ codes
+ */
+const LEGACY_PARTS: readonly [PartCategory | "persona", number][] = [
+  ["wheels", 1],
+  ["bodyKit", 1],
+  ["decal", 1],
+  ["spoiler", 1],
+  ["exhaust", 1],
+  ["underglow", 1],
+  ["persona", 1],
+  ["finish", 2],
+  ["tires", 4],
+  ["suspension", 4],
+  ["transmission", 4],
+  ["nitrous", 4],
+];
+
+const CHECKSUM_BYTES = 2;
+
+/** Paint byte marking a custom color */
+const CUSTOM_PAINT = 255;
+
+const STAT_KEYS = ["power", "grip", "aero", "weight"] as const;
+
+/**
+ * Encode a car and driver as a share code
+ */
+export function encodeShareCode(car: CarConfig, driver: DriverProfile): string {
+  const nickname = Buffer.from(driver.nickname ?? "", "utf8");
+  const customDecal = Buffer.from(
+    car.decal === "custom" && car.customDecal
+      ? JSON.stringify(car.customDecal)
+      : "",
+    "utf8",
+  );
+  const bytes: number[] = [
+    SHARE_CODE_VERSION,
+    ...paintBytes(car.color, 0),
+    ...(car.secondaryColor ? paintBytes(car.secondaryColor, 1) : [0]),
+    DriverPersonaSchema.options.indexOf(driver.persona),
+    PART_CATEGORY_NAMES.length,
+    ...PART_CATEGORY_NAMES.map((category) => {
+      const { options, default: fallback } = PART_CATEGORIES[
+        category
+      ] as PartCategoryDefinition;
+      // Builds saved before a category existed have none stored
+      return options.indexOf(car[category] ?? fallback);
+    }),
+  ];
+
+  for (const stat of STAT_KEYS) {
+    const value = Math.round(car.performance[stat] * 100);
+    bytes.push(value >> 8, value & 0xff);
+  }
+
+  bytes.push(nickname.length, ...nickname);
+  bytes.push(
+    customDecal.length >> 8,
+    customDecal.length & 0xff,
+    ...customDecal,
+  );
+
+  const payload = Buffer.from(bytes);
+  const code = Buffer.concat([payload, checksum(payload)]);
+
+  return SHARE_CODE_PREFIX + code.toString("base64url");
+}
+
+/**
+ * Decode and validate a share code
+ * @throws Error if the code is malformed, corrupted or from a newer version
+ */
+export function decodeShareCode(code: string): {
+  car: CarConfig;
+  driver: DriverProfile;
+} {
+  const trimmed = code.trim();
+
+  if (!trimmed.startsWith(SHARE_CODE_PREFIX)) {
+    throw new Error(
+      `Invalid share code: expected it to start with "${SHARE_CODE_PREFIX}"`,
+    );
+  }
+
+  const body = trimmed.slice(SHARE_CODE_PREFIX.length);
+  if (!/^[A-Za-z0-9_-]+$/.test(body)) {
+    throw new Error(
+      "Invalid share code: contains characters outside base64url",
+    );
+  }
+
+  const bytes = Buffer.from(body, "base64url");
+  if (bytes.length <= CHECKSUM_BYTES) {
+    throw new Error("Invalid share code: too short");
+  }
+
+  const payload = bytes.subarray(0, bytes.length - CHECKSUM_BYTES);
+  if (!checksum(payload).equals(bytes.subarray(payload.length))) {
+    throw new Error(
+      "Invalid share code: checksum mismatch (the code is corrupted or incomplete)",
+    );
+  }
+
+  const version = payload[0];
+  if (version > SHARE_CODE_VERSION) {
+    throw new Error(
+      `Share code version ${version} is newer than this server supports (up to ${SHARE_CODE_VERSION})`,
+    );
+  }
+  if (version < 1) {
+    throw new Error(`Invalid share code: unknown version ${version}`);
+  }
+
+  const reader = createReader(payload.subarray(1));
+
+  const color = readPaint(reader, 0);
+  const secondaryIndex = reader.byte();
+  const secondaryColor =
+    secondaryIndex === 0 ? undefined : readPaint(reader, 1, secondaryIndex);
+  const { persona, parts } =
+    version >= 5 ? readParts(reader) : readLegacyParts(reader, version);
+
+  const performance = Object.fromEntries(
+    STAT_KEYS.map((stat) => [
+      stat,
+      ((reader.byte() << 8) | reader.byte()) / 100,
+    ]),
+  );
+
+  const nicknameLength = reader.byte();
+  const nickname = reader.text(nicknameLength);
+  const customDecal =
+    version >= 3
+      ? readCustomDecal(reader, (reader.byte() << 8) | reader.byte())
+      : undefined;
+  reader.end();
+
+  // Validate against the schemas; unknown enum indexes decode as undefined and
+  // are rejected here rather than silently replaced by defaults
+  const car = CarConfigSchema.parse({
+    color: required(color, "color"),
+    secondaryColor:
+      secondaryIndex === 0
+        ? undefined
+        : required(secondaryColor, "secondaryColor"),
+    ...parts,
+    customDecal,
+    performance,
+  });
+
+  const driver = DriverProfileSchema.parse({
+    persona: required(persona, "persona"),
+    nickname: nickname || undefined,
+  });
+
+  return { car, driver };
+}
+
+/**
+ * Decode the persona and the part count and bytes of a version 5+ code
+ */
+function readParts(reader: ReturnType<typeof createReader>) {
+  const persona = DriverPersonaSchema.options[reader.byte()];
+  const count = reader.byte();
+  if (count > PART_CATEGORY_NAMES.length) {
+    throw new Error(
+      "Share code has parts this server doesn't support (it is from a newer version)",
+    );
+  }
+
+  const parts: Partial<Record<PartCategory, string>> = {};
+  for (const category of PART_CATEGORY_NAMES.slice(0, count)) {
+    parts[category] = readPart(reader, category);
+  }
+  return { persona, parts };
+}
+
+/**
+ * Decode the persona and part bytes of a version 1-4 code
+ */
+function readLegacyParts(
+  reader: ReturnType<typeof createReader>,
+  version: number,
+) {
+  let persona: DriverPersona | undefined;
+  const parts: Partial<Record<PartCategory, string>> = {};
+
+  for (const [field, since] of LEGACY_PARTS) {
+    if (version < since) {
+      continue;
+    }
+    if (field === "persona") {
+      persona = DriverPersonaSchema.options[reader.byte()];
+    } else {
+      parts[field] = readPart(reader, field);
+    }
+  }
+  return { persona, parts };
+}
+
+function readPart(
+  reader: ReturnType<typeof createReader>,
+  category: PartCategory,
+): string {
+  return required(PART_CATEGORIES[category].options[reader.byte()], category);
+}
+
+/**
+ * Encode paint; offset is added to named color indexes
+ */
+function paintBytes(color: PaintColor, offset: number): number[] {
+  if (isNamedColor(color)) {
+    return [ColorSchema.options.indexOf(color) + offset];
+  }
+  return [CUSTOM_PAINT, ...(parseCustomColor(color) ?? [0, 0, 0])];
+}
+
+/**
+ * Decode paint (undefined for an unknown named index)
+ * @param first - Paint byte if it was already read
+ */
+function readPaint(
+  reader: ReturnType<typeof createReader>,
+  offset: number,
+  first = reader.byte(),
+): PaintColor | undefined {
+  if (first === CUSTOM_PAINT) {
+    const channels = [reader.byte(), reader.byte(), reader.byte()];
+    return formatHexColor(channels);
+  }
+  return ColorSchema.options[first - offset];
+}
+
+function readCustomDecal(
+  reader: ReturnType<typeof createReader>,
+  length: number,
+): unknown {
+  if (length === 0) {
+    return undefined;
+  }
+
+  const json = reader.text(length);
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error("Invalid share code: malformed custom decal");
+  }
+}
+
+function checksum(payload: Buffer): Buffer {
+  return createHash("sha256")
+    .update(payload)
+    .digest()
+    .subarray(0, CHECKSUM_BYTES);
+}
+
+function required<T>(value: T | undefined, field: string): T {
+  if (value === undefined) {
+    throw new Error(`Invalid share code: unknown ${field}`);
+  }
+  return value;
+}
+
+function createReader(buffer: Buffer) {
+  let offset = 0;
+
+  const take = (length: number): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new Error("Invalid share code: unexpected end of data");
+    }
+    const slice = buffer.subarray(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  return {
+    byte: () => take(1)[0],
+    text: (length: number) => take(length).toString("utf8"),
+    end: () => {
+      if (offset !== buffer.length) {
+        throw new Error("Invalid share code: unexpected trailing data");
+      }
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { TRACKS, TrackIdSchema, calculateTrackScore } from "./tracks.ts";
+import { CarConfigSchema, createDefaultCarConfig } from "./models.ts";
+
+describe("calculateTrackScore", () => {
+  it("should weight stats to a total of 1 on every track", () => {
+    for (const track of Object.values(TRACKS)) {
+      const total = Object.values(track.statWeights).reduce((a, b) => a + b);
+      expect(total).toBeCloseTo(1);
+    }
+  });
+
+  it("should match the base score for a stock car", () => {
+    for (const trackId of TrackIdSchema.options) {
+      const { score, baseScore } = calculateTrackScore(
+        createDefaultCarConfig(),
+        trackId,
+      );
+      expect(score).toBe(baseScore);
+    }
+  });
+
+  it("should reward parts that suit the track", () => {
+    const drift = CarConfigSchema.parse({ bodyKit: "drift" });
+    const rally = CarConfigSchema.parse({
+      bodyKit: "rally",
+      wheels: "offroad",
+    });
+
+    expect(calculateTrackScore(drift, "mountain_pass").score).toBeGreaterThan(
+      calculateTrackScore(drift, "pomeranian_speedway").score,
+    );
+    expect(calculateTrackScore(rally, "desert_rally").score).toBeGreaterThan(
+      calculateTrackScore(rally, "pomeranian_speedway").score,
+    );
+  });
+
+  it("should score every part with a bonus in the registry", () => {
+    const stock = createDefaultCarConfig();
+    const tuned = {
+      ...stock,
+      tires: "soft" as const,
+      nitrous: "dual_shot" as const,
+    };
+
+    for (const trackId of TrackIdSchema.options) {
+      const { breakdown } = calculateTrackScore(tuned, trackId);
+      expect(breakdown.parts.map((p) => p.part)).toEqual(
+        expect.arrayContaining([
+          "tires",
+          "suspension",
+          "transmission",
+          "nitrous",
+        ]),
+      );
+      expect(calculateTrackScore(tuned, trackId).score).toBeGreaterThan(
+        calculateTrackScore(stock, trackId).score,
+      );
+    }
+
+    const rallied = { ...stock, tires: "all_terrain" as const };
+    expect(calculateTrackScore(rallied, "desert_rally").score).toBeGreaterThan(
+      calculateTrackScore(rallied, "pomeranian_speedway").score,
+    );
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Track catalog for Pomeranian Kart races
+ * Describes each track's layout and conditions and scores cars against them
+ */
+
+import { z } from "zod";
+import {
+  type CarConfig,
+  type Performance,
+  calculatePerformanceScore,
+} from "./models.ts";
+import {
+  type PartCategory,
+  type PartOption,
+  PART_CATEGORY_NAMES,
+  partBonusTable,
+} from "./parts.ts";
+
+/**
+ * Track identifiers
+ */
+export const TrackIdSchema = z.enum([
+  "pomeranian_speedway",
+  "mountain_pass",
+  "harbor_circuit",
+  "desert_rally",
+]);
+
+export type TrackId = z.infer<typeof TrackIdSchema>;
+
+export type TrackSurface = "asphalt" | "street" | "gravel";
+
+export type TrackWeather = "dry" | "wet" | "fog" | "hot";
+
+/**
+ * Track definition
+ */
+export interface Track {
+  id: TrackId;
+  name: string;
+  description: string;
+  surface: TrackSurface;
+  /** Corners per kilometer */
+  cornerDensity: number;
+  /** Longest straight in meters */
+  longestStraight: number;
+  /** Height difference between the lowest and highest point in meters */
+  elevationChange: number;
+  weather: TrackWeather;
+  /** Lap time in seconds for an average (score 50) car */
+  baseLapTime: number;
+  /** Share of the lap spent on straights (0-1), the rest is corners */
+  straightRatio: number;
+  /** How much each stat counts on this track (sums to 1) */
+  statWeights: Record<keyof Performance, number>;
+  /** Multiplier on each part category's standard bonus (default: 1) */
+  partWeights: Partial<Record<PartCategory, number>>;
+  /** Extra points for parts that suit (or fight) this track */
+  partAdjustments: {
+    [Category in PartCategory]?: Partial<Record<PartOption<Category>, number>>;
+  };
+}
+
+/**
+ * How a car scores on a specific track
+ */
+export interface TrackScore {
+  trackId: TrackId;
+  score: number;
+  /** Context-free score from calculatePerformanceScore, for comparison */
+  baseScore: number;
+  breakdown: {
+    stats: {
+      stat: keyof Performance;
+      value: number;
+      weight: number;
+      points: number;
+    }[];
+    parts: {
+      part: PartCategory;
+      option: string;
+      bonus: number;
+      adjustment: number;
+      points: number;
+    }[];
+  };
+}
+
+/**
+ * All available tracks
+ */
+export const TRACKS: Record<TrackId, Track> = {
+  pomeranian_speedway: {
+    id: "pomeranian_speedway",
+    name: "Pomeranian Speedway",
+    description:
+      "High-speed oval with long straights and sweeping banked turns",
+    surface: "asphalt",
+    cornerDensity: 1,
+    longestStraight: 900,
+    elevationChange: 5,
+    weather: "dry",
+    baseLapTime: 42,
+    straightRatio: 0.75,
+    statWeights: { power: 0.4, aero: 0.35, weight: 0.15, grip: 0.1 },
+    partWeights: { bodyKit: 1, wheels: 0.8, spoiler: 0.6 },
+    partAdjustments: {
+      bodyKit: { racing: 3, muscle: 3, drift: -3, rally: -2 },
+      wheels: { offroad: -4 },
+      spoiler: { gt_wing: -2, ducktail: 2 },
+      transmission: { close_ratio: 2 },
+      nitrous: { dual_shot: 2 },
+    },
+  },
+  mountain_pass: {
+    id: "mountain_pass",
+    name: "Mountain Pass",
+    description: "Tight hairpins and elevation changes that punish poor grip",
+    surface: "asphalt",
+    cornerDensity: 6.5,
+    longestStraight: 250,
+    elevationChange: 420,
+    weather: "fog",
+    baseLapTime: 78,
+    straightRatio: 0.3,
+    statWeights: { grip: 0.4, weight: 0.3, power: 0.15, aero: 0.15 },
+    partWeights: { bodyKit: 1, wheels: 1, spoiler: 1.2 },
+    partAdjustments: {
+      bodyKit: { drift: 5, rally: 3, muscle: -4, luxury: -2 },
+      wheels: { racing: 2, spinner: -2 },
+      spoiler: { gt_wing: 3, racing: 2 },
+      suspension: { coilover: 2, air_ride: -3 },
+      nitrous: { dual_shot: -2 },
+    },
+  },
+  harbor_circuit: {
+    id: "harbor_circuit",
+    name: "Harbor Circuit",
+    description:
+      "Street circuit mixing a fast waterfront straight with chicanes",
+    surface: "street",
+    cornerDensity: 4,
+    longestStraight: 600,
+    elevationChange: 12,
+    weather: "wet",
+    baseLapTime: 64,
+    straightRatio: 0.5,
+    statWeights: { grip: 0.3, power: 0.25, weight: 0.25, aero: 0.2 },
+    partWeights: { bodyKit: 1, wheels: 0.9, spoiler: 1 },
+    partAdjustments: {
+      bodyKit: { sport: 2, drift: 2, muscle: -2 },
+      // Slick racing rims struggle on wet streets
+      wheels: { racing: -2, offroad: -2, sport: 2 },
+      spoiler: { racing: 2 },
+      // Wet streets need tires that clear water
+      tires: { wet: 4, soft: -2, hard: -2 },
+    },
+  },
+  desert_rally: {
+    id: "desert_rally",
+    name: "Desert Rally",
+    description: "Loose gravel stages where stability matters more than power",
+    surface: "gravel",
+    cornerDensity: 3,
+    longestStraight: 500,
+    elevationChange: 150,
+    weather: "hot",
+    baseLapTime: 95,
+    straightRatio: 0.45,
+    statWeights: { grip: 0.35, power: 0.25, weight: 0.2, aero: 0.2 },
+    partWeights: { bodyKit: 1, wheels: 1, spoiler: 0.5 },
+    partAdjustments: {
+      bodyKit: { rally: 8, racing: -4, luxury: -5, drift: -2 },
+      wheels: { offroad: 8, racing: -3, neon: -2, spinner: -4 },
+      spoiler: { gt_wing: -2 },
+      tires: { all_terrain: 6, soft: -3 },
+      suspension: { rally: 5, lowered: -4, air_ride: -4 },
+    },
+  },
+};
+
+/**
+ * Look up a track by ID
+ */
+export function getTrack(trackId: TrackId): Track {
+  return TRACKS[trackId];
+}
+
+/**
+ * List all tracks
+ */
+export function listTracks(): Track[] {
+  return TrackIdSchema.options.map((id) => TRACKS[id]);
+}
+
+/** Part categories with score bonuses in the part registry */
+const SCORED_PARTS = PART_CATEGORY_NAMES.filter(
+  (category) => Object.keys(partBonusTable(category)).length > 0,
+);
+
+/**
+ * Score a car on a specific track
+ * Stats are weighted by what the track rewards, and part bonuses are scaled
+ * and adjusted for how well each part suits the track
+ */
+export function calculateTrackScore(
+  car: CarConfig,
+  trackId: TrackId,
+): TrackScore {
+  const track = getTrack(trackId);
+
+  const stats = (Object.keys(track.statWeights) as (keyof Performance)[]).map(
+    (stat) => {
+      const value = car.performance[stat];
+      const weight = track.statWeights[stat];
+      return { stat, value, weight, points: round(value * weight) };
+    },
+  );
+
+  const parts = SCORED_PARTS.map((part) => {
+    const option = car[part];
+    const bonus = partBonusTable(part)[option] ?? 0;
+    const adjustments: Partial<Record<string, number>> =
+      track.partAdjustments[part] ?? {};
+    const adjustment = adjustments[option] ?? 0;
+    return {
+      part,
+      option,
+      bonus,
+      adjustment,
+      points: round(bonus * (track.partWeights[part] ?? 1) + adjustment),
+    };
+  });
+
+  const total = [...stats, ...parts].reduce((sum, s) => sum + s.points, 0);
+
+  return {
+    trackId,
+    score: Math.max(0, Math.min(100, Math.round(total))),
+    baseScore: calculatePerformanceScore(car),
+    breakdown: { stats, parts },
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
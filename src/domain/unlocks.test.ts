@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import {
+  type UnlockProgress,
+  PART_UNLOCKS,
+  isUnlocked,
+  unlockKey,
+} from "./unlocks.ts";
+
+describe("part unlocks", () => {
+  const fresh: UnlockProgress = { xp: 0, achievements: [], purchased: [] };
+
+  it("should leave unlisted options unlocked", () => {
+    expect(PART_UNLOCKS.wheels.stock).toBeUndefined();
+    expect(isUnlocked(fresh, "wheels", "stock")).toBe(true);
+  });
+
+  it("should unlock options by XP, achievement or purchase", () => {
+    expect(isUnlocked(fresh, "wheels", "racing")).toBe(false);
+    expect(isUnlocked({ ...fresh, xp: 500 }, "wheels", "racing")).toBe(true);
+
+    expect(isUnlocked(fresh, "spoiler", "gt_wing")).toBe(false);
+    expect(
+      isUnlocked(
+        { ...fresh, achievements: ["first_win"] },
+        "spoiler",
+        "gt_wing",
+      ),
+    ).toBe(true);
+
+    expect(isUnlocked(fresh, "decal", "custom")).toBe(false);
+    expect(
+      isUnlocked(
+        { ...fresh, purchased: [unlockKey("decal", "custom")] },
+        "decal",
+        "custom",
+      ),
+    ).toBe(true);
+  });
+});
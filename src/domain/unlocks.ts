@@ -0,0 +1,128 @@
+/**
+ * Part unlocks
+ * Some wheels, spoilers, decals and underglows start locked and are unlocked
+ * by earning XP, earning an achievement or buying them with credits
+ */
+
+import { z } from "zod";
+import type { Decal, Spoiler, Underglow, WheelType } from "./models.ts";
+
+/**
+ * Part categories with lockable options
+ */
+export const LockablePartSchema = z.enum([
+  "wheels",
+  "spoiler",
+  "decal",
+  "underglow",
+]);
+
+export type LockablePart = z.infer<typeof LockablePartSchema>;
+
+/**
+ * How a locked option is unlocked
+ */
+export type UnlockRequirement =
+  | { type: "xp"; xp: number }
+  | { type: "achievement"; achievement: string }
+  | { type: "purchase"; price: number };
+
+/**
+ * A user's progress towards unlocks
+ */
+export interface UnlockProgress {
+  xp: number;
+  /** IDs of earned achievements */
+  achievements: string[];
+  /** Purchased options as "part:option", e.g. "decal:custom" */
+  purchased: string[];
+}
+
+/**
+ * Locked options and their requirements (options not listed are always
+ * unlocked)
+ */
+export const PART_UNLOCKS: {
+  wheels: Partial<Record<WheelType, UnlockRequirement>>;
+  spoiler: Partial<Record<Spoiler, UnlockRequirement>>;
+  decal: Partial<Record<Decal, UnlockRequirement>>;
+  underglow: Partial<Record<Underglow, UnlockRequirement>>;
+} = {
+  wheels: {
+    racing: { type: "xp", xp: 500 },
+    neon: { type: "xp", xp: 1500 },
+    spinner: { type: "purchase", price: 1500 },
+  },
+  spoiler: {
+    racing: { type: "xp", xp: 800 },
+    gt_wing: { type: "achievement", achievement: "first_win" },
+  },
+  decal: {
+    carbon_fiber: { type: "xp", xp: 1000 },
+    checkered: { type: "achievement", achievement: "first_win" },
+    custom: { type: "purchase", price: 2000 },
+  },
+  underglow: {
+    rainbow: { type: "xp", xp: 2500 },
+    white: { type: "purchase", price: 800 },
+  },
+};
+
+/** XP for finishing a submitted race */
+export const RACE_FINISH_XP = 50;
+
+/** Extra XP per point scored in a submitted race */
+export const RACE_XP_PER_POINT = 10;
+
+/**
+ * Inventory key of a purchased option
+ */
+export function unlockKey(part: LockablePart, option: string): string {
+  return `${part}:${option}`;
+}
+
+/**
+ * Requirement to unlock an option (undefined if it is never locked)
+ */
+export function unlockRequirement(
+  part: LockablePart,
+  option: string,
+): UnlockRequirement | undefined {
+  return (PART_UNLOCKS[part] as Record<string, UnlockRequirement>)[option];
+}
+
+/**
+ * Whether a user's progress unlocks an option
+ */
+export function isUnlocked(
+  progress: UnlockProgress,
+  part: LockablePart,
+  option: string,
+): boolean {
+  const requirement = unlockRequirement(part, option);
+
+  switch (requirement?.type) {
+    case undefined:
+      return true;
+    case "xp":
+      return progress.xp >= requirement.xp;
+    case "achievement":
+      return progress.achievements.includes(requirement.achievement);
+    case "purchase":
+      return progress.purchased.includes(unlockKey(part, option));
+  }
+}
+
+/**
+ * Describe what is needed to unlock an option
+ */
+export function describeRequirement(requirement: UnlockRequirement): string {
+  switch (requirement.type) {
+    case "xp":
+      return `Reach ${requirement.xp} XP`;
+    case "achievement":
+      return `Earn the "${requirement.achievement}" achievement`;
+    case "purchase":
+      return `Buy it for ${requirement.price} credits`;
+  }
+}
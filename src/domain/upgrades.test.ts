@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { suggestUpgrades } from "./upgrades.ts";
+import {
+  applyCarConfigUpdate,
+  calculatePerformanceScore,
+  createBuild,
+} from "./models.ts";
+
+describe("suggestUpgrades", () => {
+  const { car, driver } = createBuild("active");
+
+  it("should rank suggestions that fit the goal first", () => {
+    const suggestions = suggestUpgrades(car, "top_speed");
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.map((s) => s.id)).toContain("bodyKit:racing");
+    expect(suggestions.map((s) => s.id)).not.toContain(
+      `bodyKit:${car.bodyKit}`,
+    );
+    expect(
+      suggestions.findIndex((s) => s.field === "performance.power"),
+    ).toBeLessThan(
+      suggestions.findIndex((s) => s.field === "performance.grip"),
+    );
+  });
+
+  it("should report the score each suggestion reaches", () => {
+    for (const s of suggestUpgrades(car, "balanced", undefined, driver)) {
+      const upgraded = applyCarConfigUpdate(car, s.changes);
+
+      expect(s.scoreBefore).toBe(calculatePerformanceScore(car, driver));
+      expect(s.scoreAfter).toBe(calculatePerformanceScore(upgraded, driver));
+      expect(s.scoreDelta).toBe(s.scoreAfter - s.scoreBefore);
+    }
+  });
+
+  it("should suggest cosmetic parts for style", () => {
+    const suggestions = suggestUpgrades(car, "style");
+
+    expect(suggestions[0].rationale).toContain("suits style");
+    expect(suggestions.some((s) => s.field.startsWith("performance"))).toBe(
+      false,
+    );
+  });
+
+  it("should prefer the smallest change that reaches a target score", () => {
+    const current = calculatePerformanceScore(car);
+    const suggestions = suggestUpgrades(car, "target_score", current + 3);
+    const reaching = suggestions.filter((s) => s.scoreAfter >= current + 3);
+
+    expect(reaching.length).toBeGreaterThan(0);
+    expect(suggestions.slice(0, reaching.length)).toEqual(reaching);
+    for (let i = 1; i < reaching.length; i++) {
+      expect(reaching[i].scoreDelta).toBeGreaterThanOrEqual(
+        reaching[i - 1].scoreDelta,
+      );
+    }
+
+    expect(suggestUpgrades(car, "target_score", current)).toEqual([]);
+    expect(() => suggestUpgrades(car, "target_score")).toThrow(
+      "targetScore is required",
+    );
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Upgrade recommendation engine
+ * Ranks concrete part and stat changes against a build goal
+ */
+
+import { z } from "zod";
+import {
+  type CarConfig,
+  type CarConfigUpdate,
+  type DriverProfile,
+  type Performance,
+  applyCarConfigUpdate,
+  calculatePerformanceScore,
+} from "./models.ts";
+import {
+  PART_CATEGORIES,
+  PART_CATEGORY_NAMES,
+  mapPartCategories,
+  partBonusTable,
+} from "./parts.ts";
+
+/**
+ * What the user wants to improve
+ */
+export const UpgradeGoalSchema = z.enum([
+  "top_speed",
+  "cornering",
+  "style",
+  "balanced",
+  "target_score",
+]);
+
+export type UpgradeGoal = z.infer<typeof UpgradeGoalSchema>;
+
+/**
+ * A single recommended change
+ */
+export interface UpgradeSuggestion {
+  /** Stable identifier, e.g. "bodyKit:racing" or "performance.grip:65" */
+  id: string;
+  field: string;
+  from: string | number | undefined;
+  to: string | number;
+  /** Update that applies this suggestion via updateCarConfig */
+  changes: CarConfigUpdate;
+  scoreBefore: number;
+  scoreAfter: number;
+  scoreDelta: number;
+  rationale: string;
+}
+
+type PerformanceStat = keyof Performance;
+
+/** How much each stat matters for a goal */
+const GOAL_STAT_WEIGHTS: Record<
+  UpgradeGoal,
+  Record<PerformanceStat, number>
+> = {
+  top_speed: { power: 1, aero: 0.6, weight: 0.5, grip: 0.1 },
+  cornering: { grip: 1, weight: 0.6, aero: 0.5, power: 0.1 },
+  balanced: { power: 0.5, grip: 0.5, aero: 0.5, weight: 0.5 },
+  style: { power: 0, grip: 0, aero: 0, weight: 0 },
+  target_score: { power: 0.25, grip: 0.25, aero: 0.25, weight: 0.25 },
+};
+
+/** Parts that suit a goal beyond their raw score bonus */
+const GOAL_PART_AFFINITY: Partial<
+  Record<UpgradeGoal, Record<string, Record<string, string>>>
+> = {
+  top_speed: {
+    bodyKit: {
+      racing: "low-drag racing shell",
+      muscle: "big-engine muscle frame",
+    },
+    wheels: { racing: "light racing rims" },
+    spoiler: { ducktail: "downforce without much drag" },
+    exhaust: { racing: "free-flowing racing exhaust" },
+    transmission: { sequential: "lightning-fast sequential shifts" },
+    nitrous: { dual_shot: "a big nitrous hit on the straights" },
+  },
+  cornering: {
+    bodyKit: {
+      drift: "drift kit built for the bends",
+      rally: "rally suspension geometry",
+    },
+    wheels: {
+      racing: "sticky racing rims",
+      offroad: "grippy offroad tread",
+    },
+    spoiler: {
+      gt_wing: "maximum downforce",
+      racing: "strong rear downforce",
+    },
+    tires: { soft: "sticky soft compound" },
+    suspension: { coilover: "stiff, adjustable coilovers" },
+  },
+  style: {
+    wheels: {
+      chrome: "chrome shine",
+      neon: "glowing neon rims",
+      spinner: "classic spinners",
+    },
+    decal: {
+      flames: "flames never go out of style",
+      tribal: "bold tribal lines",
+      checkered: "checkered flag flair",
+    },
+    underglow: {
+      rainbow: "full rainbow glow",
+      purple: "purple glow",
+    },
+    exhaust: { quad: "quad tips", side_exit: "side-exit pipes" },
+    spoiler: { gt_wing: "towering GT wing" },
+    suspension: { air_ride: "show-stopping air ride stance" },
+  },
+};
+
+/** Step used when suggesting stat increases */
+const STAT_STEP = 15;
+
+/** Score bonus tables, by field, so part rationales can cite them */
+const PART_BONUS_TABLES: Record<
+  string,
+  Readonly<Record<string, number>>
+> = Object.fromEntries(
+  PART_CATEGORY_NAMES.flatMap((category) => {
+    const table = partBonusTable(category);
+    return Object.keys(table).length > 0 ? [[category, table]] : [];
+  }),
+);
+
+const PART_LABELS: Record<string, string> = mapPartCategories(
+  (category) => PART_CATEGORIES[category].label,
+);
+
+/**
+ * Suggest upgrades for a car, best first
+ * @param car - Current car configuration
+ * @param goal - What to improve
+ * @param targetScore - Score to reach (target_score goal only)
+ * @param driver - Driver whose persona adjustments the scores include
+ */
+export function suggestUpgrades(
+  car: CarConfig,
+  goal: UpgradeGoal,
+  targetScore?: number,
+  driver?: DriverProfile,
+): UpgradeSuggestion[] {
+  if (goal === "target_score" && targetScore === undefined) {
+    throw new Error("targetScore is required for the target_score goal");
+  }
+
+  const scoreBefore = calculatePerformanceScore(car, driver);
+  const ranked: { suggestion: UpgradeSuggestion; fit: number }[] = [];
+
+  // Part swaps
+  const partFields = new Set([
+    ...Object.keys(PART_BONUS_TABLES),
+    ...Object.keys(GOAL_PART_AFFINITY[goal] ?? {}),
+  ]);
+
+  for (const field of partFields) {
+    const bonusTable = PART_BONUS_TABLES[field];
+    const affinity = GOAL_PART_AFFINITY[goal]?.[field] ?? {};
+    const current = car[field as keyof CarConfig] as string | undefined;
+    const options = new Set([
+      ...Object.keys(bonusTable ?? {}),
+      ...Object.keys(affinity),
+    ]);
+
+    for (const option of options) {
+      if (option === current) {
+        continue;
+      }
+
+      const changes = { [field]: option } as CarConfigUpdate;
+      const scoreAfter = calculatePerformanceScore(
+        applyCarConfigUpdate(car, changes),
+        driver,
+      );
+      const scoreDelta = scoreAfter - scoreBefore;
+
+      const rationale = [
+        bonusTable
+          ? `${capitalize(option)} (${PART_LABELS[field]}) earns +${bonusTable[option]} from the ${PART_LABELS[field]} bonus table (currently ${current ?? "none"}: +${bonusTable[current ?? ""] ?? 0})`
+          : `${capitalize(option)} (${PART_LABELS[field]}) is cosmetic and does not change the score`,
+        affinity[option] ? `${affinity[option]} suits ${goalLabel(goal)}` : "",
+      ]
+        .filter(Boolean)
+        .join("; ");
+
+      const fit =
+        goal === "style"
+          ? (affinity[option] ? 10 : 0) + scoreDelta * 0.1
+          : scoreDelta + (affinity[option] ? 4 : 0);
+
+      ranked.push({
+        suggestion: {
+          id: `${field}:${option}`,
+          field,
+          from: current,
+          to: option,
+          changes,
+          scoreBefore,
+          scoreAfter,
+          scoreDelta,
+          rationale,
+        },
+        fit,
+      });
+    }
+  }
+
+  // Stat increases
+  if (goal !== "style") {
+    const weights = GOAL_STAT_WEIGHTS[goal];
+
+    for (const stat of Object.keys(weights) as PerformanceStat[]) {
+      const from = car.performance[stat];
+      const to = Math.min(100, from + STAT_STEP);
+
+      if (to === from || weights[stat] === 0) {
+        continue;
+      }
+
+      const changes: CarConfigUpdate = { performance: { [stat]: to } };
+      const scoreAfter = calculatePerformanceScore(
+        applyCarConfigUpdate(car, changes),
+        driver,
+      );
+      const scoreDelta = scoreAfter - scoreBefore;
+
+      ranked.push({
+        suggestion: {
+          id: `performance.${stat}:${to}`,
+          field: `performance.${stat}`,
+          from,
+          to,
+          changes,
+          scoreBefore,
+          scoreAfter,
+          scoreDelta,
+          rationale: `Raising ${stat} from ${from} to ${to} adds ${((to - from) / 4).toFixed(2)} to the base stat average${weights[stat] >= 0.5 ? `; ${stat} is a key stat for ${goalLabel(goal)}` : ""}`,
+        },
+        fit: (to - from) * weights[stat] * 0.5 + scoreDelta,
+      });
+    }
+  }
+
+  if (goal === "target_score") {
+    return rankForTarget(ranked, scoreBefore, targetScore!);
+  }
+
+  return ranked
+    .filter(({ fit }) => fit > 0)
+    .sort((a, b) => b.fit - a.fit)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * Prefer the smallest change that reaches the target, then the largest gains
+ */
+function rankForTarget(
+  ranked: { suggestion: UpgradeSuggestion }[],
+  scoreBefore: number,
+  targetScore: number,
+): UpgradeSuggestion[] {
+  if (scoreBefore >= targetScore) {
+    return [];
+  }
+
+  const improving = ranked
+    .map(({ suggestion }) => suggestion)
+    .filter((s) => s.scoreDelta > 0);
+
+  const reaching = improving
+    .filter((s) => s.scoreAfter >= targetScore)
+    .sort((a, b) => a.scoreDelta - b.scoreDelta);
+
+  const partial = improving
+    .filter((s) => s.scoreAfter < targetScore)
+    .sort((a, b) => b.scoreDelta - a.scoreDelta);
+
+  return [...reaching, ...partial];
+}
+
+function goalLabel(goal: UpgradeGoal): string {
+  return goal.replace("_", " ");
+}
+
+function capitalize(value: string): string {
+  const label = value.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -6,7 +6,7 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { createTextResult } from "./lib/utils.ts";
+import { createSvgResult, createTextResult } from "./lib/utils.ts";
 import { createErrorResult } from "./lib/errors.ts";
 import { logger } from "./logger.ts";
 import { getConfig } from "./config.ts";
@@ -18,21 +18,85 @@ import {
   updateDriverProfile,
   saveBuild,
   loadBuild,
+  renameBuild,
+  duplicateBuild,
   listBuilds,
+  searchSavedBuilds,
+  tagBuild,
   deleteBuild,
   getBuildDetails,
+  randomizeBuild,
+  suggestBuildUpgrades,
+  undoBuildChange,
+  redoBuildChange,
+  listBuildRevisions,
+  restoreRevision,
+  compareBuilds,
+  exportBuildCode,
+  importBuildCode,
+  setBuildClass,
+  listDecalLayers,
+  addDecalLayer,
+  removeDecalLayer,
+  setDecalSponsor,
+  validateBuild,
+  getPriceQuote,
 } from "./tools/builds.ts";
+import { getWallet } from "./tools/wallet.ts";
+import {
+  getCustomizationOptions,
+  getInventory,
+  purchaseUnlock,
+  listAchievements,
+  getMyBadges,
+} from "./tools/inventory.ts";
+import { simulateRaceForUser } from "./tools/race.ts";
+import { getLeaderboard, submitResult } from "./tools/leaderboard.ts";
+import { generateLivery, scoreBuildLivery } from "./tools/livery.ts";
+import { getBuildPreview } from "./tools/preview.ts";
+import {
+  createGarage,
+  listGarages,
+  inviteToGarage,
+  joinGarage,
+  setGarageRole,
+  removeGarageMember,
+  InvitableRoleSchema,
+} from "./tools/garages.ts";
+import {
+  shareBuild,
+  revokeShare,
+  listSharedWithMe,
+  getSharedBuild,
+  forkSharedBuild,
+} from "./tools/sharing.ts";
 import {
   PERSONA_PERKS,
-  ColorSchema,
-  WheelTypeSchema,
-  BodyKitSchema,
-  DecalSchema,
-  SpoilerSchema,
-  ExhaustSchema,
-  UnderglowSchema,
+  PERSONA_MODIFIERS,
   DriverPersonaSchema,
+  BuildTagSchema,
+  MAX_BUILD_TAGS,
+  PaintColorSchema,
+  CarConfigUpdateSchema,
+  DriverProfileUpdateSchema,
+  CarClassSchema,
+  type DecalLayerInput,
+  DecalShapeSchema,
+  MAX_DECAL_LAYERS,
+  MAX_DECAL_TEXT_LENGTH,
 } from "./domain/models.ts";
+import { CAR_CLASSES } from "./domain/classes.ts";
+import { BuildSortSchema, PartFilterSchema } from "./domain/search.ts";
+import { LockablePartSchema } from "./domain/unlocks.ts";
+import {
+  TrackIdSchema,
+  calculateTrackScore,
+  listTracks,
+} from "./domain/tracks.ts";
+import { MAX_AI_OPPONENTS } from "./domain/race.ts";
+import { BuildThemeSchema, LockableFieldSchema } from "./domain/randomize.ts";
+import { UpgradeGoalSchema } from "./domain/upgrades.ts";
+import { ColorHarmonySchema, LiveryMoodSchema } from "./domain/livery.ts";
 
 // Initialize KV storage
 let kv: KV;
@@ -82,137 +146,1454 @@ const getServer = (req: express.Request) => {
     "update_car_config",
     {
       title: "Update Car Configuration",
-      description: "Update car attributes like color, wheels, bodyKit, etc.",
+      description:
+        "Update car attributes like color (named, hex or RGB), paint finish, wheels, bodyKit, tires, suspension, transmission, nitrous, etc. Charges your wallet for new parts and stat points and refunds part of the price of replaced ones (use get_price_quote first). Refuses incompatible part combinations and returns warnings for soft conflicts",
+      inputSchema: CarConfigUpdateSchema.shape,
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: updateCarConfig", {
+          userId: identity.userId,
+          updates: args,
+        });
+        const result = await updateCarConfig(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in updateCarConfig", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Update driver profile
+  server.registerTool(
+    "update_driver_profile",
+    {
+      title: "Update Driver Profile",
+      description: "Set driver persona and nickname",
       inputSchema: {
-        color: z
+        persona: z
           .enum([
-            "red",
-            "blue",
-            "green",
-            "yellow",
-            "orange",
-            "purple",
-            "pink",
-            "black",
-            "white",
-            "silver",
-            "gold",
-            "cyan",
-            "magenta",
-            "lime",
+            "CoolCalmCollected",
+            "RoadRage",
+            "SpeedDemon",
+            "Cautious",
+            "ShowOff",
+            "Tactical",
+            "Wildcard",
           ])
           .optional()
-          .describe("Primary color of the car"),
-        secondaryColor: z
-          .enum([
-            "red",
-            "blue",
-            "green",
-            "yellow",
-            "orange",
-            "purple",
-            "pink",
-            "black",
-            "white",
-            "silver",
-            "gold",
-            "cyan",
-            "magenta",
-            "lime",
-          ])
+          .describe("Driver personality and racing style"),
+        nickname: z
+          .string()
+          .min(1)
+          .max(50)
           .optional()
-          .describe("Secondary/accent color"),
-        wheels: z
-          .enum([
-            "stock",
-            "sport",
-            "racing",
-            "offroad",
-            "chrome",
-            "neon",
-            "spinner",
-          ])
+          .describe("Driver nickname"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: updateDriverProfile", {
+          userId: identity.userId,
+          updates: args,
+        });
+        const build = await updateDriverProfile(kv, identity, args);
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in updateDriverProfile", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Randomize build
+  server.registerTool(
+    "randomize_build",
+    {
+      title: "Randomize Car Build",
+      description:
+        "Generate a random car and driver, optionally following a style theme. Locked fields keep their current values. Applying the build is charged like update_car_config; use preview to see the result and its price without changing the active build.",
+      inputSchema: {
+        theme: BuildThemeSchema.optional().describe(
+          "Style theme (street_racer, luxury_cruiser, rally_beast, drift_king, muscle_classic, neon_night)",
+        ),
+        locked: z
+          .array(LockableFieldSchema)
           .optional()
-          .describe("Wheel type"),
-        bodyKit: z
-          .enum([
-            "stock",
-            "sport",
-            "racing",
-            "drift",
-            "luxury",
-            "rally",
-            "muscle",
-          ])
+          .describe("Fields that must keep their current values"),
+        seed: z
+          .number()
+          .int()
+          .min(0)
           .optional()
-          .describe("Body kit style"),
-        decal: z
-          .enum([
-            "none",
-            "racing_stripes",
-            "flames",
-            "tribal",
-            "camo",
-            "carbon_fiber",
-            "checkered",
-            "sponsor",
-            "custom",
-          ])
+          .describe(
+            "Random seed for a reproducible build (generated if not provided)",
+          ),
+        preview: z
+          .boolean()
+          .optional()
+          .describe(
+            "Return the build without saving it to the active build (default: false)",
+          ),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: randomizeBuild", {
+          userId: identity.userId,
+          theme: args.theme,
+          seed: args.seed,
+        });
+        const result = await randomizeBuild(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in randomizeBuild", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Suggest upgrades
+  server.registerTool(
+    "suggest_upgrades",
+    {
+      title: "Suggest Upgrades",
+      description:
+        "Recommend ranked part and stat changes for the active build toward a goal (top speed, cornering, style, balanced or a target performance score), with the performance score delta and rationale for each. Optionally apply the top suggestion, charged like update_car_config.",
+      inputSchema: {
+        goal: UpgradeGoalSchema.describe(
+          "What to improve (top_speed, cornering, style, balanced, target_score)",
+        ),
+        targetScore: z
+          .number()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe("Performance score to reach (target_score goal only)"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .describe("Maximum number of suggestions to return (default: 5)"),
+        applyTop: z
+          .boolean()
+          .optional()
+          .describe(
+            "Apply the top suggestion to the active build (default: false)",
+          ),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: suggestUpgrades", {
+          userId: identity.userId,
+          goal: args.goal,
+        });
+        const result = await suggestBuildUpgrades(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in suggestUpgrades", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Set build class
+  server.registerTool(
+    "set_build_class",
+    {
+      title: "Set Build Class",
+      description:
+        "Hold the active build to a car class (D, C, B, A, S or Unlimited). Each class caps the total stat points and the allowed parts; later changes that break the class are rejected",
+      inputSchema: {
+        carClass: CarClassSchema.describe("Class to hold the build to"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: setBuildClass", {
+          userId: identity.userId,
+          carClass: args.carClass,
+        });
+        const build = await setBuildClass(kv, identity, args.carClass);
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in setBuildClass", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: List decal layers
+  server.registerTool(
+    "list_decal_layers",
+    {
+      title: "List Decal Layers",
+      description:
+        "List the shape and text layers and the sponsor badge of a build's custom decal, bottom to top, with the index of each layer",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        buildId: z
+          .string()
+          .optional()
+          .describe("ID of the build to list (defaults to active build)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: listDecalLayers", {
+          userId: identity.userId,
+          buildId: args.buildId,
+        });
+        const result = await listDecalLayers(kv, identity, args.buildId);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in listDecalLayers", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Add decal layer
+  server.registerTool(
+    "add_decal_layer",
+    {
+      title: "Add Decal Layer",
+      description: `Add a shape or text layer to the active build's custom decal (the build must use the "custom" decal). Positions and shape sizes are percentages of the car's side view, 0,0 being the top left. Up to ${MAX_DECAL_LAYERS} layers; text is limited to ${MAX_DECAL_TEXT_LENGTH} characters and blocked words are refused`,
+      inputSchema: {
+        type: z.enum(["shape", "text"]).describe("Kind of layer"),
+        shape: DecalShapeSchema.optional().describe(
+          "Shape to draw (rect, circle, triangle, star, stripe); required for shape layers",
+        ),
+        text: z
+          .string()
+          .optional()
+          .describe("Text to draw; required for text layers"),
+        x: z.number().min(0).max(100).describe("Center x (0-100)"),
+        y: z.number().min(0).max(100).describe("Center y (0-100)"),
+        width: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Shape width (1-100, default 20; ignored by stripes)"),
+        height: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Shape height (1-100, default 20)"),
+        size: z
+          .number()
+          .min(6)
+          .max(40)
+          .optional()
+          .describe("Text size in pixels (6-40, default 14)"),
+        rotation: z
+          .number()
+          .min(-180)
+          .max(180)
+          .optional()
+          .describe("Rotation in degrees (default 0)"),
+        color: PaintColorSchema.describe(
+          "Layer color: a named color, a hex value or rgb(r, g, b)",
+        ),
+        index: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Position in the stack, 0 being the bottom (defaults to the top)",
+          ),
+      },
+    },
+    async ({ index, ...layer }) => {
+      try {
+        logger.info("Tool executed: addDecalLayer", {
+          userId: identity.userId,
+          layer,
+          index,
+        });
+        const result = await addDecalLayer(
+          kv,
+          identity,
+          layer as DecalLayerInput,
+          index,
+        );
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in addDecalLayer", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Remove decal layer
+  server.registerTool(
+    "remove_decal_layer",
+    {
+      title: "Remove Decal Layer",
+      description:
+        "Remove a layer from the active build's custom decal by its index (see list_decal_layers)",
+      inputSchema: {
+        index: z.number().int().min(0).describe("Index of the layer to remove"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: removeDecalLayer", {
+          userId: identity.userId,
+          index: args.index,
+        });
+        const result = await removeDecalLayer(kv, identity, args.index);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in removeDecalLayer", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Set decal sponsor
+  server.registerTool(
+    "set_decal_sponsor",
+    {
+      title: "Set Decal Sponsor",
+      description: `Put a sponsor badge on the active build's custom decal, or remove it when no sponsor is given. Names are limited to ${MAX_DECAL_TEXT_LENGTH} characters and blocked words are refused`,
+      inputSchema: {
+        sponsor: z
+          .string()
+          .optional()
+          .describe("Sponsor name (omit to remove the badge)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: setDecalSponsor", {
+          userId: identity.userId,
+          sponsor: args.sponsor,
+        });
+        const result = await setDecalSponsor(kv, identity, args.sponsor);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in setDecalSponsor", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Get wallet
+  server.registerTool(
+    "get_wallet",
+    {
+      title: "Get Wallet",
+      description:
+        "Get your credit balance and recent transactions. Opening the wallet pays the daily grant when one is due",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: getWallet", { userId: identity.userId });
+        const wallet = await getWallet(kv, identity);
+        return createTextResult(wallet);
+      } catch (error) {
+        logger.error("Error in getWallet", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Get price quote
+  server.registerTool(
+    "get_price_quote",
+    {
+      title: "Get Price Quote",
+      description:
+        "Price a car configuration change to the active build without applying it. Takes the same fields as update_car_config and returns a line-by-line cost and refund breakdown, the net total and whether your wallet can afford it",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: CarConfigUpdateSchema.shape,
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: getPriceQuote", {
+          userId: identity.userId,
+          updates: args,
+        });
+        const quote = await getPriceQuote(kv, identity, args);
+        return createTextResult(quote);
+      } catch (error) {
+        logger.error("Error in getPriceQuote", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Get inventory
+  server.registerTool(
+    "get_inventory",
+    {
+      title: "Get Inventory",
+      description:
+        "Get your progression: XP, earned badges and purchased parts. These unlock locked part options (see get_customization_options)",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: getInventory", {
+          userId: identity.userId,
+        });
+        const inventory = await getInventory(kv, identity);
+        return createTextResult(inventory);
+      } catch (error) {
+        logger.error("Error in getInventory", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Unlock part
+  server.registerTool(
+    "unlock_part",
+    {
+      title: "Unlock Part",
+      description:
+        "Buy a locked part option with credits from your wallet. Only options with a purchase requirement can be bought; others unlock through XP or achievements",
+      inputSchema: {
+        part: LockablePartSchema.describe("Part category"),
+        option: z.string().describe("Option to unlock, e.g. spinner"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: unlockPart", {
+          userId: identity.userId,
+          part: args.part,
+          option: args.option,
+        });
+        const result = await purchaseUnlock(
+          kv,
+          identity,
+          args.part,
+          args.option,
+        );
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in unlockPart", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: List achievements
+  server.registerTool(
+    "list_achievements",
+    {
+      title: "List Achievements",
+      description:
+        "List every achievement with what earns it, whether you have earned it and the part options it unlocks",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: listAchievements", {
+          userId: identity.userId,
+        });
+        const result = await listAchievements(kv, identity);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in listAchievements", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Get my badges
+  server.registerTool(
+    "get_my_badges",
+    {
+      title: "Get My Badges",
+      description: "List the achievements you have earned, newest first",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: getMyBadges", { userId: identity.userId });
+        const result = await getMyBadges(kv, identity);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in getMyBadges", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Generate livery
+  server.registerTool(
+    "generate_livery",
+    {
+      title: "Generate Livery",
+      description:
+        "Propose named livery combinations (primary and secondary color, decal and underglow) using color-harmony rules, and score the active build's current livery",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        baseColor: PaintColorSchema.optional().describe(
+          "Primary color to build around: a named color, a hex value or rgb(r, g, b); custom colors use their nearest named color (defaults to the active build's color)",
+        ),
+        harmony: ColorHarmonySchema.optional().describe(
+          "Only propose this harmony (complementary, analogous, triadic, monochrome, accent)",
+        ),
+        mood: LiveryMoodSchema.optional().describe(
+          "Mood keyword that steers decal and underglow (aggressive, elegant, playful, stealth, retro, sporty)",
+        ),
+        count: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .optional()
+          .describe("Number of liveries to propose (default: 4)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: generateLivery", {
+          userId: identity.userId,
+          baseColor: args.baseColor,
+          mood: args.mood,
+        });
+        const result = await generateLivery(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in generateLivery", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Score livery
+  server.registerTool(
+    "score_livery",
+    {
+      title: "Score Livery",
+      description:
+        "Score a build's colors, decal and underglow for visual coherence",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        buildId: z
+          .string()
+          .optional()
+          .describe("ID of the build (defaults to active build)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: scoreLivery", {
+          userId: identity.userId,
+          buildId: args.buildId,
+        });
+        const result = await scoreBuildLivery(kv, identity, args.buildId);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in scoreLivery", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Save build
+  server.registerTool(
+    "save_build",
+    {
+      title: "Save Car Build",
+      description:
+        'Save the current car build configuration under a specific name. Refuses if a build already has the name, unless overwrite is set with the version of that build you last read (from list_builds or search_builds), so concurrent sessions can\'t replace each other\'s changes. Names that map to the same ID (like "Red Devil" and "red-devil") get distinct IDs',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe("Name for the saved build"),
+        overwrite: z
+          .boolean()
+          .optional()
+          .describe("Replace the saved build with the same name"),
+        expectedVersion: z
+          .number()
+          .int()
+          .optional()
+          .describe(
+            "Version of the build being overwritten as you last read it (required with overwrite)",
+          ),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage to save into (requires editor role)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: saveBuild", {
+          userId: identity.userId,
+          name: args.name,
+          overwrite: args.overwrite,
+          garageId: args.garageId,
+        });
+        const build = await saveBuild(kv, identity, args.name, args);
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in saveBuild", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Rename build
+  server.registerTool(
+    "rename_build",
+    {
+      title: "Rename Car Build",
+      description:
+        "Rename a saved build. The build keeps its ID, so shares and links to it keep working",
+      inputSchema: {
+        buildId: z.string().describe("ID of the saved build"),
+        name: z.string().min(1).max(100).describe("New name"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage the build is in (requires editor role)"),
+      },
+    },
+    async ({ buildId, name, garageId }) => {
+      try {
+        logger.info("Tool executed: renameBuild", {
+          userId: identity.userId,
+          buildId,
+          name,
+          garageId,
+        });
+        const build = await renameBuild(kv, identity, buildId, name, {
+          garageId,
+        });
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in renameBuild", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Duplicate build
+  server.registerTool(
+    "duplicate_build",
+    {
+      title: "Duplicate Car Build",
+      description:
+        "Save a copy of a saved build under a new name in the same garage, without changing the active build",
+      inputSchema: {
+        buildId: z.string().describe("ID of the saved build to copy"),
+        name: z.string().min(1).max(100).describe("Name for the copy"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage the build is in (requires editor role)"),
+      },
+    },
+    async ({ buildId, name, garageId }) => {
+      try {
+        logger.info("Tool executed: duplicateBuild", {
+          userId: identity.userId,
+          buildId,
+          name,
+          garageId,
+        });
+        const build = await duplicateBuild(kv, identity, buildId, name, {
+          garageId,
+        });
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in duplicateBuild", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Load build
+  server.registerTool(
+    "load_build",
+    {
+      title: "Load Car Build",
+      description:
+        "Load a saved car build and make it the active build. Swapping parts is charged to your wallet like update_car_config",
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        buildId: z
+          .string()
+          .optional()
+          .describe("ID of the build to load (not needed with linkToken)"),
+        ownerId: z
+          .string()
+          .optional()
+          .describe(
+            "Owner of a build shared with you; the build is forked into your garage",
+          ),
+        linkToken: z
+          .string()
+          .optional()
+          .describe(
+            "Token from a public share link; the build is forked into your garage",
+          ),
+        saveAs: z
+          .string()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe(
+            "Name for the forked copy of a shared build (defaults to its original name)",
+          ),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage to load from (requires viewer role)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: loadBuild", {
+          userId: identity.userId,
+          buildId: args.buildId,
+          ownerId: args.ownerId,
+          garageId: args.garageId,
+        });
+        if (args.ownerId || args.linkToken) {
+          const build = await forkSharedBuild(kv, identity, args, args.saveAs);
+          return createTextResult(build);
+        }
+        if (!args.buildId) {
+          throw new Error("buildId is required");
+        }
+        const build = await loadBuild(kv, identity, args.buildId, args);
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in loadBuild", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: List builds
+  server.registerTool(
+    "list_builds",
+    {
+      title: "List Car Builds",
+      description:
+        "List all saved car builds for the user with their tags, class, color, persona and performance score (use search_builds to filter and sort)",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        limit: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum number of builds to return (default: 50)"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("Pagination cursor from previous response"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage to list (requires viewer role)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: listBuilds", {
+          userId: identity.userId,
+          garageId: args.garageId,
+        });
+        const result = await listBuilds(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in listBuilds", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Search builds
+  server.registerTool(
+    "search_builds",
+    {
+      title: "Search Car Builds",
+      description:
+        "Search saved builds by tag, name, persona, part values and performance score range, sorted by name, last update or score. All filters are optional and must all match",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        tags: z
+          .array(BuildTagSchema)
+          .optional()
+          .describe("Only builds with every one of these tags"),
+        name: z
+          .string()
+          .optional()
+          .describe("Text the build name contains (case-insensitive)"),
+        persona: DriverPersonaSchema.optional().describe("Driver persona"),
+        parts: PartFilterSchema.optional().describe(
+          'Part values the build must have, e.g. { "wheels": "racing" }',
+        ),
+        minScore: z
+          .number()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe("Lowest performance score"),
+        maxScore: z
+          .number()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe("Highest performance score"),
+        sortBy: BuildSortSchema.optional().describe(
+          "Sort by name, updatedAt or score (default: updatedAt)",
+        ),
+        order: z
+          .enum(["asc", "desc"])
+          .optional()
+          .describe(
+            "Sort order (default: A-Z for name, newest or highest first otherwise)",
+          ),
+        limit: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum number of builds to return (default: 50)"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage to search (requires viewer role)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: searchBuilds", {
+          userId: identity.userId,
+          garageId: args.garageId,
+        });
+        const result = await searchSavedBuilds(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in searchBuilds", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Tag build
+  server.registerTool(
+    "tag_build",
+    {
+      title: "Tag Car Build",
+      description: `Add or remove tags on a saved build (up to ${MAX_BUILD_TAGS} tags; letters, digits, spaces, _ and -, stored lowercase)`,
+      inputSchema: {
+        buildId: z.string().describe("ID of the saved build"),
+        add: z.array(BuildTagSchema).optional().describe("Tags to add"),
+        remove: z.array(BuildTagSchema).optional().describe("Tags to remove"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage the build is in (requires editor role)"),
+      },
+    },
+    async ({ buildId, add, remove, garageId }) => {
+      try {
+        logger.info("Tool executed: tagBuild", {
+          userId: identity.userId,
+          buildId,
+          add,
+          remove,
+          garageId,
+        });
+        const result = await tagBuild(
+          kv,
+          identity,
+          buildId,
+          { add, remove },
+          { garageId },
+        );
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in tagBuild", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Delete build
+  server.registerTool(
+    "delete_build",
+    {
+      title: "Delete Car Build",
+      description: "Delete a saved car build (cannot delete active build)",
+      inputSchema: {
+        buildId: z.string().describe("ID of the build to delete"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage to delete from (requires editor role)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: deleteBuild", {
+          userId: identity.userId,
+          buildId: args.buildId,
+          garageId: args.garageId,
+        });
+        const deleted = await deleteBuild(kv, identity, args.buildId, args);
+        return createTextResult({ deleted, buildId: args.buildId });
+      } catch (error) {
+        logger.error("Error in deleteBuild", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Undo
+  server.registerTool(
+    "undo",
+    {
+      title: "Undo Build Change",
+      description:
+        "Undo the last change to the active build. Parts are bought and sold back like update_car_config",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: undo", { userId: identity.userId });
+        const result = await undoBuildChange(kv, identity);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in undo", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Redo
+  server.registerTool(
+    "redo",
+    {
+      title: "Redo Build Change",
+      description:
+        "Redo the last undone change to the active build. Parts are bought and sold back like update_car_config",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: redo", { userId: identity.userId });
+        const result = await redoBuildChange(kv, identity);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in redo", { error, userId: identity.userId });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: List revisions
+  server.registerTool(
+    "list_revisions",
+    {
+      title: "List Build Revisions",
+      description:
+        "List the revision history of the active build with timestamps, the tool that made each change and a summary of what changed",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum number of revisions to return (default: 20)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: listRevisions", {
+          userId: identity.userId,
+        });
+        const result = await listBuildRevisions(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in listRevisions", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Restore revision
+  server.registerTool(
+    "restore_revision",
+    {
+      title: "Restore Build Revision",
+      description:
+        "Restore the active build to an earlier revision (recorded as a new revision, so it can be undone). Parts are bought and sold back like update_car_config",
+      inputSchema: {
+        revisionId: z
+          .number()
+          .int()
+          .describe("ID of the revision to restore (from list_revisions)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: restoreRevision", {
+          userId: identity.userId,
+          revisionId: args.revisionId,
+        });
+        const build = await restoreRevision(kv, identity, args.revisionId);
+        return createTextResult(build);
+      } catch (error) {
+        logger.error("Error in restoreRevision", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Get build details
+  server.registerTool(
+    "get_build_details",
+    {
+      title: "Get Car Build Details",
+      description:
+        "Get detailed information about a car build including performance score",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        buildId: z
+          .string()
+          .optional()
+          .describe("ID of the build (defaults to active build)"),
+        ownerId: z
+          .string()
+          .optional()
+          .describe("Owner of a build shared with you"),
+        linkToken: z
+          .string()
+          .optional()
+          .describe("Token from a public share link"),
+        trackId: TrackIdSchema.optional().describe(
+          "Also score the build on this track, with a per-track breakdown",
+        ),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: getBuildDetails", {
+          userId: identity.userId,
+          buildId: args.buildId,
+          ownerId: args.ownerId,
+        });
+        const details =
+          args.ownerId || args.linkToken
+            ? await getSharedBuild(kv, identity, args)
+            : await getBuildDetails(kv, identity, args.buildId);
+        return createTextResult(
+          args.trackId
+            ? {
+                ...details,
+                trackScore: calculateTrackScore(details.car, args.trackId),
+              }
+            : details,
+        );
+      } catch (error) {
+        logger.error("Error in getBuildDetails", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Validate build
+  server.registerTool(
+    "validate_build",
+    {
+      title: "Validate Build",
+      description:
+        "Audit a build against the part compatibility rules, listing conflicts (errors), soft conflicts (warnings) and recommended pairings (info)",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        buildId: z
+          .string()
+          .optional()
+          .describe("ID of the build (defaults to active build)"),
+        garageId: z
+          .string()
+          .optional()
+          .describe("Team garage holding the build (requires viewer role)"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: validateBuild", {
+          userId: identity.userId,
+          buildId: args.buildId,
+        });
+        const result = await validateBuild(kv, identity, args.buildId, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in validateBuild", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Create garage
+  server.registerTool(
+    "create_garage",
+    {
+      title: "Create Team Garage",
+      description:
+        "Create a team garage for sharing builds with your racing team. You become its owner",
+      inputSchema: {
+        name: z.string().min(1).max(100).describe("Name of the garage"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: createGarage", {
+          userId: identity.userId,
+          name: args.name,
+        });
+        const garage = await createGarage(kv, identity, args.name);
+        return createTextResult(garage);
+      } catch (error) {
+        logger.error("Error in createGarage", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: List garages
+  server.registerTool(
+    "list_garages",
+    {
+      title: "List Team Garages",
+      description:
+        "List the team garages you belong to, with your role in each, and pending invitations to your email",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: listGarages", {
+          userId: identity.userId,
+        });
+        const result = await listGarages(kv, identity);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in listGarages", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Invite to garage
+  server.registerTool(
+    "invite_to_garage",
+    {
+      title: "Invite To Team Garage",
+      description:
+        "Invite someone to a team garage by email as an editor or viewer (owner only)",
+      inputSchema: {
+        garageId: z.string().describe("ID of the garage"),
+        email: z.string().email().describe("Email address to invite"),
+        role: InvitableRoleSchema.describe(
+          "Role to grant: editor (save and delete builds) or viewer (list and load builds)",
+        ),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: inviteToGarage", {
+          userId: identity.userId,
+          garageId: args.garageId,
+        });
+        const garage = await inviteToGarage(
+          kv,
+          identity,
+          args.garageId,
+          args.email,
+          args.role,
+        );
+        return createTextResult(garage);
+      } catch (error) {
+        logger.error("Error in inviteToGarage", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Join garage
+  server.registerTool(
+    "join_garage",
+    {
+      title: "Join Team Garage",
+      description: "Accept an invitation to a team garage sent to your email",
+      inputSchema: {
+        garageId: z.string().describe("ID of the garage"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: joinGarage", {
+          userId: identity.userId,
+          garageId: args.garageId,
+        });
+        const garage = await joinGarage(kv, identity, args.garageId);
+        return createTextResult(garage);
+      } catch (error) {
+        logger.error("Error in joinGarage", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Set garage role
+  server.registerTool(
+    "set_garage_role",
+    {
+      title: "Set Team Garage Role",
+      description: "Change a member's role in a team garage (owner only)",
+      inputSchema: {
+        garageId: z.string().describe("ID of the garage"),
+        userId: z.string().describe("User ID of the member"),
+        role: InvitableRoleSchema.describe("New role: editor or viewer"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: setGarageRole", {
+          userId: identity.userId,
+          garageId: args.garageId,
+        });
+        const garage = await setGarageRole(
+          kv,
+          identity,
+          args.garageId,
+          args.userId,
+          args.role,
+        );
+        return createTextResult(garage);
+      } catch (error) {
+        logger.error("Error in setGarageRole", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Remove garage member
+  server.registerTool(
+    "remove_garage_member",
+    {
+      title: "Remove Team Garage Member",
+      description:
+        "Remove a member from a team garage (owner only), or leave a garage by omitting userId",
+      inputSchema: {
+        garageId: z.string().describe("ID of the garage"),
+        userId: z
+          .string()
+          .optional()
+          .describe(
+            "User ID of the member to remove (omit to leave the garage)",
+          ),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: removeGarageMember", {
+          userId: identity.userId,
+          garageId: args.garageId,
+        });
+        const garage = await removeGarageMember(
+          kv,
+          identity,
+          args.garageId,
+          args.userId,
+        );
+        return createTextResult(garage);
+      } catch (error) {
+        logger.error("Error in removeGarageMember", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Share build
+  server.registerTool(
+    "share_build",
+    {
+      title: "Share Car Build",
+      description:
+        "Give another user (by user ID or email) or anyone with a public link read-only access to one of your saved builds",
+      inputSchema: {
+        buildId: z.string().describe("ID of the saved build to share"),
+        userId: z.string().optional().describe("User ID to share with"),
+        email: z.string().email().optional().describe("Email to share with"),
+        link: z
+          .boolean()
           .optional()
-          .describe("Decal/livery style"),
-        spoiler: z
-          .enum(["none", "stock", "sport", "racing", "gt_wing", "ducktail"])
-          .optional()
-          .describe("Spoiler type"),
-        exhaust: z
-          .enum(["stock", "sport", "racing", "dual", "quad", "side_exit"])
-          .optional()
-          .describe("Exhaust system"),
-        underglow: z
-          .enum(["none", "red", "blue", "green", "purple", "rainbow", "white"])
-          .optional()
-          .describe("Underglow lighting"),
-        performance: z
-          .object({
-            power: z
-              .number()
-              .min(0)
-              .max(100)
-              .optional()
-              .describe("Engine power (0-100)"),
-            grip: z
-              .number()
-              .min(0)
-              .max(100)
-              .optional()
-              .describe("Tire grip (0-100)"),
-            aero: z
-              .number()
-              .min(0)
-              .max(100)
-              .optional()
-              .describe("Aerodynamics (0-100)"),
-            weight: z
-              .number()
-              .min(0)
-              .max(100)
-              .optional()
-              .describe("Weight reduction (0-100, higher = lighter)"),
-          })
-          .optional()
-          .describe("Performance characteristics"),
+          .describe(
+            "Create a public link token instead of sharing with a user",
+          ),
       },
     },
     async (args) => {
       try {
-        logger.info("Tool executed: updateCarConfig", {
+        logger.info("Tool executed: shareBuild", {
           userId: identity.userId,
-          updates: args,
+          buildId: args.buildId,
         });
-        const build = await updateCarConfig(kv, identity, args);
-        return createTextResult(build);
+        const result = await shareBuild(kv, identity, args.buildId, args);
+        return createTextResult(result);
       } catch (error) {
-        logger.error("Error in updateCarConfig", {
+        logger.error("Error in shareBuild", {
           error,
           userId: identity.userId,
         });
@@ -221,43 +1602,37 @@ const getServer = (req: express.Request) => {
     },
   );
 
-  // Register tool: Update driver profile
+  // Register tool: Revoke share
   server.registerTool(
-    "update_driver_profile",
+    "revoke_share",
     {
-      title: "Update Driver Profile",
-      description: "Set driver persona and nickname",
+      title: "Revoke Build Share",
+      description:
+        "Revoke access to one of your shared builds, either a single share or all of them",
       inputSchema: {
-        persona: z
-          .enum([
-            "CoolCalmCollected",
-            "RoadRage",
-            "SpeedDemon",
-            "Cautious",
-            "ShowOff",
-            "Tactical",
-            "Wildcard",
-          ])
-          .optional()
-          .describe("Driver personality and racing style"),
-        nickname: z
+        buildId: z.string().describe("ID of the shared build"),
+        shareId: z
           .string()
-          .min(1)
-          .max(50)
           .optional()
-          .describe("Driver nickname"),
+          .describe("ID of the share to revoke (omit to revoke all shares)"),
       },
     },
     async (args) => {
       try {
-        logger.info("Tool executed: updateDriverProfile", {
+        logger.info("Tool executed: revokeShare", {
           userId: identity.userId,
-          updates: args,
+          buildId: args.buildId,
+          shareId: args.shareId,
         });
-        const build = await updateDriverProfile(kv, identity, args);
-        return createTextResult(build);
+        const result = await revokeShare(
+          kv,
+          identity,
+          args.buildId,
+          args.shareId,
+        );
+        return createTextResult(result);
       } catch (error) {
-        logger.error("Error in updateDriverProfile", {
+        logger.error("Error in revokeShare", {
           error,
           userId: identity.userId,
         });
@@ -266,116 +1641,157 @@ const getServer = (req: express.Request) => {
     },
   );
 
-  // Register tool: Save build
+  // Register tool: List shared with me
   server.registerTool(
-    "save_build",
+    "list_shared_with_me",
     {
-      title: "Save Car Build",
+      title: "List Builds Shared With Me",
       description:
-        "Save the current car build configuration under a specific name",
-      inputSchema: {
-        name: z.string().min(1).max(100).describe("Name for the saved build"),
+        "List saved builds other users have shared with you, by user ID or email",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
       },
+      inputSchema: {},
     },
-    async (args) => {
+    async () => {
       try {
-        logger.info("Tool executed: saveBuild", {
+        logger.info("Tool executed: listSharedWithMe", {
           userId: identity.userId,
-          name: args.name,
         });
-        const build = await saveBuild(kv, identity, args.name);
-        return createTextResult(build);
+        const result = await listSharedWithMe(kv, identity);
+        return createTextResult(result);
       } catch (error) {
-        logger.error("Error in saveBuild", { error, userId: identity.userId });
+        logger.error("Error in listSharedWithMe", {
+          error,
+          userId: identity.userId,
+        });
         return createErrorResult(error);
       }
     },
   );
 
-  // Register tool: Load build
+  // Register tool: Export build code
   server.registerTool(
-    "load_build",
+    "export_build_code",
     {
-      title: "Load Car Build",
-      description: "Load a saved car build and make it the active build",
+      title: "Export Build Share Code",
+      description:
+        "Export a build as a compact, URL-safe share code that can be pasted in chat and imported by another user",
       annotations: {
         readOnlyHint: true,
         openWorldHint: true,
       },
       inputSchema: {
-        buildId: z.string().describe("ID of the build to load"),
+        buildId: z
+          .string()
+          .optional()
+          .describe("ID of the build to export (defaults to active build)"),
       },
     },
     async (args) => {
       try {
-        logger.info("Tool executed: loadBuild", {
+        logger.info("Tool executed: exportBuildCode", {
           userId: identity.userId,
           buildId: args.buildId,
         });
-        const build = await loadBuild(kv, identity, args.buildId);
-        return createTextResult(build);
+        const result = await exportBuildCode(kv, identity, args.buildId);
+        return createTextResult(result);
       } catch (error) {
-        logger.error("Error in loadBuild", { error, userId: identity.userId });
+        logger.error("Error in exportBuildCode", {
+          error,
+          userId: identity.userId,
+        });
         return createErrorResult(error);
       }
     },
   );
 
-  // Register tool: List builds
+  // Register tool: Import build code
   server.registerTool(
-    "list_builds",
+    "import_build_code",
     {
-      title: "List Car Builds",
-      description: "List all saved car builds for the user",
-      annotations: {
-        readOnlyHint: true,
-        openWorldHint: true,
-      },
+      title: "Import Build Share Code",
+      description:
+        "Import a build from a share code, loading it as the active build (charged like update_car_config) or saving it under a name",
       inputSchema: {
-        limit: z
-          .number()
+        code: z.string().min(1).describe("Share code (starts with PMR-)"),
+        saveAs: z
+          .string()
           .min(1)
           .max(100)
           .optional()
-          .describe("Maximum number of builds to return (default: 50)"),
-        cursor: z
-          .string()
-          .optional()
-          .describe("Pagination cursor from previous response"),
+          .describe(
+            "Save the imported build under this name instead of loading it as the active build",
+          ),
       },
     },
     async (args) => {
       try {
-        logger.info("Tool executed: listBuilds", { userId: identity.userId });
-        const result = await listBuilds(kv, identity, args);
-        return createTextResult(result);
+        logger.info("Tool executed: importBuildCode", {
+          userId: identity.userId,
+          saveAs: args.saveAs,
+        });
+        const build = await importBuildCode(kv, identity, args.code, {
+          saveAs: args.saveAs,
+        });
+        return createTextResult(build);
       } catch (error) {
-        logger.error("Error in listBuilds", { error, userId: identity.userId });
+        logger.error("Error in importBuildCode", {
+          error,
+          userId: identity.userId,
+        });
         return createErrorResult(error);
       }
     },
   );
 
-  // Register tool: Delete build
+  // Register tool: Compare builds
+  const buildSourceSchema = z
+    .object({
+      buildId: z
+        .string()
+        .optional()
+        .describe("ID of a saved build, or 'active' for the active build"),
+      car: CarConfigUpdateSchema.optional().describe(
+        "Inline car config; overrides fields of buildId, or of the default car when buildId is omitted",
+      ),
+      driver: DriverProfileUpdateSchema.optional().describe(
+        "Inline driver profile; overrides fields like car does",
+      ),
+    })
+    .optional();
+
   server.registerTool(
-    "delete_build",
+    "compare_builds",
     {
-      title: "Delete Car Build",
-      description: "Delete a saved car build (cannot delete active build)",
+      title: "Compare Car Builds",
+      description:
+        "Compare two builds and list changed parts, changed performance stats and the performance score delta. Each side can be the active build, a saved build or an inline config",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
       inputSchema: {
-        buildId: z.string().describe("ID of the build to delete"),
+        from: buildSourceSchema.describe(
+          "Build to compare from (defaults to the active build)",
+        ),
+        to: buildSourceSchema.describe(
+          "Build to compare to (defaults to the active build)",
+        ),
       },
     },
     async (args) => {
       try {
-        logger.info("Tool executed: deleteBuild", {
+        logger.info("Tool executed: compareBuilds", {
           userId: identity.userId,
-          buildId: args.buildId,
+          from: args.from?.buildId,
+          to: args.to?.buildId,
         });
-        const deleted = await deleteBuild(kv, identity, args.buildId);
-        return createTextResult({ deleted, buildId: args.buildId });
+        const result = await compareBuilds(kv, identity, args.from, args.to);
+        return createTextResult(result);
       } catch (error) {
-        logger.error("Error in deleteBuild", {
+        logger.error("Error in compareBuilds", {
           error,
           userId: identity.userId,
         });
@@ -384,13 +1800,13 @@ const getServer = (req: express.Request) => {
     },
   );
 
-  // Register tool: Get build details
+  // Register tool: Preview build
   server.registerTool(
-    "get_build_details",
+    "preview_build",
     {
-      title: "Get Car Build Details",
+      title: "Preview Car Build",
       description:
-        "Get detailed information about a car build including performance score",
+        "Render a side-view SVG image of a car build showing its body kit, wheels, spoiler, exhaust, decal and underglow",
       annotations: {
         readOnlyHint: true,
         openWorldHint: true,
@@ -404,14 +1820,14 @@ const getServer = (req: express.Request) => {
     },
     async (args) => {
       try {
-        logger.info("Tool executed: getBuildDetails", {
+        logger.info("Tool executed: previewBuild", {
           userId: identity.userId,
           buildId: args.buildId,
         });
-        const details = await getBuildDetails(kv, identity, args.buildId);
-        return createTextResult(details);
+        const preview = await getBuildPreview(kv, identity, args.buildId);
+        return createSvgResult(preview.svg, preview.uri);
       } catch (error) {
-        logger.error("Error in getBuildDetails", {
+        logger.error("Error in previewBuild", {
           error,
           userId: identity.userId,
         });
@@ -426,7 +1842,7 @@ const getServer = (req: express.Request) => {
     {
       title: "Get Customization Options",
       description:
-        "Get all available car customization options (colors, wheels, body kits, etc.)",
+        "Get all available car customization options (named colors, custom color formats, paint finishes, wheels, body kits, tuning parts, etc.). Wheels, spoilers, decals and underglows are marked as locked or unlocked for you, with the requirement to unlock them",
       annotations: {
         readOnlyHint: true,
         openWorldHint: true,
@@ -435,20 +1851,19 @@ const getServer = (req: express.Request) => {
     },
     async () => {
       try {
-        logger.info("Tool executed: getCustomizationOptions");
+        logger.info("Tool executed: getCustomizationOptions", {
+          userId: identity.userId,
+        });
         const options = {
-          colors: ColorSchema.options,
-          wheels: WheelTypeSchema.options,
-          bodyKits: BodyKitSchema.options,
-          decals: DecalSchema.options,
-          spoilers: SpoilerSchema.options,
-          exhausts: ExhaustSchema.options,
-          underglows: UnderglowSchema.options,
-          driverPersonas: DriverPersonaSchema.options,
+          ...(await getCustomizationOptions(kv, identity)),
+          carClasses: CAR_CLASSES,
         };
         return createTextResult(options);
       } catch (error) {
-        logger.error("Error in getCustomizationOptions", { error });
+        logger.error("Error in getCustomizationOptions", {
+          error,
+          userId: identity.userId,
+        });
         return createErrorResult(error);
       }
     },
@@ -489,9 +1904,20 @@ const getServer = (req: express.Request) => {
           return createTextResult({
             persona: args.persona,
             ...PERSONA_PERKS[args.persona],
+            modifiers: PERSONA_MODIFIERS[args.persona],
           });
         }
-        return createTextResult(PERSONA_PERKS);
+        return createTextResult(
+          Object.fromEntries(
+            DriverPersonaSchema.options.map((persona) => [
+              persona,
+              {
+                ...PERSONA_PERKS[persona],
+                modifiers: PERSONA_MODIFIERS[persona],
+              },
+            ]),
+          ),
+        );
       } catch (error) {
         logger.error("Error in getPersonaInfo", { error });
         return createErrorResult(error);
@@ -499,6 +1925,185 @@ const getServer = (req: express.Request) => {
     },
   );
 
+  // Register tool: List tracks
+  server.registerTool(
+    "list_tracks",
+    {
+      title: "List Tracks",
+      description:
+        "List race tracks with surface, corner density, longest straight, elevation change, weather and what each track rewards",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info("Tool executed: listTracks", { userId: identity.userId });
+        return createTextResult({ tracks: listTracks() });
+      } catch (error) {
+        logger.error("Error in listTracks", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Simulate race
+  server.registerTool(
+    "simulate_race",
+    {
+      title: "Simulate Race",
+      description:
+        "Race the active build against saved builds and AI opponents. Returns lap times, overtakes, crashes and final positions. The same seed always produces the same race.",
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        trackId: TrackIdSchema.describe("Track to race on"),
+        laps: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .describe("Number of laps (default: 3)"),
+        seed: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Random seed for a reproducible race (generated if not provided)",
+          ),
+        opponents: z
+          .number()
+          .int()
+          .min(0)
+          .max(MAX_AI_OPPONENTS)
+          .optional()
+          .describe(
+            "Number of AI opponents (default: 3; races need at least one to be submitted)",
+          ),
+        buildIds: z
+          .array(z.string())
+          .max(7)
+          .optional()
+          .describe("IDs of saved builds to race against the active build"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: simulateRace", {
+          userId: identity.userId,
+          trackId: args.trackId,
+          seed: args.seed,
+        });
+        const result = await simulateRaceForUser(kv, identity, args);
+        return createTextResult(result);
+      } catch (error) {
+        logger.error("Error in simulateRace", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Submit race result
+  server.registerTool(
+    "submit_result",
+    {
+      title: "Submit Race Result",
+      description:
+        "Submit one of your simulated races to the global, track and persona leaderboards and earn credits and XP for the points scored, scaled by the number of AI opponents. Each race can only be submitted once, races need at least one AI opponent, and only a limited number of races pay out each day.",
+      inputSchema: {
+        raceId: z.string().describe("ID of the race returned by simulate_race"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: submitResult", {
+          userId: identity.userId,
+          raceId: args.raceId,
+        });
+        const outcome = await submitResult(kv, identity, args.raceId);
+        return createTextResult(outcome);
+      } catch (error) {
+        logger.error("Error in submitResult", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
+  // Register tool: Get leaderboard
+  server.registerTool(
+    "get_leaderboard",
+    {
+      title: "Get Leaderboard",
+      description:
+        "Get race rankings for the global, per-track or per-persona leaderboard, ranked by race points or best lap",
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        scope: z
+          .enum(["global", "track", "persona"])
+          .optional()
+          .describe("Which leaderboard to read (default: global)"),
+        trackId: TrackIdSchema.optional().describe(
+          "Track to rank (required for track scope)",
+        ),
+        persona: DriverPersonaSchema.optional().describe(
+          "Persona to rank (required for persona scope)",
+        ),
+        metric: z
+          .enum(["points", "bestLap"])
+          .optional()
+          .describe(
+            "Rank by total race points or best lap (best lap is track scope only, default: points)",
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum number of entries to return (default: 25)"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("Pagination cursor from previous response"),
+      },
+    },
+    async (args) => {
+      try {
+        logger.info("Tool executed: getLeaderboard", {
+          userId: identity.userId,
+          scope: args.scope,
+        });
+        const leaderboard = await getLeaderboard(kv, identity, args);
+        return createTextResult(leaderboard);
+      } catch (error) {
+        logger.error("Error in getLeaderboard", {
+          error,
+          userId: identity.userId,
+        });
+        return createErrorResult(error);
+      }
+    },
+  );
+
   return server;
 };
 
@@ -576,6 +2181,35 @@ const mcpHandler = async (req: express.Request, res: express.Response) => {
 app.post("/mcp", mcpHandler);
 app.get("/mcp", mcpHandler);
 
+// Build preview endpoint (use "active" for the active build)
+app.get("/preview/:buildId", async (req, res) => {
+  const identity = resolveIdentity(req);
+
+  try {
+    const preview = await getBuildPreview(kv, identity, req.params.buildId);
+    res.type("image/svg+xml").send(preview.svg);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : error;
+
+    if (error instanceof Error && error.message.endsWith("not found")) {
+      logger.warn("Preview request failed", {
+        userId: identity.userId,
+        buildId: req.params.buildId,
+        error: message,
+      });
+      res.status(404).json({ error: "Build not found" });
+      return;
+    }
+
+    logger.error("Error rendering build preview", {
+      userId: identity.userId,
+      buildId: req.params.buildId,
+      error: message,
+    });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Healthcheck endpoint
 app.get("/health", async (req, res) => {
   try {
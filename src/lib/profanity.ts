@@ -0,0 +1,50 @@
+/**
+ * Profanity filter for user text shown on builds
+ */
+
+/**
+ * Blocked words; a word is blocked when it starts with one of these after
+ * undoing common letter swaps
+ */
+const BLOCKED_WORDS = [
+  "arsehole",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollock",
+  "cunt",
+  "dickhead",
+  "fuck",
+  "shit",
+  "slut",
+  "twat",
+  "wank",
+  "whore",
+];
+
+/** Digits and symbols commonly swapped in for letters */
+const LETTER_SWAPS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+  "!": "i",
+};
+
+/**
+ * Whether text has a blocked word in it
+ */
+export function containsBlockedWord(text: string): boolean {
+  const words = [...text.toLowerCase()]
+    .map((char) => LETTER_SWAPS[char] ?? char)
+    .join("")
+    .split(/[^a-z]+/);
+
+  return words.some((word) =>
+    BLOCKED_WORDS.some((blocked) => word.startsWith(blocked)),
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Seeded pseudo-random number generation
+ * Used anywhere results must be reproducible from a seed (races, random builds)
+ */
+
+/**
+ * Deterministic random source created from a numeric seed
+ */
+export interface Random {
+  /** The seed this generator was created from */
+  readonly seed: number;
+  /** Next float in [0, 1) */
+  next(): number;
+  /** Float in [min, max) */
+  range(min: number, max: number): number;
+  /** Integer in [min, max] (inclusive) */
+  int(min: number, max: number): number;
+  /** True with the given probability (0-1) */
+  chance(probability: number): boolean;
+  /** Pick a random element from a non-empty array */
+  pick<T>(items: readonly T[]): T;
+}
+
+/**
+ * Generate a fresh seed for callers that did not provide one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Create a seeded random generator (mulberry32)
+ * The same seed always yields the same sequence
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: (probability) => next() < probability,
+    pick: (items) => {
+      if (items.length === 0) {
+        throw new Error("Cannot pick from an empty list");
+      }
+      return items[Math.floor(next() * items.length)];
+    },
+  };
+}
@@ -19,3 +19,31 @@ export function createTextResult(data: unknown): CallToolResult {
     ],
   };
 }
+
+/**
+ * Creates a CallToolResult carrying an SVG image
+ * The SVG is included both as image content and as an embedded resource,
+ * so clients that can't display images can still read the markup
+ * @param svg - The SVG document
+ * @param uri - Resource URI identifying the image
+ * @returns A properly formatted CallToolResult
+ */
+export function createSvgResult(svg: string, uri: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "image",
+        data: Buffer.from(svg, "utf-8").toString("base64"),
+        mimeType: "image/svg+xml",
+      },
+      {
+        type: "resource",
+        resource: {
+          uri,
+          mimeType: "image/svg+xml",
+          text: svg,
+        },
+      },
+    ],
+  };
+}
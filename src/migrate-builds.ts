@@ -0,0 +1,35 @@
+/**
+ * Migrate every stored build to the current schema version
+ * Usage: npm run migrate:builds [-- --dry-run]
+ * Prints a JSON report and exits with status 1 if any build failed to migrate
+ */
+
+import { getConfig } from "./config.ts";
+import { createKV } from "./storage/index.ts";
+import { migrateAllBuilds } from "./tools/builds.ts";
+
+async function main() {
+  const config = getConfig();
+  const dryRun = process.argv.includes("--dry-run");
+
+  const kv = createKV({
+    backend: config.STORAGE_BACKEND,
+    sqlite: {
+      filename: config.SQLITE_DB_PATH,
+      verbose: config.SQLITE_VERBOSE,
+    },
+  });
+
+  try {
+    const report = await migrateAllBuilds(kv, { dryRun });
+    console.log(JSON.stringify({ dryRun, ...report }, null, 2));
+    process.exitCode = report.failed.length > 0 ? 1 : 0;
+  } finally {
+    await kv.close();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Build migration failed:", error);
+  process.exit(1);
+});
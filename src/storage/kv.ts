@@ -19,7 +19,7 @@ export interface SetOptions {
   ttl?: number;
   /** Content type (default: 'application/json') */
   contentType?: string;
-  /** Expected version for Compare-And-Set. If provided, the update will only succeed if the current version matches */
+  /** Expected version for Compare-And-Set. If provided, the update will only succeed if the current version matches. 0 creates the key only if it doesn't exist */
   cas?: number;
 }
 
@@ -160,4 +160,11 @@ export const KVHelpers = {
       contentType: "application/json",
     });
   },
+
+  /**
+   * Whether an error is a CAS version mismatch from set
+   */
+  isCasConflict(error: unknown): boolean {
+    return error instanceof Error && error.message.startsWith("CAS failed");
+  },
 };
@@ -148,6 +148,27 @@ export class SQLiteKV implements KV {
       serialized = value as Buffer;
     }
 
+    // Handle create-only writes (versions start at 1, so 0 means "no key")
+    if (cas === 0) {
+      this.#cleanupExpired(ns, key);
+
+      const info = this.#db
+        .prepare(
+          `INSERT INTO kv (ns, key, value, content_type, version, expires_at, updated_at)
+           VALUES (?, ?, ?, ?, 1, ?, ?)
+           ON CONFLICT(ns, key) DO NOTHING`,
+        )
+        .run(ns, key, serialized, contentType, expiresAt, now);
+
+      if (info.changes === 0) {
+        throw new Error(
+          `CAS failed: key ${ns}:${key} already exists (expected version 0)`,
+        );
+      }
+
+      return 1;
+    }
+
     // Handle CAS (Compare-And-Set)
     if (cas !== undefined) {
       const current = await this.get(ns, key);
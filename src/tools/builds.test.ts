@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SQLiteKV } from "../storage/sqlite.ts";
+import { KVHelpers } from "../storage/kv.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { LockablePartSchema, isUnlocked } from "../domain/unlocks.ts";
+import { checkCarClass } from "../domain/classes.ts";
+import { assertCompatibleChange } from "../domain/compatibility.ts";
+import { applyCarConfigUpdate } from "../domain/models.ts";
+import {
+  duplicateBuild,
+  getBuildDetails,
+  getCurrentBuild,
+  listBuilds,
+  randomizeBuild,
+  renameBuild,
+  saveBuild,
+  searchSavedBuilds,
+  setBuildClass,
+  suggestBuildUpgrades,
+  updateDriverProfile,
+} from "./builds.ts";
+import { getUnlockProgress } from "./inventory.ts";
+import { adjustWallet, getWallet } from "./wallet.ts";
+
+describe("saved builds", () => {
+  const identity: UserIdentity = { userId: "racer", authenticated: true };
+  let kv: SQLiteKV;
+
+  const saved = async () =>
+    (await listBuilds(kv, identity)).builds.map((b) => [b.id, b.name]).sort();
+
+  beforeEach(() => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+  });
+
+  it("should give colliding names distinct IDs", async () => {
+    const first = await saveBuild(kv, identity, "Red Devil");
+    const second = await saveBuild(kv, identity, "red-devil");
+
+    expect(first.id).toBe("red_devil");
+    expect(second.id).toBe("red_devil_2");
+    await expect(saveBuild(kv, identity, " RED DEVIL ")).rejects.toThrow(
+      'A build named "Red Devil" (ID "red_devil", version 1) already exists',
+    );
+  });
+
+  it("should let only one of two concurrent saves claim a name", async () => {
+    const results = await Promise.allSettled([
+      saveBuild(kv, identity, "Red Devil"),
+      saveBuild(kv, identity, "Red Devil"),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(await saved()).toEqual([["red_devil", "Red Devil"]]);
+  });
+
+  it("should overwrite only at the version last read", async () => {
+    const original = await saveBuild(kv, identity, "Red Devil");
+    await updateDriverProfile(kv, identity, { nickname: "Biscuit" });
+
+    await expect(
+      saveBuild(kv, identity, "Red Devil", { overwrite: true }),
+    ).rejects.toThrow("needs expectedVersion");
+    await expect(
+      saveBuild(kv, identity, "Red Devil", {
+        overwrite: true,
+        expectedVersion: original.version + 1,
+      }),
+    ).rejects.toThrow(`was changed since version ${original.version + 1}`);
+
+    const overwritten = await saveBuild(kv, identity, "Red Devil", {
+      overwrite: true,
+      expectedVersion: original.version,
+    });
+    expect(overwritten).toMatchObject({
+      id: "red_devil",
+      createdAt: original.createdAt,
+      driver: { nickname: "Biscuit" },
+    });
+    expect(overwritten.version).toBeGreaterThan(original.version);
+  });
+
+  it("should rename a build and free its old name", async () => {
+    await saveBuild(kv, identity, "Red Devil");
+    await saveBuild(kv, identity, "Blue Comet");
+
+    const renamed = await renameBuild(kv, identity, "red_devil", "Crimson");
+    expect(renamed).toMatchObject({ id: "red_devil", name: "Crimson" });
+
+    await expect(
+      renameBuild(kv, identity, "blue_comet", "crimson"),
+    ).rejects.toThrow(
+      'A build named "Crimson" already exists (ID "red_devil")',
+    );
+    await expect(
+      renameBuild(kv, identity, "missing", "Anything"),
+    ).rejects.toThrow('Build "missing" not found');
+
+    const reused = await saveBuild(kv, identity, "Red Devil");
+    expect(reused.id).toBe("red_devil_2");
+    expect(await saved()).toEqual([
+      ["blue_comet", "Blue Comet"],
+      ["red_devil", "Crimson"],
+      ["red_devil_2", "Red Devil"],
+    ]);
+  });
+
+  it("should duplicate a build under a new name", async () => {
+    await updateDriverProfile(kv, identity, { nickname: "Biscuit" });
+    await saveBuild(kv, identity, "Red Devil");
+
+    await expect(
+      duplicateBuild(kv, identity, "red_devil", "Red Devil"),
+    ).rejects.toThrow("already exists");
+
+    const copy = await duplicateBuild(kv, identity, "red_devil", "Spare Devil");
+    expect(copy).toMatchObject({
+      id: "spare_devil",
+      name: "Spare Devil",
+      driver: { nickname: "Biscuit" },
+    });
+    expect(await saved()).toEqual([
+      ["red_devil", "Red Devil"],
+      ["spare_devil", "Spare Devil"],
+    ]);
+  });
+
+  it("should find names of builds saved before the name index", async () => {
+    const build = await getCurrentBuild(kv, identity);
+    await KVHelpers.setJSON(kv, "builds", "racer:old_devil", {
+      ...build,
+      id: "old_devil",
+      name: "Red Devil",
+    });
+
+    await expect(saveBuild(kv, identity, "red devil")).rejects.toThrow(
+      'A build named "Red Devil" (ID "old_devil", version 1) already exists',
+    );
+  });
+
+  it("should skip and report builds that can't be migrated", async () => {
+    await KVHelpers.setJSON(kv, "builds", "racer:broken", {
+      ...(await getCurrentBuild(kv, identity)),
+      id: "broken",
+      schemaVersion: 999,
+    });
+    const unreadable = [
+      { buildId: "broken", error: expect.stringContaining("is newer") },
+    ];
+
+    const saved = await saveBuild(kv, identity, "Red Devil");
+    expect(await listBuilds(kv, identity)).toMatchObject({
+      builds: [{ id: saved.id }],
+      unreadable,
+    });
+    expect(await searchSavedBuilds(kv, identity, {})).toMatchObject({
+      total: 1,
+      unreadable,
+    });
+    await expect(getBuildDetails(kv, identity, "broken")).rejects.toThrow(
+      "is newer than this server supports",
+    );
+  });
+});
+
+describe("randomize_build", () => {
+  const identity: UserIdentity = { userId: "racer", authenticated: true };
+  let kv: SQLiteKV;
+
+  beforeEach(() => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+  });
+
+  it("should preview without changing the build or the wallet", async () => {
+    const before = await getCurrentBuild(kv, identity);
+    const { balance } = await adjustWallet(
+      kv,
+      identity.userId,
+      10_000,
+      "daily_grant",
+      "Top up",
+    );
+
+    const preview = await randomizeBuild(kv, identity, {
+      seed: 42,
+      theme: "neon_night",
+      preview: true,
+    });
+
+    expect(preview).toMatchObject({ seed: 42, preview: true, balance });
+    expect(await getCurrentBuild(kv, identity)).toEqual(before);
+    expect((await getWallet(kv, identity)).balance).toBe(balance);
+
+    const applied = await randomizeBuild(kv, identity, {
+      seed: 42,
+      theme: "neon_night",
+    });
+    expect(applied.build.car).toEqual(preview.build.car);
+    expect(applied.balance).toBe(balance - preview.price.total);
+    expect((await getCurrentBuild(kv, identity)).car).toEqual(
+      preview.build.car,
+    );
+  });
+
+  it("should only draw parts the user has unlocked", async () => {
+    const progress = await getUnlockProgress(kv, identity);
+
+    for (let seed = 1; seed <= 10; seed++) {
+      const { build } = await randomizeBuild(kv, identity, {
+        seed,
+        theme: "neon_night",
+        preview: true,
+      });
+
+      for (const part of LockablePartSchema.options) {
+        expect(isUnlocked(progress, part, build.car[part])).toBe(true);
+      }
+    }
+  });
+
+  it("should keep randomized builds compatible and within their class", async () => {
+    await setBuildClass(kv, identity, "B");
+    const { car } = await getCurrentBuild(kv, identity);
+
+    for (let seed = 0; seed < 50; seed++) {
+      const { build } = await randomizeBuild(kv, identity, {
+        seed,
+        theme: "neon_night",
+        preview: true,
+      });
+
+      expect(checkCarClass(build.car, "B")).toEqual([]);
+      expect(() => assertCompatibleChange(car, build.car)).not.toThrow();
+    }
+  });
+
+  it("should keep locked fields", async () => {
+    await updateDriverProfile(kv, identity, { nickname: "Biscuit" });
+
+    const { build } = await randomizeBuild(kv, identity, {
+      seed: 7,
+      locked: ["nickname", "color"],
+      preview: true,
+    });
+
+    expect(build.driver.nickname).toBe("Biscuit");
+    expect(build.car.color).toBe(
+      (await getCurrentBuild(kv, identity)).car.color,
+    );
+  });
+});
+
+describe("suggest_upgrades", () => {
+  const identity: UserIdentity = { userId: "racer", authenticated: true };
+  let kv: SQLiteKV;
+
+  beforeEach(() => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+  });
+
+  it("should only suggest parts the user has unlocked", async () => {
+    const progress = await getUnlockProgress(kv, identity);
+    const { car } = await getCurrentBuild(kv, identity);
+
+    const { suggestions } = await suggestBuildUpgrades(kv, identity, {
+      goal: "top_speed",
+      limit: 50,
+    });
+
+    expect(suggestions.map((s) => s.id)).not.toContain("wheels:racing");
+    for (const s of suggestions) {
+      const upgraded = applyCarConfigUpdate(car, s.changes);
+      for (const part of LockablePartSchema.options) {
+        expect(isUnlocked(progress, part, upgraded[part])).toBe(true);
+      }
+    }
+  });
+
+  it("should keep suggestions within the build's class", async () => {
+    const { carClass } = await setBuildClass(kv, identity, "C");
+    const { car } = await getCurrentBuild(kv, identity);
+
+    const { suggestions } = await suggestBuildUpgrades(kv, identity, {
+      goal: "top_speed",
+      limit: 50,
+    });
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.map((s) => s.id)).not.toContain("bodyKit:racing");
+    for (const s of suggestions) {
+      const upgraded = applyCarConfigUpdate(car, s.changes);
+      expect(checkCarClass(upgraded, carClass!)).toEqual([]);
+    }
+  });
+
+  it("should apply and charge for the top suggestion", async () => {
+    const { balance } = await getWallet(kv, identity);
+
+    const result = await suggestBuildUpgrades(kv, identity, {
+      goal: "cornering",
+      applyTop: true,
+    });
+
+    expect(result.applied).toEqual(result.suggestions[0]);
+    expect(result.balance).toBe(balance - result.price!.total);
+    expect((await getCurrentBuild(kv, identity)).car).toEqual(result.build.car);
+  });
+});
@@ -10,173 +10,1443 @@ import { canAccessBuild } from "../auth/pomerium.ts";
 import {
   type Build,
   type BuildMetadata,
+  type BuildRating,
+  type CarClass,
+  type CarConfig,
   type CarConfigUpdate,
+  type CustomDecal,
+  type DecalLayer,
+  type DecalLayerInput,
   type DriverProfileUpdate,
+  BUILD_SCHEMA_VERSION,
   CarConfigUpdateSchema,
+  CustomDecalSchema,
+  DecalLayerSchema,
+  MAX_DECAL_LAYERS,
   DriverProfileUpdateSchema,
   createBuild,
   calculatePerformanceScore,
+  calculateBuildRating,
+  applyCarConfigUpdate,
 } from "../domain/models.ts";
+import {
+  type BuildTheme,
+  type LockableField,
+  LockableFieldSchema,
+  generateRandomBuild,
+} from "../domain/randomize.ts";
+import {
+  type UpgradeGoal,
+  type UpgradeSuggestion,
+  suggestUpgrades,
+} from "../domain/upgrades.ts";
+import { type BuildDiff, diffBuilds } from "../domain/diff.ts";
+import {
+  assertCarClass,
+  checkCarClass,
+  disallowedParts,
+  fitStatBudget,
+  qualifyingClass,
+  statTotal,
+} from "../domain/classes.ts";
+import {
+  type CompatibilityIssue,
+  assertCompatibleChange,
+  checkCompatibility,
+  conflictingParts,
+} from "../domain/compatibility.ts";
+import { type PriceQuote, quoteCarChange } from "../domain/economy.ts";
+import {
+  decalLayerNotFound,
+  deleteDecalLayer,
+  describeDecalLayer,
+  insertDecalLayer,
+} from "../domain/decals.ts";
+import { LockablePartSchema, isUnlocked } from "../domain/unlocks.ts";
+import { decodeShareCode, encodeShareCode } from "../domain/share-code.ts";
+import { migrateBuild } from "../domain/migrations.ts";
+import {
+  type BuildSearch,
+  searchBuilds,
+  toBuildMetadata,
+  updateTags,
+} from "../domain/search.ts";
+import { generateSeed } from "../lib/random.ts";
+import { getConfig } from "../config.ts";
+import {
+  type BuildRevision,
+  getRevision,
+  listRevisions,
+  recordRevision,
+  stepRevision,
+} from "./revisions.ts";
+import { type GarageRole, requireGarageRole } from "./garages.ts";
+import { adjustWallet, getWallet } from "./wallet.ts";
+import { revokeShare } from "./sharing.ts";
+import {
+  assertPartsUnlocked,
+  getUnlockProgress,
+  recordProgress,
+} from "./inventory.ts";
+
+const BUILDS_NAMESPACE = "builds";
+const GARAGE_BUILDS_NAMESPACE = "garage_builds";
+const BUILD_NAMES_NAMESPACE = "build_names";
+export const ACTIVE_BUILD_KEY = "active";
+
+/**
+ * Where saved builds are stored: the user's own garage or a team garage
+ */
+interface BuildScope {
+  namespace: string;
+  /** User ID, or garage ID for team garages */
+  ownerId: string;
+}
+
+/**
+ * Options for build tools that can target a team garage
+ */
+export interface GarageScopeOptions {
+  /** Team garage to use instead of the user's own builds */
+  garageId?: string;
+}
+
+/**
+ * Build storage key format: ${userId}:${buildId}
+ */
+function buildKey(userId: string, buildId: string): string {
+  return `${userId}:${buildId}`;
+}
+
+/**
+ * Name index storage key formats (keys are per scope):
+ *   ${namespace}:${ownerId}:name:${name}  - { buildId }, name trimmed and lowercased
+ *   ${namespace}:${ownerId}:indexed       - set once the scope's builds are indexed
+ */
+function nameIndexPrefix(scope: BuildScope): string {
+  return `${scope.namespace}:${scope.ownerId}:`;
+}
+
+function nameKey(scope: BuildScope, name: string): string {
+  return `${nameIndexPrefix(scope)}name:${normalizeBuildName(name)}`;
+}
+
+/**
+ * The user's own saved builds
+ */
+function personalScope(identity: UserIdentity): BuildScope {
+  return { namespace: BUILDS_NAMESPACE, ownerId: identity.userId };
+}
+
+/**
+ * Read a stored build, migrating it to the current schema version
+ * The upgraded build is written back unless MIGRATE_BUILDS_WRITE_BACK is off.
+ * If another request changes the build or writes it back first, the migrated
+ * build is returned with the version that was read.
+ */
+async function readBuild(
+  kv: KV,
+  namespace: string,
+  key: string,
+): ReturnType<typeof KVHelpers.getJSON<Build>> {
+  const result = await KVHelpers.getJSON<unknown>(kv, namespace, key);
+
+  if (!result) {
+    return null;
+  }
+
+  const { build, migrated } = migrateBuild(result.value);
+
+  if (!migrated || !getConfig().MIGRATE_BUILDS_WRITE_BACK) {
+    return { ...result, value: build };
+  }
+
+  try {
+    const version = await KVHelpers.setJSON(kv, namespace, key, build, {
+      cas: result.metadata.version,
+    });
+    return {
+      value: build,
+      metadata: { ...result.metadata, version, updatedAt: Date.now() },
+    };
+  } catch (error) {
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return { ...result, value: build };
+  }
+}
+
+/**
+ * A stored build that could not be migrated, skipped by listings
+ */
+export interface UnreadableBuild {
+  buildId: string;
+  error: string;
+}
+
+/**
+ * Outcome of migrating every stored build
+ */
+export interface BuildMigrationReport {
+  schemaVersion: number;
+  scanned: number;
+  /** Builds upgraded to the current schema version */
+  migrated: number;
+  /** Builds that could not be read or upgraded, left as they were */
+  failed: { namespace: string; key: string; error: string }[];
+}
+
+/**
+ * Migrate every personal and team garage build to the current schema version
+ * @param options.dryRun - Report what would change without writing anything
+ */
+export async function migrateAllBuilds(
+  kv: KV,
+  options?: { dryRun?: boolean },
+): Promise<BuildMigrationReport> {
+  const report: BuildMigrationReport = {
+    schemaVersion: BUILD_SCHEMA_VERSION,
+    scanned: 0,
+    migrated: 0,
+    failed: [],
+  };
+
+  for (const namespace of [BUILDS_NAMESPACE, GARAGE_BUILDS_NAMESPACE]) {
+    let cursor: string | undefined;
+
+    do {
+      const page = await kv.list(namespace, { cursor });
+
+      for (const key of page.keys) {
+        report.scanned++;
+
+        try {
+          const stored = await KVHelpers.getJSON<unknown>(kv, namespace, key);
+          if (!stored) {
+            continue;
+          }
+
+          const { build, migrated } = migrateBuild(stored.value);
+          if (migrated && !options?.dryRun) {
+            await KVHelpers.setJSON(kv, namespace, key, build, {
+              cas: stored.metadata.version,
+            });
+          }
+          if (migrated) {
+            report.migrated++;
+          }
+        } catch (error) {
+          report.failed.push({
+            namespace,
+            key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      cursor = page.cursor ?? undefined;
+    } while (cursor);
+  }
+
+  return report;
+}
+
+/**
+ * Resolve where saved builds live, checking the caller's role for team garages
+ */
+async function resolveScope(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string | undefined,
+  role: GarageRole,
+): Promise<BuildScope> {
+  if (!garageId) {
+    return personalScope(identity);
+  }
+
+  await requireGarageRole(kv, identity, garageId, role);
+  return { namespace: GARAGE_BUILDS_NAMESPACE, ownerId: garageId };
+}
+
+/**
+ * The active build with the KV version it was read at
+ */
+interface ActiveBuild {
+  build: Build;
+  version: number;
+}
+
+/**
+ * Outcome of a change to the active build: soft part conflicts it left, what
+ * it cost (negative total when it paid out) and the wallet balance after it
+ */
+export interface ActiveBuildChange {
+  warnings: CompatibilityIssue[];
+  price: PriceQuote;
+  balance: number;
+}
+
+/**
+ * Get the current active build for a user, creating one if it doesn't exist
+ */
+export async function getCurrentBuild(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<Build> {
+  return (await readActiveBuild(kv, identity)).build;
+}
+
+/**
+ * Read the active build with its version, creating one if it doesn't exist
+ */
+async function readActiveBuild(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<ActiveBuild> {
+  const key = buildKey(identity.userId, ACTIVE_BUILD_KEY);
+
+  // Try to get existing active build
+  const result = await readBuild(kv, BUILDS_NAMESPACE, key);
+
+  if (result) {
+    return { build: result.value, version: result.metadata.version };
+  }
+
+  // Create a new default build
+  const build = createBuild(ACTIVE_BUILD_KEY);
+  const version = await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, key, build);
+
+  return { build, version };
+}
+
+/**
+ * Write a change to the active build and pay for it from the caller's wallet
+ * Every write of the active build goes through here, so every change is held
+ * to the build's class, the part compatibility rules and the parts the user
+ * has unlocked. The write
+ * only succeeds if the build is still at the version previous was read at.
+ * Purchases are charged before the write and refunded if it fails; sales are
+ * paid out after it succeeds.
+ * @param options.record - Record the change in the revision history (default:
+ *   true; undo and redo move through the history instead)
+ */
+async function saveActiveBuild(
+  kv: KV,
+  identity: UserIdentity,
+  previous: ActiveBuild,
+  next: Build,
+  tool: string,
+  options?: { record?: boolean },
+): Promise<ActiveBuildChange> {
+  const warnings = assertCompatibleChange(previous.build.car, next.car);
+  if (next.carClass) {
+    assertCarClass(next.car, next.carClass);
+  }
+  await assertPartsUnlocked(kv, identity, previous.build.car, next.car);
+
+  const price = quoteCarChange(
+    previous.build.car,
+    next.car,
+    getConfig().REFUND_RATE,
+  );
+  const description = price.lines
+    .map((line) => `${line.item}: ${line.change}`)
+    .join(", ");
+
+  let wallet =
+    price.total > 0
+      ? await adjustWallet(
+          kv,
+          identity.userId,
+          -price.total,
+          "customization",
+          description,
+        )
+      : undefined;
+
+  const key = buildKey(identity.userId, ACTIVE_BUILD_KEY);
+  try {
+    await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, key, next, {
+      cas: previous.version,
+    });
+  } catch (error) {
+    if (wallet) {
+      await adjustWallet(
+        kv,
+        identity.userId,
+        price.total,
+        "customization",
+        `Refund for failed change (${description})`,
+      );
+    }
+    throw error;
+  }
+
+  if (price.total < 0) {
+    wallet = await adjustWallet(
+      kv,
+      identity.userId,
+      -price.total,
+      "customization",
+      description,
+    );
+  }
+
+  if (options?.record ?? true) {
+    await recordRevision(kv, identity, previous.build, next, tool);
+  }
+  await recordProgress(kv, identity.userId, {
+    event: { type: "build_changed", build: next },
+  });
+
+  return {
+    warnings,
+    price,
+    balance: (wallet ?? (await getWallet(kv, identity))).balance,
+  };
+}
+
+/**
+ * Update car configuration for the active build
+ * Changes that introduce a hard part conflict are refused; soft conflicts and
+ * recommendations are returned as warnings. The change is paid for from the
+ * caller's wallet (see getPriceQuote).
+ */
+export async function updateCarConfig(
+  kv: KV,
+  identity: UserIdentity,
+  updates: CarConfigUpdate,
+): Promise<{
+  build: Build;
+  warnings: CompatibilityIssue[];
+  price: PriceQuote;
+  balance: number;
+}> {
+  // Validate updates
+  const validatedUpdates = CarConfigUpdateSchema.parse(updates);
+
+  // Get current build
+  const previous = await readActiveBuild(kv, identity);
+
+  // Apply updates
+  const build: Build = {
+    ...previous.build,
+    car: applyCarConfigUpdate(previous.build.car, validatedUpdates),
+    updatedAt: Date.now(),
+  };
+
+  const change = await saveActiveBuild(
+    kv,
+    identity,
+    previous,
+    build,
+    "update_car_config",
+  );
+
+  return { build, ...change };
+}
+
+/**
+ * Price a car config update to the active build without applying it
+ */
+export async function getPriceQuote(
+  kv: KV,
+  identity: UserIdentity,
+  updates: CarConfigUpdate,
+): Promise<PriceQuote & { balance: number; affordable: boolean }> {
+  const validatedUpdates = CarConfigUpdateSchema.parse(updates);
+  const build = await getCurrentBuild(kv, identity);
+  const wallet = await getWallet(kv, identity);
+
+  const price = quoteCarChange(
+    build.car,
+    applyCarConfigUpdate(build.car, validatedUpdates),
+    getConfig().REFUND_RATE,
+  );
+
+  return {
+    ...price,
+    balance: wallet.balance,
+    affordable: price.total <= wallet.balance,
+  };
+}
+
+/**
+ * Update driver profile for the active build
+ */
+export async function updateDriverProfile(
+  kv: KV,
+  identity: UserIdentity,
+  updates: DriverProfileUpdate,
+): Promise<Build> {
+  // Validate updates
+  const validatedUpdates = DriverProfileUpdateSchema.parse(updates);
+
+  // Get current build
+  const previous = await readActiveBuild(kv, identity);
+
+  // Apply updates
+  const build: Build = {
+    ...previous.build,
+    driver: { ...previous.build.driver, ...validatedUpdates },
+    updatedAt: Date.now(),
+  };
+
+  // Save updated build
+  await saveActiveBuild(kv, identity, previous, build, "update_driver_profile");
+
+  return build;
+}
+
+/**
+ * Generate a random build, optionally writing it to the active build
+ * Locked fields, and parts whose drawn option the user hasn't unlocked, the
+ * build's class doesn't allow or that add a hard conflict, keep their values
+ * from the current active build; stats are scaled into the class's budget.
+ * Writing the build is checked and paid for like any other change; previews
+ * return its price and compatibility warnings.
+ */
+export async function randomizeBuild(
+  kv: KV,
+  identity: UserIdentity,
+  options: {
+    theme?: BuildTheme;
+    locked?: LockableField[];
+    seed?: number;
+    preview?: boolean;
+  } = {},
+): Promise<
+  {
+    seed: number;
+    theme: BuildTheme | null;
+    preview: boolean;
+    build: Build;
+  } & ActiveBuildChange
+> {
+  const { theme, locked = [], preview = false } = options;
+  const seed = options.seed ?? generateSeed();
+
+  // Get current build
+  const previous = await readActiveBuild(kv, identity);
+
+  const { carClass } = previous.build;
+  const draw = (fields: LockableField[]) =>
+    generateRandomBuild({ seed, theme, base: previous.build, locked: fields });
+
+  // Locking a field never changes the other draws, so parts drawn with an
+  // option the user hasn't unlocked, that the build's class doesn't allow or
+  // that add a hard part conflict are locked to their current option until
+  // the draw fits
+  const progress = await getUnlockProgress(kv, identity);
+  const fields = new Set(locked);
+  let drawn = draw([...fields]);
+
+  for (;;) {
+    const misfits = [
+      ...LockablePartSchema.options.filter(
+        (part) => !isUnlocked(progress, part, drawn.car[part]),
+      ),
+      ...(carClass ? disallowedParts(drawn.car, carClass) : []),
+      ...conflictingParts(previous.build.car, drawn.car),
+    ].flatMap((field) => {
+      const lockable = LockableFieldSchema.safeParse(field);
+      return lockable.success && !fields.has(lockable.data)
+        ? [lockable.data]
+        : [];
+    });
+
+    if (misfits.length === 0) {
+      break;
+    }
+    misfits.forEach((field) => fields.add(field));
+    drawn = draw([...fields]);
+  }
+
+  const { driver } = drawn;
+  const car = carClass ? fitStatBudget(drawn.car, carClass) : drawn.car;
+
+  const randomized: Build = {
+    ...previous.build,
+    car,
+    driver,
+    updatedAt: Date.now(),
+  };
+
+  const change = preview
+    ? {
+        warnings: checkCompatibility(car),
+        price: quoteCarChange(previous.build.car, car, getConfig().REFUND_RATE),
+        balance: (await getWallet(kv, identity)).balance,
+      }
+    : await saveActiveBuild(
+        kv,
+        identity,
+        previous,
+        randomized,
+        "randomize_build",
+      );
+
+  return { seed, theme: theme ?? null, preview, build: randomized, ...change };
+}
+
+/**
+ * Suggest upgrades for the active build, optionally applying the top one
+ * Applying is paid for like any other change, and only writes the suggestion
+ * if the build has not changed since it was evaluated
+ */
+export async function suggestBuildUpgrades(
+  kv: KV,
+  identity: UserIdentity,
+  options: {
+    goal: UpgradeGoal;
+    targetScore?: number;
+    limit?: number;
+    applyTop?: boolean;
+  },
+): Promise<
+  {
+    goal: UpgradeGoal;
+    currentScore: number;
+    suggestions: UpgradeSuggestion[];
+    applied: UpgradeSuggestion | null;
+    build: Build;
+  } & Partial<ActiveBuildChange>
+> {
+  const { goal, targetScore, limit = 5, applyTop = false } = options;
+
+  const previous = await readActiveBuild(kv, identity);
+  const build = previous.build;
+  const { carClass } = build;
+
+  // Only suggest unlocked parts, and changes that keep the build within its
+  // class and don't introduce part conflicts
+  const progress = await getUnlockProgress(kv, identity);
+  const conflicts = errorRuleIds(build.car);
+  const suggestions = suggestUpgrades(
+    build.car,
+    goal,
+    targetScore,
+    build.driver,
+  )
+    .filter((s) => {
+      const car = applyCarConfigUpdate(build.car, s.changes);
+      return (
+        LockablePartSchema.options.every((part) =>
+          isUnlocked(progress, part, car[part]),
+        ) &&
+        (!carClass || checkCarClass(car, carClass).length === 0) &&
+        errorRuleIds(car).every((id) => conflicts.includes(id))
+      );
+    })
+    .slice(0, limit);
+
+  const currentScore = calculatePerformanceScore(build.car, build.driver);
+  const top = suggestions[0];
+
+  if (!applyTop || !top) {
+    return { goal, currentScore, suggestions, applied: null, build };
+  }
+
+  const upgraded: Build = {
+    ...build,
+    car: applyCarConfigUpdate(build.car, top.changes),
+    updatedAt: Date.now(),
+  };
+
+  const change = await saveActiveBuild(
+    kv,
+    identity,
+    previous,
+    upgraded,
+    "suggest_upgrades",
+  );
+
+  return {
+    goal,
+    currentScore,
+    suggestions,
+    applied: top,
+    build: upgraded,
+    ...change,
+  };
+}
+
+/**
+ * Hold the active build to a car class
+ * @throws Error explaining why the build doesn't fit the class
+ */
+export async function setBuildClass(
+  kv: KV,
+  identity: UserIdentity,
+  carClass: CarClass,
+): Promise<Build> {
+  const previous = await readActiveBuild(kv, identity);
+  const build: Build = { ...previous.build, carClass, updatedAt: Date.now() };
+
+  await saveActiveBuild(kv, identity, previous, build, "set_build_class");
+
+  return build;
+}
+
+/**
+ * Layers of a build's custom decal, bottom to top
+ */
+export interface DecalLayers {
+  buildId: string;
+  decal: Build["car"]["decal"];
+  sponsor?: string;
+  layers: (DecalLayer & { index: number; description: string })[];
+  maxLayers: number;
+}
+
+/**
+ * List the layers of a build's custom decal (defaults to the active build)
+ */
+export async function listDecalLayers(
+  kv: KV,
+  identity: UserIdentity,
+  buildId?: string,
+): Promise<DecalLayers> {
+  return decalLayersOf(await getBuildDetails(kv, identity, buildId));
+}
+
+/**
+ * Add a layer to the active build's custom decal
+ * @param index - Position in the stack, 0 being the bottom (defaults to the
+ *   top)
+ * @throws Error if the build doesn't use the custom decal or is out of layers
+ */
+export async function addDecalLayer(
+  kv: KV,
+  identity: UserIdentity,
+  layer: DecalLayerInput,
+  index?: number,
+): Promise<DecalLayers> {
+  const validatedLayer = DecalLayerSchema.parse(layer);
+
+  return editCustomDecal(kv, identity, "add_decal_layer", (decal) =>
+    insertDecalLayer(decal, validatedLayer, index),
+  );
+}
+
+/**
+ * Remove a layer from the active build's custom decal
+ * @throws Error if the build doesn't use the custom decal or has no such layer
+ */
+export async function removeDecalLayer(
+  kv: KV,
+  identity: UserIdentity,
+  index: number,
+): Promise<DecalLayers & { removed: string }> {
+  let removed: DecalLayer | undefined;
+
+  const result = await editCustomDecal(
+    kv,
+    identity,
+    "remove_decal_layer",
+    (decal) => {
+      const change = deleteDecalLayer(decal, index);
+      removed = change.removed;
+      return change.decal;
+    },
+  );
+
+  if (!removed) {
+    throw decalLayerNotFound(result.layers.length, index);
+  }
+
+  return { ...result, removed: describeDecalLayer(removed) };
+}
+
+/**
+ * Set or clear the sponsor badge on the active build's custom decal
+ * @throws Error if the build doesn't use the custom decal
+ */
+export async function setDecalSponsor(
+  kv: KV,
+  identity: UserIdentity,
+  sponsor: string | undefined,
+): Promise<DecalLayers> {
+  const { sponsor: validatedSponsor } = CustomDecalSchema.parse({ sponsor });
+
+  return editCustomDecal(kv, identity, "set_decal_sponsor", (decal) => ({
+    ...decal,
+    sponsor: validatedSponsor,
+  }));
+}
+
+/**
+ * Apply an edit to the active build's custom decal and save it
+ */
+async function editCustomDecal(
+  kv: KV,
+  identity: UserIdentity,
+  tool: string,
+  edit: (decal: CustomDecal) => CustomDecal,
+): Promise<DecalLayers> {
+  const previous = await readActiveBuild(kv, identity);
+  const { car } = previous.build;
+
+  if (car.decal !== "custom") {
+    throw new Error(
+      `The active build uses the "${car.decal}" decal; fit the custom decal first with update_car_config (decal: "custom")`,
+    );
+  }
+
+  const build: Build = {
+    ...previous.build,
+    car: {
+      ...car,
+      customDecal: edit(car.customDecal ?? { layers: [] }),
+    },
+    updatedAt: Date.now(),
+  };
+
+  await saveActiveBuild(kv, identity, previous, build, tool);
+
+  return decalLayersOf(build);
+}
+
+function decalLayersOf(build: Build): DecalLayers {
+  const decal =
+    build.car.decal === "custom" ? build.car.customDecal : undefined;
+
+  return {
+    buildId: build.id,
+    decal: build.car.decal,
+    sponsor: decal?.sponsor,
+    layers: (decal?.layers ?? []).map((layer, index) => ({
+      ...layer,
+      index,
+      description: describeDecalLayer(layer),
+    })),
+    maxLayers: MAX_DECAL_LAYERS,
+  };
+}
+
+/**
+ * A saved build with its KV version, which overwrites must pass back as
+ * expectedVersion
+ */
+export type SavedBuild = Build & { version: number };
+
+/**
+ * Options for replacing a saved build that already has the name
+ */
+export interface OverwriteOptions {
+  /** Replace the saved build with the same name instead of refusing */
+  overwrite?: boolean;
+  /** Version of that build as last read (see listBuilds) */
+  expectedVersion?: number;
+}
+
+/**
+ * Save the active build under a specific name
+ */
+export async function saveBuild(
+  kv: KV,
+  identity: UserIdentity,
+  name: string,
+  options?: GarageScopeOptions & OverwriteOptions,
+): Promise<SavedBuild> {
+  const scope = await resolveScope(kv, identity, options?.garageId, "editor");
+
+  // Get current active build
+  const activeBuild = await getCurrentBuild(kv, identity);
+
+  return writeSavedBuild(kv, identity, scope, name, activeBuild, options);
+}
+
+/**
+ * Rename a saved build
+ * The build keeps its ID, so shares, links and references to it still work
+ */
+export async function renameBuild(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  name: string,
+  options?: GarageScopeOptions,
+): Promise<SavedBuild> {
+  if (buildId === ACTIVE_BUILD_KEY) {
+    throw new Error("The active build has no name; save it first");
+  }
+
+  const scope = await resolveScope(kv, identity, options?.garageId, "editor");
+  const key = buildKey(scope.ownerId, buildId);
+  const result = await readBuild(kv, scope.namespace, key);
+
+  if (!result) {
+    throw new Error(`Build "${buildId}" not found`);
+  }
+
+  const previousName = result.value.name ?? result.value.id;
+  await claimBuildName(kv, scope, name, buildId);
+
+  const build: Build = { ...result.value, name, updatedAt: Date.now() };
+  let version: number;
+  try {
+    version = await KVHelpers.setJSON(kv, scope.namespace, key, build, {
+      cas: result.metadata.version,
+    });
+  } catch (error) {
+    await releaseBuildName(kv, scope, name, buildId);
+    throw error;
+  }
+
+  if (normalizeBuildName(previousName) !== normalizeBuildName(name)) {
+    await releaseBuildName(kv, scope, previousName, buildId);
+  }
+
+  return { ...build, version };
+}
+
+/**
+ * Save a copy of a saved build under a new name without touching the active
+ * build
+ */
+export async function duplicateBuild(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  name: string,
+  options?: GarageScopeOptions,
+): Promise<SavedBuild> {
+  const scope = await resolveScope(kv, identity, options?.garageId, "editor");
+  const result = await readBuild(
+    kv,
+    scope.namespace,
+    buildKey(scope.ownerId, buildId),
+  );
+
+  if (!result) {
+    throw new Error(`Build "${buildId}" not found`);
+  }
+
+  return writeSavedBuild(kv, identity, scope, name, {
+    ...result.value,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Save a copy of a build under a name
+ * Refuses to replace a build with the same name unless overwriting at the
+ * version the caller last read
+ */
+async function writeSavedBuild(
+  kv: KV,
+  identity: UserIdentity,
+  scope: BuildScope,
+  name: string,
+  source: Build,
+  options?: OverwriteOptions,
+): Promise<SavedBuild> {
+  const existing = await findBuildByName(kv, scope, name);
+
+  if (existing) {
+    const label = `"${existing.build.name}" (ID "${existing.build.id}", version ${existing.version})`;
+
+    if (!options?.overwrite) {
+      throw new Error(`A build named ${label} already exists`);
+    }
+    if (options.expectedVersion === undefined) {
+      throw new Error(
+        `Overwriting ${label} needs expectedVersion, the version you last read`,
+      );
+    }
+    if (options.expectedVersion !== existing.version) {
+      throw new Error(
+        `Build ${label} was changed since version ${options.expectedVersion}; check it before overwriting`,
+      );
+    }
+  }
+
+  // Overwrites keep the replaced build's ID, tags and creation time
+  const build: Build = {
+    ...source,
+    name,
+    tags: existing?.build.tags ?? source.tags,
+    createdAt: existing?.build.createdAt ?? source.createdAt,
+    updatedAt: Date.now(),
+  };
+
+  const savedBuild: SavedBuild = existing
+    ? await overwriteSavedBuild(
+        kv,
+        scope,
+        { ...build, id: existing.build.id },
+        existing.version,
+      )
+    : await insertSavedBuild(kv, scope, build, name);
+
+  await recordProgress(kv, identity.userId, {
+    event: {
+      type: "build_saved",
+      build: savedBuild,
+      savedBuilds: await countSavedBuilds(kv, scope),
+    },
+  });
+
+  return savedBuild;
+}
+
+async function overwriteSavedBuild(
+  kv: KV,
+  scope: BuildScope,
+  build: Build,
+  version: number,
+): Promise<SavedBuild> {
+  return {
+    ...build,
+    version: await KVHelpers.setJSON(
+      kv,
+      scope.namespace,
+      buildKey(scope.ownerId, build.id),
+      build,
+      { cas: version },
+    ),
+  };
+}
+
+/**
+ * Write a new saved build under an unused ID for its name and index the name
+ * IDs get a numeric suffix when another name sanitizes to the same ID (e.g.
+ * "Red Devil" and "red-devil"). Each ID is claimed with a create-only write,
+ * so concurrent saves never share one.
+ * @throws Error if another build took the name first
+ */
+async function insertSavedBuild(
+  kv: KV,
+  scope: BuildScope,
+  build: Build,
+  name: string,
+): Promise<SavedBuild> {
+  const base = sanitizeBuildId(name) || "build";
+  let saved: SavedBuild | undefined;
+
+  for (let suffix = 1; !saved; suffix++) {
+    const buildId = suffix === 1 ? base : `${base}_${suffix}`;
+    if (buildId === ACTIVE_BUILD_KEY) {
+      continue;
+    }
+
+    try {
+      saved = await overwriteSavedBuild(
+        kv,
+        scope,
+        { ...build, id: buildId },
+        0,
+      );
+    } catch (error) {
+      if (!KVHelpers.isCasConflict(error)) {
+        throw error;
+      }
+    }
+  }
+
+  try {
+    await claimBuildName(kv, scope, name, saved.id);
+  } catch (error) {
+    await kv.delete(scope.namespace, buildKey(scope.ownerId, saved.id));
+    throw error;
+  }
+
+  return saved;
+}
+
+/**
+ * Read every saved build in a scope (excluding the active build)
+ * Builds that can't be migrated are skipped and reported as unreadable
+ */
+async function readSavedBuilds(
+  kv: KV,
+  scope: BuildScope,
+): Promise<{
+  saved: { build: Build; version: number }[];
+  unreadable: UnreadableBuild[];
+}> {
+  const prefix = `${scope.ownerId}:`;
+  const saved: { build: Build; version: number }[] = [];
+  const unreadable: UnreadableBuild[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list(scope.namespace, { prefix, cursor });
+
+    for (const key of page.keys) {
+      if (key === buildKey(scope.ownerId, ACTIVE_BUILD_KEY)) {
+        continue;
+      }
+
+      const result = await tryReadBuild(kv, scope.namespace, key);
+      if ("error" in result) {
+        unreadable.push({
+          buildId: key.substring(prefix.length),
+          error: result.error,
+        });
+      } else if (result.stored) {
+        saved.push({
+          build: result.stored.value,
+          version: result.stored.metadata.version,
+        });
+      }
+    }
+
+    cursor = page.cursor ?? undefined;
+  } while (cursor);
+
+  return { saved, unreadable };
+}
+
+/**
+ * Read a stored build for a listing, returning the migration error instead
+ * of throwing so one bad build doesn't break the whole listing
+ */
+async function tryReadBuild(
+  kv: KV,
+  namespace: string,
+  key: string,
+): Promise<
+  { stored: Awaited<ReturnType<typeof readBuild>> } | { error: string }
+> {
+  try {
+    return { stored: await readBuild(kv, namespace, key) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Find the saved build with a name, ignoring case and surrounding spaces
+ */
+async function findBuildByName(
+  kv: KV,
+  scope: BuildScope,
+  name: string,
+): Promise<{ build: Build; version: number } | undefined> {
+  await indexBuildNames(kv, scope);
+
+  const entry = await KVHelpers.getJSON<{ buildId: string }>(
+    kv,
+    BUILD_NAMES_NAMESPACE,
+    nameKey(scope, name),
+  );
+  const result =
+    entry &&
+    (await readBuild(
+      kv,
+      scope.namespace,
+      buildKey(scope.ownerId, entry.value.buildId),
+    ));
+
+  // Entries can outlive a build that was deleted or renamed
+  if (
+    !result ||
+    normalizeBuildName(result.value.name ?? result.value.id) !==
+      normalizeBuildName(name)
+  ) {
+    return undefined;
+  }
+
+  return { build: result.value, version: result.metadata.version };
+}
+
+/**
+ * Point a name at a build in the name index
+ * @throws Error if another build has the name
+ */
+async function claimBuildName(
+  kv: KV,
+  scope: BuildScope,
+  name: string,
+  buildId: string,
+): Promise<void> {
+  await indexBuildNames(kv, scope);
+
+  const key = nameKey(scope, name);
+  const entry = await KVHelpers.getJSON<{ buildId: string }>(
+    kv,
+    BUILD_NAMES_NAMESPACE,
+    key,
+  );
+
+  if (entry && entry.value.buildId !== buildId) {
+    const taken = await findBuildByName(kv, scope, name);
+    if (taken) {
+      throw new Error(
+        `A build named "${taken.build.name}" already exists (ID "${taken.build.id}")`,
+      );
+    }
+  }
 
-const BUILDS_NAMESPACE = "builds";
-const ACTIVE_BUILD_KEY = "active";
+  try {
+    await KVHelpers.setJSON(
+      kv,
+      BUILD_NAMES_NAMESPACE,
+      key,
+      { buildId },
+      { cas: entry?.metadata.version ?? 0 },
+    );
+  } catch (error) {
+    // Another request claimed the name since it was read
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return claimBuildName(kv, scope, name, buildId);
+  }
+}
 
 /**
- * Build storage key format: ${userId}:${buildId}
+ * Remove a name from the name index if it still points at a build
  */
-function buildKey(userId: string, buildId: string): string {
-  return `${userId}:${buildId}`;
+async function releaseBuildName(
+  kv: KV,
+  scope: BuildScope,
+  name: string,
+  buildId: string,
+): Promise<void> {
+  const key = nameKey(scope, name);
+  const entry = await KVHelpers.getJSON<{ buildId: string }>(
+    kv,
+    BUILD_NAMES_NAMESPACE,
+    key,
+  );
+
+  if (entry?.value.buildId === buildId) {
+    await kv.delete(BUILD_NAMES_NAMESPACE, key);
+  }
 }
 
 /**
- * Get the current active build for a user, creating one if it doesn't exist
+ * Index the names of a scope's saved builds, once per scope
+ * Builds saved before the name index existed can't be found by name until then
  */
-export async function getCurrentBuild(
-  kv: KV,
-  identity: UserIdentity,
-): Promise<Build> {
-  const key = buildKey(identity.userId, ACTIVE_BUILD_KEY);
+async function indexBuildNames(kv: KV, scope: BuildScope): Promise<void> {
+  const marker = `${nameIndexPrefix(scope)}indexed`;
 
-  // Try to get existing active build
-  const result = await KVHelpers.getJSON<Build>(kv, BUILDS_NAMESPACE, key);
+  if (await kv.get(BUILD_NAMES_NAMESPACE, marker)) {
+    return;
+  }
 
-  if (result) {
-    return result.value;
+  const { saved } = await readSavedBuilds(kv, scope);
+  for (const { build } of saved) {
+    await KVHelpers.setJSON(
+      kv,
+      BUILD_NAMES_NAMESPACE,
+      nameKey(scope, build.name ?? build.id),
+      { buildId: build.id },
+    );
   }
 
-  // Create a new default build
-  const newBuild = createBuild(ACTIVE_BUILD_KEY);
-  await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, key, newBuild);
+  await KVHelpers.setJSON(kv, BUILD_NAMES_NAMESPACE, marker, {
+    indexedAt: Date.now(),
+  });
+}
 
-  return newBuild;
+function normalizeBuildName(name: string): string {
+  return name.trim().toLowerCase();
 }
 
 /**
- * Update car configuration for the active build
+ * Count the saved builds in a scope (excluding the active build)
  */
-export async function updateCarConfig(
-  kv: KV,
-  identity: UserIdentity,
-  updates: CarConfigUpdate,
-): Promise<Build> {
-  // Validate updates
-  const validatedUpdates = CarConfigUpdateSchema.parse(updates);
-
-  // Get current build
-  const build = await getCurrentBuild(kv, identity);
-
-  // Apply updates
-  build.car = { ...build.car, ...validatedUpdates };
-  build.updatedAt = Date.now();
+async function countSavedBuilds(kv: KV, scope: BuildScope): Promise<number> {
+  const prefix = `${scope.ownerId}:`;
+  let count = 0;
+  let cursor: string | undefined;
 
-  // Save updated build
-  const key = buildKey(identity.userId, ACTIVE_BUILD_KEY);
-  await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, key, build);
+  do {
+    const page = await kv.list(scope.namespace, { prefix, cursor });
+    count += page.keys.filter(
+      (key) => key !== buildKey(scope.ownerId, ACTIVE_BUILD_KEY),
+    ).length;
+    cursor = page.cursor ?? undefined;
+  } while (cursor);
 
-  return build;
+  return count;
 }
 
 /**
- * Update driver profile for the active build
+ * Load a saved build and make it the active build
+ * Swapping the active car's parts for the saved build's is paid for like any
+ * other change
  */
-export async function updateDriverProfile(
+export async function loadBuild(
   kv: KV,
   identity: UserIdentity,
-  updates: DriverProfileUpdate,
+  buildId: string,
+  options?: GarageScopeOptions,
 ): Promise<Build> {
-  // Validate updates
-  const validatedUpdates = DriverProfileUpdateSchema.parse(updates);
+  const scope = await resolveScope(kv, identity, options?.garageId, "viewer");
+  const key = buildKey(scope.ownerId, buildId);
 
-  // Get current build
-  const build = await getCurrentBuild(kv, identity);
+  // Get the build
+  const result = await readBuild(kv, scope.namespace, key);
 
-  // Apply updates
-  build.driver = { ...build.driver, ...validatedUpdates };
-  build.updatedAt = Date.now();
+  if (!result) {
+    throw new Error(`Build "${buildId}" not found`);
+  }
 
-  // Save updated build
-  const key = buildKey(identity.userId, ACTIVE_BUILD_KEY);
-  await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, key, build);
+  const build = result.value;
 
-  return build;
+  // Verify the user owns this build (team garage roles are checked above)
+  if (!options?.garageId && !canAccessBuild(identity, scope.ownerId)) {
+    throw new Error("Access denied");
+  }
+
+  // Copy to active build
+  const previous = await readActiveBuild(kv, identity);
+  const activeBuild: Build = {
+    ...build,
+    id: ACTIVE_BUILD_KEY,
+    updatedAt: Date.now(),
+  };
+
+  await saveActiveBuild(kv, identity, previous, activeBuild, "load_build");
+
+  return activeBuild;
 }
 
 /**
- * Save the active build under a specific name
+ * Copy a build into the user's garage under a name and make it the active build
  */
-export async function saveBuild(
+export async function forkBuild(
   kv: KV,
   identity: UserIdentity,
+  source: Build,
   name: string,
 ): Promise<Build> {
-  // Get current active build
-  const activeBuild = await getCurrentBuild(kv, identity);
+  const saved = await writeSavedBuild(
+    kv,
+    identity,
+    personalScope(identity),
+    name,
+    {
+      ...source,
+      createdAt: Date.now(),
+    },
+  );
 
-  // Create a new build ID based on the name (sanitized)
-  const buildId = sanitizeBuildId(name);
+  return loadBuild(kv, identity, saved.id);
+}
 
-  // Check if a build with this name already exists
-  const existingKey = buildKey(identity.userId, buildId);
-  const existing = await KVHelpers.getJSON<Build>(
+/**
+ * Read a saved build owned by any user, without access checks
+ * Callers must check access with canAccessBuild first
+ */
+export async function getBuildByOwner(
+  kv: KV,
+  ownerId: string,
+  buildId: string,
+): Promise<Build | null> {
+  const result = await readBuild(
     kv,
     BUILDS_NAMESPACE,
-    existingKey,
+    buildKey(ownerId, buildId),
   );
 
-  if (existing) {
-    throw new Error(`A build named "${name}" already exists`);
-  }
+  return result?.value ?? null;
+}
 
-  // Create the saved build
-  const savedBuild: Build = {
-    ...activeBuild,
-    id: buildId,
-    name,
-    createdAt: activeBuild.createdAt,
-    updatedAt: Date.now(),
-  };
+/**
+ * Revision the active build was undone or redone to, and what the step cost
+ */
+export type RevisionStep = {
+  revision: Omit<BuildRevision, "build">;
+  build: Build;
+} & ActiveBuildChange;
 
-  // Save the build
-  await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, existingKey, savedBuild);
+/**
+ * Undo the last change to the active build
+ */
+export async function undoBuildChange(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<RevisionStep> {
+  return stepActiveBuild(kv, identity, "undo");
+}
 
-  return savedBuild;
+/**
+ * Redo the last undone change to the active build
+ */
+export async function redoBuildChange(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<RevisionStep> {
+  return stepActiveBuild(kv, identity, "redo");
 }
 
 /**
- * Load a saved build and make it the active build
+ * Restore the active build to an earlier revision
+ * Unlike undo, this records a new revision so it can itself be undone
  */
-export async function loadBuild(
+export async function restoreRevision(
   kv: KV,
   identity: UserIdentity,
-  buildId: string,
+  revisionId: number,
 ): Promise<Build> {
-  const key = buildKey(identity.userId, buildId);
+  const revision = await getRevision(
+    kv,
+    identity,
+    ACTIVE_BUILD_KEY,
+    revisionId,
+  );
+  const previous = await readActiveBuild(kv, identity);
 
-  // Get the build
-  const result = await KVHelpers.getJSON<Build>(kv, BUILDS_NAMESPACE, key);
+  const restored: Build = {
+    ...migrateBuild(revision.build).build,
+    updatedAt: Date.now(),
+  };
 
-  if (!result) {
-    throw new Error(`Build "${buildId}" not found`);
-  }
+  await saveActiveBuild(kv, identity, previous, restored, "restore_revision");
 
-  const build = result.value;
+  return restored;
+}
 
-  // Verify the user owns this build
-  if (!canAccessBuild(identity, identity.userId)) {
-    throw new Error("Access denied");
-  }
+/**
+ * List revisions of the active build, newest first
+ */
+export async function listBuildRevisions(
+  kv: KV,
+  identity: UserIdentity,
+  options?: { limit?: number },
+): ReturnType<typeof listRevisions> {
+  return listRevisions(kv, identity, ACTIVE_BUILD_KEY, options);
+}
 
-  // Copy to active build
-  const activeBuild: Build = {
-    ...build,
-    id: ACTIVE_BUILD_KEY,
-    updatedAt: Date.now(),
-  };
+/**
+ * Step the active build's history and write the revision's snapshot to the
+ * active build, without recording a new revision
+ */
+async function stepActiveBuild(
+  kv: KV,
+  identity: UserIdentity,
+  direction: "undo" | "redo",
+): Promise<RevisionStep> {
+  return stepRevision(
+    kv,
+    identity,
+    ACTIVE_BUILD_KEY,
+    direction,
+    async (revision) => {
+      const { build: stored, ...details } = revision;
+      const { build } = migrateBuild(stored);
+      const previous = await readActiveBuild(kv, identity);
 
-  const activeKey = buildKey(identity.userId, ACTIVE_BUILD_KEY);
-  await KVHelpers.setJSON(kv, BUILDS_NAMESPACE, activeKey, activeBuild);
+      const change = await saveActiveBuild(
+        kv,
+        identity,
+        previous,
+        build,
+        direction,
+        { record: false },
+      );
 
-  return activeBuild;
+      return { revision: details, build, ...change };
+    },
+  );
 }
 
 /**
@@ -185,13 +1455,18 @@ export async function loadBuild(
 export async function listBuilds(
   kv: KV,
   identity: UserIdentity,
-  options?: { limit?: number; cursor?: string },
-): Promise<{ builds: BuildMetadata[]; cursor: string | null }> {
-  const { limit = 50, cursor } = options || {};
+  options?: { limit?: number; cursor?: string } & GarageScopeOptions,
+): Promise<{
+  builds: BuildMetadata[];
+  cursor: string | null;
+  unreadable: UnreadableBuild[];
+}> {
+  const { limit = 50, cursor, garageId } = options || {};
+  const scope = await resolveScope(kv, identity, garageId, "viewer");
 
-  // List all keys for this user
-  const prefix = `${identity.userId}:`;
-  const result = await kv.list(BUILDS_NAMESPACE, {
+  // List all keys for this user (or garage)
+  const prefix = `${scope.ownerId}:`;
+  const result = await kv.list(scope.namespace, {
     prefix,
     limit,
     cursor,
@@ -199,6 +1474,7 @@ export async function listBuilds(
 
   // Fetch metadata for each build (excluding the active build)
   const builds: BuildMetadata[] = [];
+  const unreadable: UnreadableBuild[] = [];
 
   for (const fullKey of result.keys) {
     // Extract buildId from the key
@@ -210,19 +1486,14 @@ export async function listBuilds(
     }
 
     // Get the build
-    const buildResult = await KVHelpers.getJSON<Build>(
-      kv,
-      BUILDS_NAMESPACE,
-      fullKey,
-    );
+    const buildResult = await tryReadBuild(kv, scope.namespace, fullKey);
 
-    if (buildResult) {
-      const build = buildResult.value;
+    if ("error" in buildResult) {
+      unreadable.push({ buildId, error: buildResult.error });
+    } else if (buildResult.stored) {
       builds.push({
-        id: build.id,
-        name: build.name,
-        createdAt: build.createdAt,
-        updatedAt: build.updatedAt,
+        ...toBuildMetadata(buildResult.stored.value),
+        version: buildResult.stored.metadata.version,
       });
     }
   }
@@ -230,58 +1501,337 @@ export async function listBuilds(
   return {
     builds,
     cursor: result.cursor,
+    unreadable,
+  };
+}
+
+/**
+ * Search saved builds by tag, name, persona, parts and score, sorted by name,
+ * last update or score
+ */
+export async function searchSavedBuilds(
+  kv: KV,
+  identity: UserIdentity,
+  search: BuildSearch & { limit?: number } & GarageScopeOptions,
+): Promise<{
+  builds: BuildMetadata[];
+  total: number;
+  unreadable: UnreadableBuild[];
+}> {
+  const { limit = 50, garageId, ...query } = search;
+  const scope = await resolveScope(kv, identity, garageId, "viewer");
+  const { saved, unreadable } = await readSavedBuilds(kv, scope);
+  const versions = new Map(
+    saved.map(({ build, version }) => [build.id, version]),
+  );
+
+  const builds = searchBuilds(
+    saved.map(({ build }) => build),
+    query,
+  ).map((metadata) => ({ ...metadata, version: versions.get(metadata.id) }));
+  return {
+    builds: builds.slice(0, limit),
+    total: builds.length,
+    unreadable,
+  };
+}
+
+/**
+ * Add or remove tags on a saved build
+ */
+export async function tagBuild(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  changes: { add?: string[]; remove?: string[] },
+  options?: GarageScopeOptions,
+): Promise<BuildMetadata> {
+  if (buildId === ACTIVE_BUILD_KEY) {
+    throw new Error(
+      "Tags are kept on saved builds; save the active build first",
+    );
+  }
+
+  const scope = await resolveScope(kv, identity, options?.garageId, "editor");
+  const key = buildKey(scope.ownerId, buildId);
+  const result = await readBuild(kv, scope.namespace, key);
+
+  if (!result) {
+    throw new Error(`Build "${buildId}" not found`);
+  }
+
+  const build: Build = {
+    ...result.value,
+    tags: updateTags(result.value.tags, changes),
   };
+
+  await KVHelpers.setJSON(kv, scope.namespace, key, build, {
+    cas: result.metadata.version,
+  });
+
+  return toBuildMetadata(build);
 }
 
 /**
  * Delete a saved build
+ * Personal builds are unshared too, so grants and links to the deleted build
+ * don't carry over to a new build later saved with the same ID
  */
 export async function deleteBuild(
   kv: KV,
   identity: UserIdentity,
   buildId: string,
+  options?: GarageScopeOptions,
 ): Promise<boolean> {
   // Prevent deleting the active build
   if (buildId === ACTIVE_BUILD_KEY) {
     throw new Error("Cannot delete the active build");
   }
 
-  const key = buildKey(identity.userId, buildId);
-  return await kv.delete(BUILDS_NAMESPACE, key);
+  const scope = await resolveScope(kv, identity, options?.garageId, "editor");
+  const key = buildKey(scope.ownerId, buildId);
+  const result = await KVHelpers.getJSON<Build>(kv, scope.namespace, key);
+  const deleted = await kv.delete(scope.namespace, key);
+
+  if (result) {
+    const { name, id } = result.value;
+    await releaseBuildName(kv, scope, name ?? id, buildId);
+  }
+
+  if (!options?.garageId) {
+    await revokeShare(kv, identity, buildId);
+  }
+
+  return deleted;
 }
 
 /**
- * Get build details including performance score
+ * Get build details including performance score and the car-plus-driver rating
  */
 export async function getBuildDetails(
   kv: KV,
   identity: UserIdentity,
   buildId: string = ACTIVE_BUILD_KEY,
-): Promise<Build & { performanceScore: number }> {
+): Promise<
+  Build & {
+    performanceScore: number;
+    rating: BuildRating;
+    classStatus: ClassStatus;
+  }
+> {
   const key = buildKey(identity.userId, buildId);
 
-  const result = await KVHelpers.getJSON<Build>(kv, BUILDS_NAMESPACE, key);
+  const result = await readBuild(kv, BUILDS_NAMESPACE, key);
 
   if (!result) {
     if (buildId === ACTIVE_BUILD_KEY) {
       // Create default build for active
+      const build = createBuild(ACTIVE_BUILD_KEY);
       return {
-        ...createBuild(ACTIVE_BUILD_KEY),
-        performanceScore: 50,
+        ...build,
+        performanceScore: calculatePerformanceScore(build.car, build.driver),
+        rating: calculateBuildRating(build.car, build.driver),
+        classStatus: getClassStatus(build),
       };
     }
     throw new Error(`Build "${buildId}" not found`);
   }
 
   const build = result.value;
-  const performanceScore = calculatePerformanceScore(build.car);
 
   return {
     ...build,
-    performanceScore,
+    performanceScore: calculatePerformanceScore(build.car, build.driver),
+    rating: calculateBuildRating(build.car, build.driver),
+    classStatus: getClassStatus(build),
+  };
+}
+
+/**
+ * Audit a build (defaults to the active build) against the part
+ * compatibility rules
+ */
+export async function validateBuild(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string = ACTIVE_BUILD_KEY,
+  options?: GarageScopeOptions,
+): Promise<{
+  buildId: string;
+  name?: string;
+  valid: boolean;
+  issues: CompatibilityIssue[];
+}> {
+  const scope = await resolveScope(kv, identity, options?.garageId, "viewer");
+  const build =
+    !options?.garageId && buildId === ACTIVE_BUILD_KEY
+      ? await getCurrentBuild(kv, identity)
+      : (await readBuild(kv, scope.namespace, buildKey(scope.ownerId, buildId)))
+          ?.value;
+
+  if (!build) {
+    throw new Error(`Build "${buildId}" not found`);
+  }
+
+  const issues = checkCompatibility(build.car);
+
+  return {
+    buildId: build.id,
+    name: build.name,
+    valid: issues.every((i) => i.severity !== "error"),
+    issues,
+  };
+}
+
+/**
+ * Export a build (defaults to the active build) as a share code
+ */
+export async function exportBuildCode(
+  kv: KV,
+  identity: UserIdentity,
+  buildId?: string,
+): Promise<{ buildId: string; name?: string; code: string }> {
+  const build = await getBuildDetails(kv, identity, buildId);
+
+  return {
+    buildId: build.id,
+    name: build.name,
+    code: encodeShareCode(build.car, build.driver),
+  };
+}
+
+/**
+ * Import a share code, either as the active build or as a saved build
+ * Importing as the active build is paid for like any other change
+ * @param options.saveAs - Save under this name instead of loading it
+ */
+export async function importBuildCode(
+  kv: KV,
+  identity: UserIdentity,
+  code: string,
+  options?: { saveAs?: string },
+): Promise<Build> {
+  const { car, driver } = decodeShareCode(code);
+
+  if (options?.saveAs) {
+    return writeSavedBuild(
+      kv,
+      identity,
+      personalScope(identity),
+      options.saveAs,
+      createBuild(ACTIVE_BUILD_KEY, undefined, car, driver),
+    );
+  }
+
+  const previous = await readActiveBuild(kv, identity);
+  const build: Build = {
+    ...previous.build,
+    car,
+    driver,
+    updatedAt: Date.now(),
+  };
+
+  await saveActiveBuild(kv, identity, previous, build, "import_build_code");
+
+  return build;
+}
+
+/**
+ * One side of a build comparison
+ * With a buildId, inline car and driver fields override that build's fields;
+ * without one, they override the default build. An empty source is the active build.
+ */
+export interface BuildSource {
+  buildId?: string;
+  car?: CarConfigUpdate;
+  driver?: DriverProfileUpdate;
+}
+
+/**
+ * Which build a comparison side resolved to (buildId is null for inline configs)
+ */
+export interface ComparedBuild {
+  buildId: string | null;
+  name?: string;
+  inline: boolean;
+}
+
+/**
+ * Compare two builds (each defaults to the active build)
+ */
+export async function compareBuilds(
+  kv: KV,
+  identity: UserIdentity,
+  from: BuildSource = {},
+  to: BuildSource = {},
+): Promise<{ from: ComparedBuild; to: ComparedBuild; diff: BuildDiff }> {
+  const [fromBuild, fromLabel] = await resolveBuildSource(kv, identity, from);
+  const [toBuild, toLabel] = await resolveBuildSource(kv, identity, to);
+
+  return {
+    from: fromLabel,
+    to: toLabel,
+    diff: diffBuilds(fromBuild, toBuild),
+  };
+}
+
+async function resolveBuildSource(
+  kv: KV,
+  identity: UserIdentity,
+  source: BuildSource,
+): Promise<[Build, ComparedBuild]> {
+  const inline = source.car !== undefined || source.driver !== undefined;
+
+  const base =
+    source.buildId !== undefined || !inline
+      ? await getBuildDetails(kv, identity, source.buildId)
+      : createBuild("inline");
+
+  const build: Build = {
+    ...base,
+    car: applyCarConfigUpdate(
+      base.car,
+      CarConfigUpdateSchema.parse(source.car ?? {}),
+    ),
+    driver: {
+      ...base.driver,
+      ...DriverProfileUpdateSchema.parse(source.driver ?? {}),
+    },
+  };
+
+  return [
+    build,
+    {
+      buildId: source.buildId !== undefined || !inline ? base.id : null,
+      name: base.name,
+      inline,
+    },
+  ];
+}
+
+/**
+ * Class a build is held to and the lowest class it qualifies for
+ */
+export interface ClassStatus {
+  carClass: CarClass | null;
+  qualifiesFor: CarClass;
+  statTotal: number;
+}
+
+export function getClassStatus(build: Build): ClassStatus {
+  return {
+    carClass: build.carClass ?? null,
+    qualifiesFor: qualifyingClass(build.car),
+    statTotal: statTotal(build.car),
   };
 }
 
+function errorRuleIds(car: CarConfig): string[] {
+  return checkCompatibility(car)
+    .filter((i) => i.severity === "error")
+    .map((i) => i.ruleId);
+}
+
 /**
  * Sanitize a build name to create a safe build ID
  */
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SQLiteKV } from "../storage/sqlite.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import {
+  createGarage,
+  inviteToGarage,
+  joinGarage,
+  listGarages,
+  removeGarageMember,
+  requireGarageRole,
+  setGarageRole,
+} from "./garages.ts";
+import { listBuilds, saveBuild } from "./builds.ts";
+
+describe("team garages", () => {
+  const owner: UserIdentity = {
+    userId: "owner",
+    email: "owner@example.com",
+    authenticated: true,
+  };
+  const friend: UserIdentity = {
+    userId: "friend",
+    email: "Friend@Example.com",
+    authenticated: true,
+  };
+  const stranger: UserIdentity = { userId: "stranger", authenticated: true };
+  let kv: SQLiteKV;
+  let garageId: string;
+
+  const join = async (role: "viewer" | "editor") => {
+    await inviteToGarage(kv, owner, garageId, "friend@example.com", role);
+    return joinGarage(kv, friend, garageId);
+  };
+
+  beforeEach(async () => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+    garageId = (await createGarage(kv, owner, "Pit Crew")).id;
+  });
+
+  it("should rank roles from viewer to owner", async () => {
+    await join("viewer");
+
+    await expect(
+      requireGarageRole(kv, friend, garageId, "viewer"),
+    ).resolves.toMatchObject({ name: "Pit Crew" });
+    await expect(
+      requireGarageRole(kv, friend, garageId, "editor"),
+    ).rejects.toThrow("requires the editor role");
+    await expect(
+      saveBuild(kv, friend, "Team Car", { garageId }),
+    ).rejects.toThrow("(you are viewer)");
+
+    await setGarageRole(kv, owner, garageId, "friend", "editor");
+    await saveBuild(kv, friend, "Team Car", { garageId });
+    expect((await listBuilds(kv, owner, { garageId })).builds).toHaveLength(1);
+    await expect(
+      inviteToGarage(kv, friend, garageId, "other@example.com", "viewer"),
+    ).rejects.toThrow("requires the owner role");
+
+    await expect(
+      requireGarageRole(kv, owner, garageId, "owner"),
+    ).resolves.toBeDefined();
+  });
+
+  it("should hide garages from non-members", async () => {
+    await expect(
+      requireGarageRole(kv, stranger, garageId, "viewer"),
+    ).rejects.toThrow(`Garage "${garageId}" not found`);
+    await expect(
+      requireGarageRole(kv, stranger, "g_missing", "viewer"),
+    ).rejects.toThrow('Garage "g_missing" not found');
+  });
+
+  it("should let only verified emails accept invitations", async () => {
+    await inviteToGarage(kv, owner, garageId, " FRIEND@example.com ", "editor");
+
+    const unverified = { ...friend, authenticated: false };
+    expect((await listGarages(kv, unverified)).invitations).toEqual([]);
+    await expect(joinGarage(kv, unverified, garageId)).rejects.toThrow(
+      "No invitation",
+    );
+    await expect(joinGarage(kv, stranger, garageId)).rejects.toThrow(
+      "No invitation",
+    );
+
+    expect((await listGarages(kv, friend)).invitations).toEqual([
+      { garageId, name: "Pit Crew", role: "editor" },
+    ]);
+    const garage = await joinGarage(kv, friend, garageId);
+    expect(garage.invitations).toEqual([]);
+    expect(garage.members.map((m) => [m.userId, m.role])).toEqual([
+      ["owner", "owner"],
+      ["friend", "editor"],
+    ]);
+    expect(await listGarages(kv, friend)).toEqual({
+      garages: [{ id: garageId, name: "Pit Crew", role: "editor", members: 2 }],
+      invitations: [],
+    });
+  });
+
+  it("should let members leave but not the owner", async () => {
+    await join("viewer");
+
+    await expect(removeGarageMember(kv, owner, garageId)).rejects.toThrow(
+      "The garage owner cannot leave or be removed",
+    );
+    await expect(
+      removeGarageMember(kv, friend, garageId, "owner"),
+    ).rejects.toThrow("requires the owner role");
+    await expect(
+      setGarageRole(kv, owner, garageId, "owner", "viewer"),
+    ).rejects.toThrow("The garage owner's role cannot be changed");
+
+    await removeGarageMember(kv, friend, garageId);
+    expect((await listGarages(kv, friend)).garages).toEqual([]);
+    await expect(
+      requireGarageRole(kv, friend, garageId, "viewer"),
+    ).rejects.toThrow("not found");
+  });
+});
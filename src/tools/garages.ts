@@ -0,0 +1,389 @@
+/**
+ * Team garage tools for Pomeranian Kart MCP Server
+ * Garages hold builds that belong to a team, with owner, editor and viewer roles
+ */
+
+import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+
+const GARAGES_NAMESPACE = "garages";
+
+/**
+ * Garage membership roles, lowest to highest
+ * Viewers can list and load builds, editors can also save and delete them,
+ * owners can also manage members
+ */
+export const GarageRoleSchema = z.enum(["viewer", "editor", "owner"]);
+
+export type GarageRole = z.infer<typeof GarageRoleSchema>;
+
+/**
+ * Roles that can be handed out by invitation (there is one owner per garage)
+ */
+export const InvitableRoleSchema = z.enum(["viewer", "editor"]);
+
+export type InvitableRole = z.infer<typeof InvitableRoleSchema>;
+
+export interface GarageMember {
+  userId: string;
+  name?: string;
+  email?: string;
+  role: GarageRole;
+  joinedAt: number;
+}
+
+export interface GarageInvitation {
+  email: string;
+  role: InvitableRole;
+  invitedBy: string;
+  createdAt: number;
+}
+
+export interface Garage {
+  id: string;
+  name: string;
+  members: GarageMember[];
+  invitations: GarageInvitation[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Storage key formats:
+ *   garage:${garageId}              - Garage
+ *   member:${userId}:${garageId}    - membership index entry
+ *   invite:${email}:${garageId}     - invitation index entry
+ */
+function garageKey(garageId: string): string {
+  return `garage:${garageId}`;
+}
+
+function memberKey(userId: string, garageId: string): string {
+  return `member:${userId}:${garageId}`;
+}
+
+function inviteKey(email: string, garageId: string): string {
+  return `invite:${email}:${garageId}`;
+}
+
+/**
+ * Create a garage owned by the caller
+ */
+export async function createGarage(
+  kv: KV,
+  identity: UserIdentity,
+  name: string,
+): Promise<Garage> {
+  const now = Date.now();
+  const garage: Garage = {
+    id: `g_${randomBytes(6).toString("base64url")}`,
+    name,
+    members: [
+      {
+        userId: identity.userId,
+        name: identity.name,
+        email: identity.email?.toLowerCase(),
+        role: "owner",
+        joinedAt: now,
+      },
+    ],
+    invitations: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await KVHelpers.setJSON(kv, GARAGES_NAMESPACE, garageKey(garage.id), garage);
+  await KVHelpers.setJSON(
+    kv,
+    GARAGES_NAMESPACE,
+    memberKey(identity.userId, garage.id),
+    { garageId: garage.id },
+  );
+
+  return garage;
+}
+
+/**
+ * Get a garage, checking the caller holds at least the given role
+ * @throws Error if the garage doesn't exist or the caller's role is too low
+ */
+export async function requireGarageRole(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string,
+  role: GarageRole,
+): Promise<Garage> {
+  const { garage } = await readGarage(kv, identity, garageId, role);
+  return garage;
+}
+
+/**
+ * List the caller's garages and pending invitations
+ */
+export async function listGarages(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<{
+  garages: { id: string; name: string; role: GarageRole; members: number }[];
+  invitations: { garageId: string; name: string; role: InvitableRole }[];
+}> {
+  const garages = [];
+  for (const garageId of await listIndex(kv, `member:${identity.userId}:`)) {
+    const garage = await getGarage(kv, garageId);
+    const member = garage?.members.find((m) => m.userId === identity.userId);
+    if (garage && member) {
+      garages.push({
+        id: garage.id,
+        name: garage.name,
+        role: member.role,
+        members: garage.members.length,
+      });
+    }
+  }
+
+  const invitations = [];
+  const email = verifiedEmail(identity);
+  if (email) {
+    for (const garageId of await listIndex(kv, `invite:${email}:`)) {
+      const garage = await getGarage(kv, garageId);
+      const invitation = garage?.invitations.find((i) => i.email === email);
+      if (garage && invitation) {
+        invitations.push({
+          garageId: garage.id,
+          name: garage.name,
+          role: invitation.role,
+        });
+      }
+    }
+  }
+
+  return { garages, invitations };
+}
+
+/**
+ * Invite someone to a garage by email (owner only)
+ * Re-inviting an email replaces the pending invitation's role
+ */
+export async function inviteToGarage(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string,
+  email: string,
+  role: InvitableRole,
+): Promise<Garage> {
+  const { garage, version } = await readGarage(kv, identity, garageId, "owner");
+  const normalized = email.trim().toLowerCase();
+
+  if (garage.members.some((m) => m.email === normalized)) {
+    throw new Error(`${normalized} is already a member of this garage`);
+  }
+
+  garage.invitations = [
+    ...garage.invitations.filter((i) => i.email !== normalized),
+    {
+      email: normalized,
+      role,
+      invitedBy: identity.userId,
+      createdAt: Date.now(),
+    },
+  ];
+
+  await writeGarage(kv, garage, version);
+  await KVHelpers.setJSON(
+    kv,
+    GARAGES_NAMESPACE,
+    inviteKey(normalized, garageId),
+    { garageId },
+  );
+
+  return garage;
+}
+
+/**
+ * Accept an invitation sent to the caller's email
+ */
+export async function joinGarage(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string,
+): Promise<Garage> {
+  const email = verifiedEmail(identity);
+  const stored = await KVHelpers.getJSON<Garage>(
+    kv,
+    GARAGES_NAMESPACE,
+    garageKey(garageId),
+  );
+  const invitation = email
+    ? stored?.value.invitations.find((i) => i.email === email)
+    : undefined;
+
+  if (!stored || !invitation) {
+    throw new Error(`No invitation to garage "${garageId}" for your email`);
+  }
+
+  const garage = stored.value;
+  if (garage.members.some((m) => m.userId === identity.userId)) {
+    throw new Error(`You are already a member of garage "${garage.name}"`);
+  }
+
+  garage.invitations = garage.invitations.filter((i) => i !== invitation);
+  garage.members = [
+    ...garage.members,
+    {
+      userId: identity.userId,
+      name: identity.name,
+      email,
+      role: invitation.role,
+      joinedAt: Date.now(),
+    },
+  ];
+
+  await writeGarage(kv, garage, stored.metadata.version);
+  await kv.delete(GARAGES_NAMESPACE, inviteKey(invitation.email, garageId));
+  await KVHelpers.setJSON(
+    kv,
+    GARAGES_NAMESPACE,
+    memberKey(identity.userId, garageId),
+    { garageId },
+  );
+
+  return garage;
+}
+
+/**
+ * Change a member's role (owner only)
+ */
+export async function setGarageRole(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string,
+  userId: string,
+  role: InvitableRole,
+): Promise<Garage> {
+  const { garage, version } = await readGarage(kv, identity, garageId, "owner");
+  const member = findMember(garage, userId);
+
+  if (member.role === "owner") {
+    throw new Error("The garage owner's role cannot be changed");
+  }
+
+  member.role = role;
+  await writeGarage(kv, garage, version);
+
+  return garage;
+}
+
+/**
+ * Remove a member from a garage
+ * Owners can remove anyone but themselves; other members can only remove
+ * themselves (leave the garage)
+ */
+export async function removeGarageMember(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string,
+  userId: string = identity.userId,
+): Promise<Garage> {
+  const leaving = userId.toLowerCase() === identity.userId;
+  const { garage, version } = await readGarage(
+    kv,
+    identity,
+    garageId,
+    leaving ? "viewer" : "owner",
+  );
+  const member = findMember(garage, userId);
+
+  if (member.role === "owner") {
+    throw new Error("The garage owner cannot leave or be removed");
+  }
+
+  garage.members = garage.members.filter((m) => m !== member);
+  await writeGarage(kv, garage, version);
+  await kv.delete(GARAGES_NAMESPACE, memberKey(member.userId, garageId));
+
+  return garage;
+}
+
+async function getGarage(kv: KV, garageId: string): Promise<Garage | null> {
+  const result = await KVHelpers.getJSON<Garage>(
+    kv,
+    GARAGES_NAMESPACE,
+    garageKey(garageId),
+  );
+  return result?.value ?? null;
+}
+
+async function readGarage(
+  kv: KV,
+  identity: UserIdentity,
+  garageId: string,
+  role: GarageRole,
+): Promise<{ garage: Garage; version: number }> {
+  const result = await KVHelpers.getJSON<Garage>(
+    kv,
+    GARAGES_NAMESPACE,
+    garageKey(garageId),
+  );
+  const member = result?.value.members.find(
+    (m) => m.userId === identity.userId,
+  );
+
+  // Non-members get the same error as for a missing garage
+  if (!result || !member) {
+    throw new Error(`Garage "${garageId}" not found`);
+  }
+
+  const ranks = GarageRoleSchema.options;
+  if (ranks.indexOf(member.role) < ranks.indexOf(role)) {
+    throw new Error(
+      `This action requires the ${role} role in garage "${result.value.name}" (you are ${member.role})`,
+    );
+  }
+
+  return { garage: result.value, version: result.metadata.version };
+}
+
+async function writeGarage(
+  kv: KV,
+  garage: Garage,
+  version: number,
+): Promise<void> {
+  garage.updatedAt = Date.now();
+  await KVHelpers.setJSON(kv, GARAGES_NAMESPACE, garageKey(garage.id), garage, {
+    cas: version,
+  });
+}
+
+function findMember(garage: Garage, userId: string): GarageMember {
+  const member = garage.members.find((m) => m.userId === userId.toLowerCase());
+  if (!member) {
+    throw new Error(`User "${userId}" is not a member of this garage`);
+  }
+  return member;
+}
+
+/**
+ * Email invitations only match authenticated identities
+ */
+function verifiedEmail(identity: UserIdentity): string | undefined {
+  return identity.authenticated ? identity.email?.toLowerCase() : undefined;
+}
+
+/**
+ * Collect garage IDs from an index prefix
+ */
+async function listIndex(kv: KV, prefix: string): Promise<string[]> {
+  const garageIds: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list(GARAGES_NAMESPACE, { prefix, cursor });
+    garageIds.push(...page.keys.map((key) => key.substring(prefix.length)));
+    cursor = page.cursor ?? undefined;
+  } while (cursor);
+
+  return garageIds;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SQLiteKV } from "../storage/sqlite.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { getInventory, purchaseUnlock, recordProgress } from "./inventory.ts";
+import { getWallet } from "./wallet.ts";
+import { unlockRequirement } from "../domain/unlocks.ts";
+
+describe("inventory", () => {
+  const identity: UserIdentity = { userId: "racer", authenticated: true };
+  let kv: SQLiteKV;
+
+  beforeEach(() => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+  });
+
+  it("should keep concurrent progress and purchases", async () => {
+    const { balance } = await getWallet(kv, identity);
+
+    const [bought] = await Promise.all([
+      purchaseUnlock(kv, identity, "underglow", "white"),
+      recordProgress(kv, identity.userId, { xp: 100 }),
+      recordProgress(kv, identity.userId, { xp: 50 }),
+    ]);
+
+    const inventory = await getInventory(kv, identity);
+    expect(inventory.xp).toBe(150);
+    expect(inventory.purchased).toEqual(["underglow:white"]);
+    expect(bought.balance).toBeLessThan(balance);
+  });
+
+  it("should refund a purchase that can't be recorded", async () => {
+    const { balance } = await getWallet(kv, identity);
+
+    const results = await Promise.allSettled([
+      purchaseUnlock(kv, identity, "underglow", "white"),
+      purchaseUnlock(kv, identity, "underglow", "white"),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect((await getInventory(kv, identity)).purchased).toEqual([
+      "underglow:white",
+    ]);
+    const requirement = unlockRequirement("underglow", "white");
+    expect((await getWallet(kv, identity)).balance).toBe(
+      balance - (requirement?.type === "purchase" ? requirement.price : NaN),
+    );
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Inventory tools for Pomeranian Kart MCP Server
+ * Tracks each user's XP, achievement badges and purchased parts, which decide
+ * the locked part options they can fit
+ */
+
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import {
+  type CarConfig,
+  ColorSchema,
+  DriverPersonaSchema,
+} from "../domain/models.ts";
+import { PART_CATEGORIES, PART_CATEGORY_NAMES } from "../domain/parts.ts";
+import {
+  type AchievementEvent,
+  ACHIEVEMENTS,
+  evaluateAchievements,
+} from "../domain/achievements.ts";
+import {
+  type LockablePart,
+  type UnlockProgress,
+  type UnlockRequirement,
+  LockablePartSchema,
+  PART_UNLOCKS,
+  describeRequirement,
+  isUnlocked,
+  unlockKey,
+  unlockRequirement,
+} from "../domain/unlocks.ts";
+import { adjustWallet } from "./wallet.ts";
+
+const INVENTORIES_NAMESPACE = "inventories";
+
+/**
+ * An earned achievement
+ */
+export interface Badge {
+  id: string;
+  unlockedAt: number;
+}
+
+export interface Inventory {
+  xp: number;
+  /** Earned achievements, oldest first */
+  badges: Badge[];
+  /** Purchased options as "part:option" */
+  purchased: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A lockable option and whether the caller has unlocked it
+ */
+export interface PartOption {
+  value: string;
+  locked: boolean;
+  requirement?: UnlockRequirement & { description: string };
+}
+
+/**
+ * Inventory storage key format: ${userId}
+ */
+function inventoryKey(userId: string): string {
+  return userId;
+}
+
+/**
+ * Get the caller's inventory
+ */
+export async function getInventory(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<Inventory> {
+  const { inventory } = await readInventory(kv, identity.userId);
+  return inventory;
+}
+
+/**
+ * Get the caller's XP, achievements and purchases for unlock checks
+ */
+export async function getUnlockProgress(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<UnlockProgress> {
+  const { inventory } = await readInventory(kv, identity.userId);
+  return progressOf(inventory);
+}
+
+/**
+ * Add XP to a user's inventory and award any achievements an event earns
+ * Retried if another request wrote the inventory since it was read, since
+ * callers record progress after their own change is already committed
+ * @returns The updated inventory, the badges it newly earned and the options
+ *   it newly unlocked
+ */
+export async function recordProgress(
+  kv: KV,
+  userId: string,
+  progress: { xp?: number; event?: AchievementEvent },
+): Promise<{ inventory: Inventory; badges: Badge[]; unlocked: string[] }> {
+  const { inventory, version } = await readInventory(kv, userId);
+  const before = lockedOptions(progressOf(inventory));
+
+  const earned = progress.event
+    ? evaluateAchievements(
+        progress.event,
+        inventory.badges.map((badge) => badge.id),
+      )
+    : [];
+  const badges = earned.map(({ id }) => ({ id, unlockedAt: Date.now() }));
+
+  if (!progress.xp && badges.length === 0) {
+    return { inventory, badges, unlocked: [] };
+  }
+
+  inventory.xp += progress.xp ?? 0;
+  inventory.badges = [...inventory.badges, ...badges];
+
+  try {
+    await writeInventory(kv, userId, inventory, version);
+  } catch (error) {
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return recordProgress(kv, userId, progress);
+  }
+
+  const after = new Set(lockedOptions(progressOf(inventory)));
+  return {
+    inventory,
+    badges,
+    unlocked: before.filter((key) => !after.has(key)),
+  };
+}
+
+/**
+ * List every achievement with whether the caller has earned it and the part
+ * options it unlocks
+ */
+export async function listAchievements(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<{
+  achievements: {
+    id: string;
+    name: string;
+    description: string;
+    earned: boolean;
+    unlockedAt?: number;
+    unlocks: string[];
+  }[];
+}> {
+  const { inventory } = await readInventory(kv, identity.userId);
+
+  return {
+    achievements: ACHIEVEMENTS.map(({ id, name, description }) => {
+      const badge = inventory.badges.find((b) => b.id === id);
+      return {
+        id,
+        name,
+        description,
+        earned: badge !== undefined,
+        unlockedAt: badge?.unlockedAt,
+        unlocks: LockablePartSchema.options.flatMap((part) =>
+          Object.entries(PART_UNLOCKS[part])
+            .filter(
+              ([, requirement]) =>
+                requirement.type === "achievement" &&
+                requirement.achievement === id,
+            )
+            .map(([option]) => unlockKey(part, option)),
+        ),
+      };
+    }),
+  };
+}
+
+/**
+ * List the caller's earned badges, newest first
+ */
+export async function getMyBadges(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<{
+  badges: (Badge & { name: string; description: string })[];
+}> {
+  const { inventory } = await readInventory(kv, identity.userId);
+
+  return {
+    badges: inventory.badges
+      .flatMap((badge) => {
+        const achievement = ACHIEVEMENTS.find((a) => a.id === badge.id);
+        return achievement
+          ? [
+              {
+                ...badge,
+                name: achievement.name,
+                description: achievement.description,
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => b.unlockedAt - a.unlockedAt),
+  };
+}
+
+/**
+ * Buy a locked option that is unlocked by purchase
+ * The price is charged before the inventory write and refunded if it fails
+ */
+export async function purchaseUnlock(
+  kv: KV,
+  identity: UserIdentity,
+  part: LockablePart,
+  option: string,
+): Promise<{ inventory: Inventory; balance: number }> {
+  if (!partOptions(part).includes(option)) {
+    throw new Error(`Unknown ${part} option "${option}"`);
+  }
+
+  const { inventory, version } = await readInventory(kv, identity.userId);
+  const requirement = unlockRequirement(part, option);
+
+  if (!requirement || isUnlocked(progressOf(inventory), part, option)) {
+    throw new Error(`${part} "${option}" is already unlocked`);
+  }
+  if (requirement.type !== "purchase") {
+    throw new Error(
+      `${part} "${option}" can't be bought: ${describeRequirement(requirement)}`,
+    );
+  }
+
+  const wallet = await adjustWallet(
+    kv,
+    identity.userId,
+    -requirement.price,
+    "unlock",
+    `Unlocked ${part} "${option}"`,
+  );
+
+  try {
+    return {
+      inventory: await addPurchase(kv, identity.userId, part, option, {
+        inventory,
+        version,
+      }),
+      balance: wallet.balance,
+    };
+  } catch (error) {
+    await adjustWallet(
+      kv,
+      identity.userId,
+      requirement.price,
+      "unlock",
+      `Refund for failed unlock of ${part} "${option}"`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Add a purchased option to an inventory, retrying if another request wrote
+ * the inventory since it was read
+ */
+async function addPurchase(
+  kv: KV,
+  userId: string,
+  part: LockablePart,
+  option: string,
+  stored: { inventory: Inventory; version?: number },
+): Promise<Inventory> {
+  const { inventory, version } = stored;
+  const key = unlockKey(part, option);
+
+  if (inventory.purchased.includes(key)) {
+    throw new Error(`${part} "${option}" is already unlocked`);
+  }
+
+  inventory.purchased = [...inventory.purchased, key];
+
+  try {
+    await writeInventory(kv, userId, inventory, version);
+  } catch (error) {
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return addPurchase(
+      kv,
+      userId,
+      part,
+      option,
+      await readInventory(kv, userId),
+    );
+  }
+
+  return inventory;
+}
+
+/**
+ * List every customization option, marking lockable options as locked or
+ * unlocked for the caller
+ * Part options are listed under each category's optionsKey in the part
+ * registry. Paint can also be any custom color in one of customColorFormats
+ */
+export async function getCustomizationOptions(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<Record<string, readonly string[] | PartOption[]>> {
+  const progress = await getUnlockProgress(kv, identity);
+
+  const describe = (part: LockablePart, values: readonly string[]) =>
+    values.map((value): PartOption => {
+      const requirement = unlockRequirement(part, value);
+      return requirement
+        ? {
+            value,
+            locked: !isUnlocked(progress, part, value),
+            requirement: {
+              ...requirement,
+              description: describeRequirement(requirement),
+            },
+          }
+        : { value, locked: false };
+    });
+
+  const parts = PART_CATEGORY_NAMES.map((category) => {
+    const { optionsKey, options } = PART_CATEGORIES[category];
+    const lockable = LockablePartSchema.safeParse(category);
+    return [
+      optionsKey,
+      lockable.success ? describe(lockable.data, options) : options,
+    ];
+  });
+
+  return {
+    colors: ColorSchema.options,
+    customColorFormats: ["#rgb", "#rrggbb", "rgb(r, g, b)"],
+    ...Object.fromEntries(parts),
+    driverPersonas: DriverPersonaSchema.options,
+  };
+}
+
+/**
+ * Throw if a change fits options the user hasn't unlocked
+ * Locked options already on the car are left alone
+ * @throws Error listing each locked option and its requirement
+ */
+export async function assertPartsUnlocked(
+  kv: KV,
+  identity: UserIdentity,
+  before: CarConfig,
+  after: CarConfig,
+): Promise<void> {
+  const progress = await getUnlockProgress(kv, identity);
+
+  const locked = LockablePartSchema.options.flatMap((part) => {
+    const option = after[part];
+    const requirement = unlockRequirement(part, option);
+    return option !== before[part] &&
+      requirement &&
+      !isUnlocked(progress, part, option)
+      ? [`${part} "${option}" (${describeRequirement(requirement)})`]
+      : [];
+  });
+
+  if (locked.length > 0) {
+    throw new Error(
+      `Locked parts: ${locked.join("; ")}. You have ${progress.xp} XP`,
+    );
+  }
+}
+
+function progressOf(inventory: Inventory): UnlockProgress {
+  return {
+    xp: inventory.xp,
+    achievements: inventory.badges.map((badge) => badge.id),
+    purchased: inventory.purchased,
+  };
+}
+
+/**
+ * Keys of every option the progress doesn't unlock yet
+ */
+function lockedOptions(progress: UnlockProgress): string[] {
+  return LockablePartSchema.options.flatMap((part) =>
+    partOptions(part)
+      .filter((option) => !isUnlocked(progress, part, option))
+      .map((option) => unlockKey(part, option)),
+  );
+}
+
+/**
+ * Options of a lockable part, from the part registry
+ */
+function partOptions(part: LockablePart): readonly string[] {
+  return PART_CATEGORIES[part].options;
+}
+
+async function readInventory(
+  kv: KV,
+  userId: string,
+): Promise<{ inventory: Inventory; version?: number }> {
+  const stored = await KVHelpers.getJSON<Inventory>(
+    kv,
+    INVENTORIES_NAMESPACE,
+    inventoryKey(userId),
+  );
+
+  if (!stored) {
+    const now = Date.now();
+    return {
+      inventory: {
+        xp: 0,
+        badges: [],
+        purchased: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+    };
+  }
+
+  return { inventory: stored.value, version: stored.metadata.version };
+}
+
+async function writeInventory(
+  kv: KV,
+  userId: string,
+  inventory: Inventory,
+  version: number | undefined,
+): Promise<void> {
+  inventory.updatedAt = Date.now();
+  await KVHelpers.setJSON(
+    kv,
+    INVENTORIES_NAMESPACE,
+    inventoryKey(userId),
+    inventory,
+    { cas: version ?? 0 },
+  );
+}
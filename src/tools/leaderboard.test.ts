@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SQLiteKV } from "../storage/sqlite.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { saveBuild } from "./builds.ts";
+import { simulateRaceForUser } from "./race.ts";
+import { getLeaderboard, submitResult } from "./leaderboard.ts";
+
+vi.stubEnv("RACE_REWARDS_PER_DAY", "1");
+
+describe("leaderboards", () => {
+  const racers: UserIdentity[] = ["ada", "ben", "cal"].map((userId) => ({
+    userId,
+    name: userId.toUpperCase(),
+    authenticated: true,
+  }));
+  let kv: SQLiteKV;
+
+  const race = async (identity: UserIdentity, seed: number) => {
+    const { raceId } = await simulateRaceForUser(kv, identity, {
+      trackId: "harbor_circuit",
+      seed,
+    });
+    return submitResult(kv, identity, raceId);
+  };
+
+  beforeEach(() => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+  });
+
+  it("should rank racers by total points", async () => {
+    await race(racers[0], 1);
+    await race(racers[1], 2);
+    await race(racers[2], 3);
+    await race(racers[1], 4);
+
+    const { board, entries } = await getLeaderboard(kv, racers[1]);
+    expect(board).toBe("global");
+    expect(entries.map((e) => e.rank)).toEqual([1, 2, 3]);
+    expect(entries.map((e) => e.isCurrentUser)).toEqual(
+      entries.map((e) => e.displayName === "BEN"),
+    );
+    expect(entries.find((e) => e.isCurrentUser)?.races).toBe(2);
+    for (let i = 1; i < entries.length; i++) {
+      expect(entries[i - 1].points).toBeGreaterThanOrEqual(entries[i].points);
+    }
+    expect(entries[0]).not.toHaveProperty("userId");
+  });
+
+  it("should rank track boards by best lap", async () => {
+    await race(racers[0], 1);
+    await race(racers[1], 2);
+
+    const { entries } = await getLeaderboard(kv, racers[0], {
+      scope: "track",
+      trackId: "harbor_circuit",
+      metric: "bestLap",
+    });
+    expect(entries).toHaveLength(2);
+    expect(entries[0].bestLap).toBeLessThanOrEqual(entries[1].bestLap!);
+
+    await expect(
+      getLeaderboard(kv, racers[0], { metric: "bestLap" }),
+    ).rejects.toThrow("only available on track boards");
+  });
+
+  it("should page through a board with cursors", async () => {
+    for (const [i, racer] of racers.entries()) {
+      await race(racer, i + 1);
+    }
+    const all = await getLeaderboard(kv, racers[0]);
+
+    const first = await getLeaderboard(kv, racers[0], { limit: 2 });
+    expect(first.entries).toEqual(all.entries.slice(0, 2));
+    expect(first.cursor).not.toBeNull();
+
+    const second = await getLeaderboard(kv, racers[0], {
+      limit: 2,
+      cursor: first.cursor!,
+    });
+    expect(second.entries).toEqual(all.entries.slice(2));
+    expect(second.entries[0].rank).toBe(3);
+
+    await expect(
+      getLeaderboard(kv, racers[0], { cursor: "not-a-cursor" }),
+    ).rejects.toThrow("Invalid leaderboard cursor");
+  });
+
+  it("should accept each race only once", async () => {
+    const { raceId } = await simulateRaceForUser(kv, racers[0], {
+      trackId: "harbor_circuit",
+      seed: 1,
+    });
+
+    const results = await Promise.allSettled([
+      submitResult(kv, racers[0], raceId),
+      submitResult(kv, racers[0], raceId),
+    ]);
+    expect(results.map((r) => r.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    await expect(submitResult(kv, racers[0], raceId)).rejects.toThrow(
+      "has already been submitted",
+    );
+
+    const { entries } = await getLeaderboard(kv, racers[0]);
+    expect(entries).toMatchObject([{ races: 1 }]);
+  });
+
+  it("should refuse races without AI opponents", async () => {
+    await saveBuild(kv, racers[0], "Sparring Partner");
+    const { raceId } = await simulateRaceForUser(kv, racers[0], {
+      trackId: "harbor_circuit",
+      opponents: 0,
+      buildIds: ["sparring_partner"],
+    });
+
+    await expect(submitResult(kv, racers[0], raceId)).rejects.toThrow(
+      "had no AI opponents",
+    );
+  });
+
+  it("should not mix up builds and AI opponents with the same ID", async () => {
+    await saveBuild(kv, racers[0], "AI 1");
+    const { raceId, standings } = await simulateRaceForUser(kv, racers[0], {
+      trackId: "harbor_circuit",
+      opponents: 1,
+      buildIds: ["ai_1"],
+      seed: 3,
+    });
+
+    expect(standings.map((s) => s.id).sort()).toEqual([
+      "ai:1",
+      "build:active",
+      "build:ai_1",
+    ]);
+    expect(await submitResult(kv, racers[0], raceId)).toMatchObject({
+      position: standings.find((s) => s.id === "build:active")?.position,
+    });
+  });
+
+  it("should stop paying out after the daily limit", async () => {
+    const first = await race(racers[0], 1);
+    expect(first.xp).toBeGreaterThan(0);
+    expect(first.rewardedRacesLeft).toBe(0);
+
+    const second = await race(racers[0], 2);
+    expect(second).toMatchObject({ reward: 0, xp: 0, rewardedRacesLeft: 0 });
+    expect(second.balance).toBe(first.balance);
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Leaderboard tools for Pomeranian Kart MCP Server
+ * Keeps global, per-track and per-persona rankings of submitted race results
+ */
+
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import type { DriverPersona } from "../domain/models.ts";
+import type { TrackId } from "../domain/tracks.ts";
+import { getConfig } from "../config.ts";
+import { raceRewardScale } from "../domain/race.ts";
+import { claimRaceForSubmission } from "./race.ts";
+import { adjustWallet, getWallet } from "./wallet.ts";
+import { type Badge, recordProgress } from "./inventory.ts";
+import { RACE_FINISH_XP, RACE_XP_PER_POINT } from "../domain/unlocks.ts";
+
+const LEADERBOARDS_NAMESPACE = "leaderboards";
+
+/** Daily reward counters outlive their day so they can't reset early */
+const REWARDS_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+/** Largest sortable value; points are stored inverted so higher sorts first */
+const SORT_KEY_MAX = 999_999_999;
+
+/**
+ * Which board to read
+ */
+export type LeaderboardScope = "global" | "track" | "persona";
+
+/**
+ * What a board is ranked by
+ * Best lap only makes sense within a single track
+ */
+export type LeaderboardMetric = "points" | "bestLap";
+
+/**
+ * A user's standing on a single board
+ */
+export interface LeaderboardEntry {
+  userId: string;
+  displayName: string;
+  /** Persona used in the most recent submitted race */
+  persona: DriverPersona;
+  /** Build name used in the most recent submitted race */
+  buildName?: string;
+  races: number;
+  wins: number;
+  points: number;
+  /** Best lap in seconds (track boards only) */
+  bestLap?: number;
+  updatedAt: number;
+}
+
+/**
+ * Leaderboard row as returned to callers (user IDs are not exposed)
+ */
+export interface LeaderboardRow extends Omit<LeaderboardEntry, "userId"> {
+  rank: number;
+  isCurrentUser: boolean;
+}
+
+/**
+ * Options for reading a leaderboard
+ */
+export interface LeaderboardQuery {
+  scope?: LeaderboardScope;
+  trackId?: TrackId;
+  persona?: DriverPersona;
+  metric?: LeaderboardMetric;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Result of submitting a race to the leaderboards
+ */
+export interface SubmitResultOutcome {
+  raceId: string;
+  trackId: TrackId;
+  position: number;
+  points: number;
+  bestLap: number;
+  boards: Record<string, LeaderboardEntry>;
+  /** Credits paid into the caller's wallet */
+  reward: number;
+  balance: number;
+  xp: number;
+  /** Races that still pay credits and XP today (UTC) */
+  rewardedRacesLeft: number;
+  /** Achievements earned by this race */
+  badges: Badge[];
+  /** Part options unlocked by this race, as "part:option" */
+  unlocked: string[];
+}
+
+/**
+ * Resolve the storage ID of a board from its scope
+ */
+function boardId(query: LeaderboardQuery): string {
+  const { scope = "global", trackId, persona } = query;
+
+  switch (scope) {
+    case "global":
+      return "global";
+    case "track":
+      if (!trackId) {
+        throw new Error("trackId is required for track leaderboards");
+      }
+      return `track_${trackId}`;
+    case "persona":
+      if (!persona) {
+        throw new Error("persona is required for persona leaderboards");
+      }
+      return `persona_${persona}`;
+  }
+}
+
+/**
+ * Entry storage key format: entry:${boardId}:${userId}
+ */
+function entryKey(board: string, userId: string): string {
+  return `entry:${board}:${userId}`;
+}
+
+/**
+ * Ranking storage key format: rank:${boardId}:${metric}:${sortKey}:${userId}
+ * Keys sort lexicographically in ranking order, so kv.list returns the board top-down
+ */
+function rankPrefix(board: string, metric: LeaderboardMetric): string {
+  return `rank:${board}:${metric}:`;
+}
+
+function rankKey(
+  board: string,
+  metric: LeaderboardMetric,
+  entry: LeaderboardEntry,
+): string | null {
+  let sortValue: number;
+
+  if (metric === "bestLap") {
+    if (entry.bestLap === undefined) {
+      return null;
+    }
+    sortValue = Math.round(entry.bestLap * 1000);
+  } else {
+    sortValue = SORT_KEY_MAX - entry.points;
+  }
+
+  const sortKey = String(Math.min(SORT_KEY_MAX, sortValue)).padStart(9, "0");
+  return `${rankPrefix(board, metric)}${sortKey}:${entry.userId}`;
+}
+
+/**
+ * Daily reward counter key format: rewards:${userId}:${day}
+ */
+function rewardsKey(userId: string, day: string): string {
+  return `rewards:${userId}:${day}`;
+}
+
+/**
+ * Leaderboard cursors wrap the KV cursor with the rank reached so far
+ */
+function encodeCursor(kvCursor: string, rank: number): string {
+  return Buffer.from(JSON.stringify({ c: kvCursor, r: rank })).toString(
+    "base64url",
+  );
+}
+
+function decodeCursor(cursor: string): { kvCursor: string; rank: number } {
+  try {
+    const { c, r } = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof c === "string" && Number.isInteger(r)) {
+      return { kvCursor: c, rank: r };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid leaderboard cursor");
+}
+
+/**
+ * Read a ranked page of a leaderboard
+ */
+export async function getLeaderboard(
+  kv: KV,
+  identity: UserIdentity,
+  query: LeaderboardQuery = {},
+): Promise<{
+  board: string;
+  metric: LeaderboardMetric;
+  entries: LeaderboardRow[];
+  cursor: string | null;
+}> {
+  const { scope = "global", metric = "points", limit = 25, cursor } = query;
+
+  if (metric === "bestLap" && scope !== "track") {
+    throw new Error("Best lap rankings are only available on track boards");
+  }
+
+  const board = boardId(query);
+  const start = cursor ? decodeCursor(cursor) : undefined;
+
+  const result = await kv.list(LEADERBOARDS_NAMESPACE, {
+    prefix: rankPrefix(board, metric),
+    limit,
+    cursor: start?.kvCursor,
+  });
+
+  const entries: LeaderboardRow[] = [];
+  let rank = start?.rank ?? 0;
+
+  for (const key of result.keys) {
+    const userId = key.split(":").slice(4).join(":");
+    const entryResult = await KVHelpers.getJSON<LeaderboardEntry>(
+      kv,
+      LEADERBOARDS_NAMESPACE,
+      entryKey(board, userId),
+    );
+
+    // Skip ranking keys left behind by a concurrent update of the entry
+    if (entryResult && rankKey(board, metric, entryResult.value) === key) {
+      const { userId: entryUserId, ...entry } = entryResult.value;
+      entries.push({
+        ...entry,
+        rank: ++rank,
+        isCurrentUser: entryUserId === identity.userId,
+      });
+    }
+  }
+
+  return {
+    board,
+    metric,
+    entries,
+    cursor: result.cursor ? encodeCursor(result.cursor, rank) : null,
+  };
+}
+
+/**
+ * Submit one of the caller's simulated races to the global, track and persona boards
+ * Entries are always written under the caller's own user ID. The race points
+ * are paid into the caller's wallet as credits and XP, scaled by the size of
+ * the AI field, for up to RACE_REWARDS_PER_DAY races a day
+ */
+export async function submitResult(
+  kv: KV,
+  identity: UserIdentity,
+  raceId: string,
+): Promise<SubmitResultOutcome> {
+  const race = await claimRaceForSubmission(kv, identity, raceId);
+  const { result } = race;
+
+  const standing = result.standings.find((s) => s.id === race.entrantId);
+  if (!standing) {
+    throw new Error(`Race "${raceId}" has no result for your build`);
+  }
+
+  const displayName =
+    race.driver.nickname ?? identity.name ?? "Anonymous Racer";
+
+  const boards = {
+    global: "global",
+    track: `track_${result.trackId}`,
+    persona: `persona_${race.driver.persona}`,
+  };
+
+  const updated: Record<string, LeaderboardEntry> = {};
+
+  for (const board of Object.values(boards)) {
+    updated[board] = await updateEntry(
+      kv,
+      board,
+      identity.userId,
+      (previous) => {
+        const entry: LeaderboardEntry = {
+          userId: identity.userId,
+          displayName,
+          persona: race.driver.persona,
+          buildName: race.buildName,
+          races: (previous?.races ?? 0) + 1,
+          wins: (previous?.wins ?? 0) + (standing.position === 1 ? 1 : 0),
+          points: (previous?.points ?? 0) + standing.points,
+          updatedAt: Date.now(),
+        };
+
+        // Lap times are only comparable on the same track
+        if (board === boards.track) {
+          entry.bestLap = Math.min(
+            previous?.bestLap ?? Infinity,
+            standing.bestLap,
+          );
+        }
+
+        return entry;
+      },
+    );
+  }
+
+  const { rewarded, remaining } = await claimDailyRaceReward(
+    kv,
+    identity.userId,
+  );
+  const scale = rewarded ? raceRewardScale(result) : 0;
+
+  const reward = Math.round(
+    standing.points * getConfig().RACE_CREDITS_PER_POINT * scale,
+  );
+  const wallet =
+    reward > 0
+      ? await adjustWallet(
+          kv,
+          identity.userId,
+          reward,
+          "race_reward",
+          `P${standing.position} on ${result.trackId} (race ${raceId})`,
+        )
+      : await getWallet(kv, identity);
+
+  const xp = rewarded
+    ? RACE_FINISH_XP + Math.round(standing.points * RACE_XP_PER_POINT * scale)
+    : 0;
+  const { badges, unlocked } = await recordProgress(kv, identity.userId, {
+    xp,
+    event: { type: "race_completed", result, standing },
+  });
+
+  return {
+    raceId,
+    trackId: result.trackId,
+    position: standing.position,
+    points: standing.points,
+    bestLap: standing.bestLap,
+    boards: updated,
+    reward,
+    balance: wallet.balance,
+    xp,
+    rewardedRacesLeft: remaining,
+    badges,
+    unlocked,
+  };
+}
+
+/**
+ * Apply a change to a user's entry on one board, retrying if another
+ * submission wrote the entry since it was read
+ */
+async function updateEntry(
+  kv: KV,
+  board: string,
+  userId: string,
+  change: (previous?: LeaderboardEntry) => LeaderboardEntry,
+): Promise<LeaderboardEntry> {
+  const key = entryKey(board, userId);
+  const existing = await KVHelpers.getJSON<LeaderboardEntry>(
+    kv,
+    LEADERBOARDS_NAMESPACE,
+    key,
+  );
+  const previous = existing?.value;
+  const entry = change(previous);
+
+  try {
+    await KVHelpers.setJSON(kv, LEADERBOARDS_NAMESPACE, key, entry, {
+      cas: existing?.metadata.version ?? 0,
+    });
+  } catch (error) {
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return updateEntry(kv, board, userId, change);
+  }
+
+  // Move the user's ranking keys to reflect the new totals
+  for (const metric of ["points", "bestLap"] as const) {
+    const oldRank = previous ? rankKey(board, metric, previous) : null;
+    const newRank = rankKey(board, metric, entry);
+
+    if (oldRank && oldRank !== newRank) {
+      await kv.delete(LEADERBOARDS_NAMESPACE, oldRank);
+    }
+    if (newRank) {
+      await KVHelpers.setJSON(kv, LEADERBOARDS_NAMESPACE, newRank, { userId });
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Count a race against the user's daily limit of rewarded races
+ */
+async function claimDailyRaceReward(
+  kv: KV,
+  userId: string,
+): Promise<{ rewarded: boolean; remaining: number }> {
+  const limit = getConfig().RACE_REWARDS_PER_DAY;
+  const key = rewardsKey(userId, new Date().toISOString().slice(0, 10));
+  const stored = await KVHelpers.getJSON<{ races: number }>(
+    kv,
+    LEADERBOARDS_NAMESPACE,
+    key,
+  );
+  const races = stored?.value.races ?? 0;
+
+  if (races >= limit) {
+    return { rewarded: false, remaining: 0 };
+  }
+
+  try {
+    await KVHelpers.setJSON(
+      kv,
+      LEADERBOARDS_NAMESPACE,
+      key,
+      { races: races + 1 },
+      { cas: stored?.metadata.version ?? 0, ttl: REWARDS_TTL_SECONDS },
+    );
+  } catch (error) {
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return claimDailyRaceReward(kv, userId);
+  }
+
+  return { rewarded: true, remaining: limit - races - 1 };
+}
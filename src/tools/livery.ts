@@ -0,0 +1,55 @@
+/**
+ * Livery tools for Pomeranian Kart MCP Server
+ * Proposes color-harmonized liveries and scores builds for visual coherence
+ */
+
+import type { KV } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { getBuildDetails, getCurrentBuild } from "./builds.ts";
+import type { Color, PaintColor } from "../domain/models.ts";
+import { nearestNamedColor } from "../domain/paint.ts";
+import {
+  type ColorHarmony,
+  type Livery,
+  type LiveryMood,
+  type LiveryScore,
+  generateLiveries,
+  scoreLivery,
+} from "../domain/livery.ts";
+
+/**
+ * Propose liveries around a base color (defaults to the active build's paint)
+ * Custom paint is mapped to its nearest named color
+ */
+export async function generateLivery(
+  kv: KV,
+  identity: UserIdentity,
+  options: {
+    baseColor?: PaintColor;
+    harmony?: ColorHarmony;
+    mood?: LiveryMood;
+    count?: number;
+  } = {},
+): Promise<{ baseColor: Color; current: LiveryScore; liveries: Livery[] }> {
+  const build = await getCurrentBuild(kv, identity);
+  const baseColor = nearestNamedColor(options.baseColor ?? build.car.color);
+
+  return {
+    baseColor,
+    current: scoreLivery(build.car),
+    liveries: generateLiveries(baseColor, options),
+  };
+}
+
+/**
+ * Score a build's livery for visual coherence
+ */
+export async function scoreBuildLivery(
+  kv: KV,
+  identity: UserIdentity,
+  buildId?: string,
+): Promise<LiveryScore & { buildId: string }> {
+  const build = await getBuildDetails(kv, identity, buildId);
+
+  return { buildId: build.id, ...scoreLivery(build.car) };
+}
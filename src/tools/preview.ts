@@ -0,0 +1,26 @@
+/**
+ * Preview tools for Pomeranian Kart MCP Server
+ * Renders builds as SVG images
+ */
+
+import type { KV } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { getBuildDetails } from "./builds.ts";
+import { renderBuildSvg } from "../domain/preview.ts";
+
+/**
+ * Render a build (defaults to the active build) as an SVG document
+ */
+export async function getBuildPreview(
+  kv: KV,
+  identity: UserIdentity,
+  buildId?: string,
+): Promise<{ buildId: string; uri: string; svg: string }> {
+  const build = await getBuildDetails(kv, identity, buildId);
+
+  return {
+    buildId: build.id,
+    uri: `pimp-my-ride://builds/${encodeURIComponent(build.id)}/preview.svg`,
+    svg: renderBuildSvg(build),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Race tools for Pomeranian Kart MCP Server
+ * Assembles a grid from the user's builds and AI opponents and runs the race engine
+ */
+
+import { randomUUID } from "node:crypto";
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { getCurrentBuild, getBuildDetails } from "./builds.ts";
+import {
+  type RaceEntrant,
+  type RaceResult,
+  buildEntrantId,
+  createAiOpponents,
+  simulateRace,
+} from "../domain/race.ts";
+import type { DriverProfile } from "../domain/models.ts";
+import type { TrackId } from "../domain/tracks.ts";
+import { generateSeed } from "../lib/random.ts";
+
+const RACES_NAMESPACE = "races";
+
+/** Simulated races are kept for a day so they can be submitted */
+const RACE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Options for a simulated race
+ */
+export interface SimulateRaceOptions {
+  trackId: TrackId;
+  laps?: number;
+  seed?: number;
+  /** Number of AI opponents to add to the grid */
+  opponents?: number;
+  /** Saved builds to race against the active build */
+  buildIds?: string[];
+}
+
+/**
+ * A simulated race stored for later submission to the leaderboards
+ */
+export interface RaceRecord {
+  raceId: string;
+  /** Entrant ID of the user's own build in the standings */
+  entrantId: string;
+  buildName?: string;
+  driver: DriverProfile;
+  result: RaceResult;
+  createdAt: number;
+  /** Set once the result has been submitted to the leaderboards */
+  submittedAt?: number;
+}
+
+/**
+ * Race storage key format: ${userId}:${raceId}
+ */
+function raceKey(userId: string, raceId: string): string {
+  return `${userId}:${raceId}`;
+}
+
+/**
+ * Race the user's active build against saved builds and/or AI opponents
+ * The result is stored so it can be submitted with submitRaceResult
+ */
+export async function simulateRaceForUser(
+  kv: KV,
+  identity: UserIdentity,
+  options: SimulateRaceOptions,
+): Promise<RaceResult & { raceId: string }> {
+  const { trackId, laps = 3, opponents = 3, buildIds = [] } = options;
+  const seed = options.seed ?? generateSeed();
+
+  const activeBuild = await getCurrentBuild(kv, identity);
+
+  const entrants: RaceEntrant[] = [
+    {
+      id: buildEntrantId(activeBuild.id),
+      name:
+        activeBuild.driver.nickname ??
+        identity.name ??
+        activeBuild.name ??
+        "You",
+      car: activeBuild.car,
+      driver: activeBuild.driver,
+    },
+  ];
+
+  for (const buildId of new Set(buildIds)) {
+    // The active build is always on the grid already
+    if (buildId === activeBuild.id) {
+      continue;
+    }
+
+    const build = await getBuildDetails(kv, identity, buildId);
+    entrants.push({
+      id: buildEntrantId(build.id),
+      name: build.name ?? build.id,
+      car: build.car,
+      driver: build.driver,
+    });
+  }
+
+  entrants.push(...createAiOpponents(opponents, seed));
+
+  if (entrants.length < 2) {
+    throw new Error("A race needs at least one opponent or saved build");
+  }
+
+  const result = simulateRace(entrants, { trackId, laps, seed });
+
+  const record: RaceRecord = {
+    raceId: randomUUID(),
+    entrantId: buildEntrantId(activeBuild.id),
+    buildName: activeBuild.name,
+    driver: activeBuild.driver,
+    result,
+    createdAt: Date.now(),
+  };
+
+  await KVHelpers.setJSON(
+    kv,
+    RACES_NAMESPACE,
+    raceKey(identity.userId, record.raceId),
+    record,
+    { ttl: RACE_TTL_SECONDS },
+  );
+
+  return { raceId: record.raceId, ...result };
+}
+
+/**
+ * Mark one of the user's simulated races as submitted and return it
+ * Races are keyed by user ID, so a user can only ever claim their own results.
+ * Races without AI opponents can't be submitted, since the user picks the rest
+ * of the grid.
+ * @throws Error if the race does not exist, has expired, was already
+ *   submitted or had no AI opponents
+ */
+export async function claimRaceForSubmission(
+  kv: KV,
+  identity: UserIdentity,
+  raceId: string,
+): Promise<RaceRecord> {
+  const key = raceKey(identity.userId, raceId);
+  const stored = await KVHelpers.getJSON<RaceRecord>(kv, RACES_NAMESPACE, key);
+
+  if (!stored) {
+    throw new Error(`Race "${raceId}" not found or has expired`);
+  }
+
+  if (stored.value.submittedAt) {
+    throw new Error(`Race "${raceId}" has already been submitted`);
+  }
+
+  if (!stored.value.result.standings.some((s) => s.ai)) {
+    throw new Error(
+      `Race "${raceId}" had no AI opponents; only races against at least one can be submitted`,
+    );
+  }
+
+  const claimed: RaceRecord = { ...stored.value, submittedAt: Date.now() };
+
+  // CAS guards against the same race being submitted twice concurrently
+  await KVHelpers.setJSON(kv, RACES_NAMESPACE, key, claimed, {
+    ttl: RACE_TTL_SECONDS,
+    cas: stored.metadata.version,
+  });
+
+  return claimed;
+}
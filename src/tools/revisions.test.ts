@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SQLiteKV } from "../storage/sqlite.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import {
+  getCurrentBuild,
+  listBuildRevisions,
+  redoBuildChange,
+  restoreRevision,
+  undoBuildChange,
+  updateCarConfig,
+  updateDriverProfile,
+} from "./builds.ts";
+import { adjustWallet } from "./wallet.ts";
+import { recordRevision } from "./revisions.ts";
+
+vi.stubEnv("REVISION_HISTORY_LIMIT", "4");
+
+describe("build revisions", () => {
+  const identity: UserIdentity = { userId: "racer", authenticated: true };
+  let kv: SQLiteKV;
+
+  const rename = (nickname: string) =>
+    updateDriverProfile(kv, identity, { nickname });
+  const nickname = async () =>
+    (await getCurrentBuild(kv, identity)).driver.nickname;
+
+  beforeEach(() => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+  });
+
+  it("should undo and redo changes", async () => {
+    await rename("Biscuit");
+    await rename("Comet");
+
+    expect((await undoBuildChange(kv, identity)).build.driver.nickname).toBe(
+      "Biscuit",
+    );
+    expect(await nickname()).toBe("Biscuit");
+
+    await undoBuildChange(kv, identity);
+    expect(await nickname()).toBeUndefined();
+
+    const redone = await redoBuildChange(kv, identity);
+    expect(redone.revision.tool).toBe("update_driver_profile");
+    expect(await nickname()).toBe("Biscuit");
+  });
+
+  it("should refuse to undo or redo past the ends of the history", async () => {
+    await expect(undoBuildChange(kv, identity)).rejects.toThrow(
+      "Nothing to undo",
+    );
+    await expect(redoBuildChange(kv, identity)).rejects.toThrow(
+      "Nothing to redo",
+    );
+
+    await rename("Biscuit");
+    await expect(redoBuildChange(kv, identity)).rejects.toThrow(
+      "Nothing to redo",
+    );
+  });
+
+  it("should drop undone revisions when a new change is made", async () => {
+    await rename("Biscuit");
+    await rename("Comet");
+    await undoBuildChange(kv, identity);
+    await rename("Storm");
+
+    await expect(redoBuildChange(kv, identity)).rejects.toThrow(
+      "Nothing to redo",
+    );
+    expect(await nickname()).toBe("Storm");
+  });
+
+  it("should restore an earlier revision as a new revision", async () => {
+    await rename("Biscuit");
+    await rename("Comet");
+    const { revisions } = await listBuildRevisions(kv, identity);
+    const biscuit = revisions[1];
+
+    await restoreRevision(kv, identity, biscuit.id);
+    expect(await nickname()).toBe("Biscuit");
+
+    const after = await listBuildRevisions(kv, identity);
+    expect(after.revisions[0]).toMatchObject({
+      tool: "restore_revision",
+      isCurrent: true,
+    });
+
+    await undoBuildChange(kv, identity);
+    expect(await nickname()).toBe("Comet");
+
+    await expect(restoreRevision(kv, identity, 999)).rejects.toThrow(
+      "Revision 999 not found",
+    );
+  });
+
+  it("should keep only the newest revisions", async () => {
+    for (const name of ["A", "B", "C", "D", "E", "F"]) {
+      await rename(name);
+    }
+
+    const { revisions } = await listBuildRevisions(kv, identity);
+    expect(revisions.map((r) => r.id)).toEqual([7, 6, 5, 4]);
+
+    for (let i = 0; i < 3; i++) {
+      await undoBuildChange(kv, identity);
+    }
+    expect(await nickname()).toBe("C");
+    await expect(undoBuildChange(kv, identity)).rejects.toThrow(
+      "Nothing to undo",
+    );
+  });
+
+  it("should price undo and redo like any other change", async () => {
+    const bought = await updateCarConfig(kv, identity, { spoiler: "ducktail" });
+
+    const undone = await undoBuildChange(kv, identity);
+    expect(undone.price.total).toBeLessThan(0);
+    expect(undone.balance).toBe(bought.balance - undone.price.total);
+
+    const redone = await redoBuildChange(kv, identity);
+    expect(redone.price.total).toBe(bought.price.total);
+    expect(redone.balance).toBe(undone.balance - bought.price.total);
+  });
+
+  it("should leave the history alone when a step is refused", async () => {
+    await updateCarConfig(kv, identity, { spoiler: "ducktail" });
+    const undone = await undoBuildChange(kv, identity);
+    await adjustWallet(kv, identity.userId, -undone.balance, "unlock", "Spent");
+
+    await expect(redoBuildChange(kv, identity)).rejects.toThrow(
+      "Not enough credits",
+    );
+    expect((await getCurrentBuild(kv, identity)).car.spoiler).toBe("none");
+
+    await adjustWallet(kv, identity.userId, 1000, "daily_grant", "Top up");
+    const redone = await redoBuildChange(kv, identity);
+    expect(redone.build.car.spoiler).toBe("ducktail");
+  });
+
+  it("should keep revisions recorded concurrently", async () => {
+    const build = await getCurrentBuild(kv, identity);
+    const named = (nickname: string) => ({
+      ...build,
+      driver: { ...build.driver, nickname },
+    });
+
+    await Promise.all([
+      recordRevision(kv, identity, build, named("Biscuit"), "a"),
+      recordRevision(kv, identity, build, named("Comet"), "b"),
+    ]);
+
+    const { revisions } = await listBuildRevisions(kv, identity);
+    expect(revisions.map((r) => r.tool).sort()).toEqual(["a", "b", "initial"]);
+  });
+});
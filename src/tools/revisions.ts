@@ -0,0 +1,266 @@
+/**
+ * Build revision history for Pomeranian Kart MCP Server
+ * Keeps a capped, per-build log of snapshots that supports undo and redo
+ */
+
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import type { Build } from "../domain/models.ts";
+import {
+  type BuildDiff,
+  describeBuildDiff,
+  diffBuilds,
+} from "../domain/diff.ts";
+import { getConfig } from "../config.ts";
+
+const REVISIONS_NAMESPACE = "revisions";
+
+/**
+ * A snapshot of a build after a change
+ */
+export interface BuildRevision {
+  id: number;
+  timestamp: number;
+  /** Tool that produced this revision */
+  tool: string;
+  /** Human-readable list of what changed from the previous revision */
+  summary: string[];
+  /** Structured changes from the previous revision */
+  diff: BuildDiff;
+  build: Build;
+}
+
+/**
+ * Revision log for a single build
+ */
+interface RevisionLog {
+  revisions: BuildRevision[];
+  /** ID of the revision the build currently matches */
+  current: number;
+  nextId: number;
+}
+
+/**
+ * Revision log storage key format: ${userId}:${buildId}
+ */
+function revisionKey(userId: string, buildId: string): string {
+  return `${userId}:${buildId}`;
+}
+
+/**
+ * Record a change to a build
+ * The first recorded change also stores the previous state, so it can be undone.
+ * Recording after an undo discards the undone revisions (no redo past a new change).
+ * Callers record after the build is written, so a conflicting write to the
+ * log is retried rather than failing the change.
+ */
+export async function recordRevision(
+  kv: KV,
+  identity: UserIdentity,
+  previous: Build,
+  next: Build,
+  tool: string,
+): Promise<BuildRevision> {
+  return updateLog(kv, revisionKey(identity.userId, next.id), (log) =>
+    appendRevision(log, previous, next, tool),
+  );
+}
+
+/**
+ * Move the current revision one step back (undo) or forward (redo)
+ * @param apply - Writes the target revision's snapshot to the build; the
+ *   current revision only moves if it succeeds
+ * @returns What apply returned
+ * @throws Error if there is nothing to undo or redo
+ */
+export async function stepRevision<T>(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  direction: "undo" | "redo",
+  apply: (revision: BuildRevision) => Promise<T>,
+): Promise<T> {
+  const key = revisionKey(identity.userId, buildId);
+  const stored = await KVHelpers.getJSON<RevisionLog>(
+    kv,
+    REVISIONS_NAMESPACE,
+    key,
+  );
+
+  const log = stored?.value;
+  const index = log ? log.revisions.findIndex((r) => r.id === log.current) : -1;
+  const target = log?.revisions[direction === "undo" ? index - 1 : index + 1];
+
+  if (!log || index === -1 || !target) {
+    throw new Error(`Nothing to ${direction}`);
+  }
+
+  const result = await apply(target);
+
+  // The build already matches the target, so a concurrent change to the log
+  // is merged rather than failing the step
+  await updateLog(kv, key, (latest) => {
+    if (latest.revisions.some((r) => r.id === target.id)) {
+      latest.current = target.id;
+    } else {
+      const current = latest.revisions.find((r) => r.id === latest.current);
+      appendRevision(
+        latest,
+        current?.build ?? target.build,
+        target.build,
+        direction,
+      );
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Apply a change to a build's revision log, retrying if another request
+ * wrote the log since it was read
+ */
+async function updateLog<T>(
+  kv: KV,
+  key: string,
+  change: (log: RevisionLog) => T,
+): Promise<T> {
+  const stored = await KVHelpers.getJSON<RevisionLog>(
+    kv,
+    REVISIONS_NAMESPACE,
+    key,
+  );
+
+  const log: RevisionLog = stored?.value ?? {
+    revisions: [],
+    current: 0,
+    nextId: 1,
+  };
+  const result = change(log);
+
+  try {
+    await KVHelpers.setJSON(kv, REVISIONS_NAMESPACE, key, log, {
+      cas: stored?.metadata.version ?? 0,
+    });
+  } catch (error) {
+    if (!KVHelpers.isCasConflict(error)) {
+      throw error;
+    }
+    return updateLog(kv, key, change);
+  }
+
+  return result;
+}
+
+/**
+ * Add a revision after the current one, discarding undone revisions and
+ * enforcing the retention cap
+ */
+function appendRevision(
+  log: RevisionLog,
+  previous: Build,
+  next: Build,
+  tool: string,
+): BuildRevision {
+  if (log.revisions.length === 0) {
+    log.revisions.push({
+      id: log.nextId++,
+      timestamp: previous.updatedAt,
+      tool: "initial",
+      summary: [],
+      diff: diffBuilds(previous, previous),
+      build: previous,
+    });
+  } else {
+    // Drop any revisions that were undone
+    const index = log.revisions.findIndex((r) => r.id === log.current);
+    log.revisions = log.revisions.slice(0, index + 1);
+  }
+
+  const diff = diffBuilds(previous, next);
+  const revision: BuildRevision = {
+    id: log.nextId++,
+    timestamp: next.updatedAt,
+    tool,
+    summary: describeBuildDiff(diff),
+    diff,
+    build: next,
+  };
+
+  log.revisions.push(revision);
+  log.current = revision.id;
+
+  // Enforce the retention cap, oldest first
+  const { REVISION_HISTORY_LIMIT } = getConfig();
+  if (log.revisions.length > REVISION_HISTORY_LIMIT) {
+    log.revisions = log.revisions.slice(-REVISION_HISTORY_LIMIT);
+  }
+
+  return revision;
+}
+
+/**
+ * Get a single revision by ID
+ */
+export async function getRevision(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  revisionId: number,
+): Promise<BuildRevision> {
+  const stored = await KVHelpers.getJSON<RevisionLog>(
+    kv,
+    REVISIONS_NAMESPACE,
+    revisionKey(identity.userId, buildId),
+  );
+
+  const revision = stored?.value.revisions.find((r) => r.id === revisionId);
+
+  if (!revision) {
+    throw new Error(`Revision ${revisionId} not found`);
+  }
+
+  return revision;
+}
+
+/**
+ * List revisions for a build, newest first (snapshots omitted)
+ */
+export async function listRevisions(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  options?: { limit?: number },
+): Promise<{
+  buildId: string;
+  current: number | null;
+  revisions: (Omit<BuildRevision, "build"> & { isCurrent: boolean })[];
+}> {
+  const { limit = 20 } = options || {};
+
+  const stored = await KVHelpers.getJSON<RevisionLog>(
+    kv,
+    REVISIONS_NAMESPACE,
+    revisionKey(identity.userId, buildId),
+  );
+
+  if (!stored) {
+    return { buildId, current: null, revisions: [] };
+  }
+
+  const { revisions, current } = stored.value;
+
+  return {
+    buildId,
+    current,
+    revisions: revisions
+      .slice()
+      .reverse()
+      .slice(0, limit)
+      .map(({ build: _build, ...revision }) => ({
+        ...revision,
+        isCurrent: revision.id === current,
+      })),
+  };
+}
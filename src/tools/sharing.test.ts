@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SQLiteKV } from "../storage/sqlite.ts";
+import { type UserIdentity, canAccessBuild } from "../auth/pomerium.ts";
+import {
+  deleteBuild,
+  getCurrentBuild,
+  listBuilds,
+  saveBuild,
+  updateDriverProfile,
+} from "./builds.ts";
+import {
+  forkSharedBuild,
+  getSharedBuild,
+  listSharedWithMe,
+  revokeShare,
+  shareBuild,
+} from "./sharing.ts";
+
+describe("build sharing", () => {
+  const owner: UserIdentity = {
+    userId: "owner",
+    name: "Owner",
+    authenticated: true,
+  };
+  const friend: UserIdentity = {
+    userId: "friend",
+    email: "Friend@Example.com",
+    authenticated: true,
+  };
+  const stranger: UserIdentity = { userId: "stranger", authenticated: true };
+  let kv: SQLiteKV;
+
+  beforeEach(async () => {
+    kv = new SQLiteKV({ filename: ":memory:" });
+    await updateDriverProfile(kv, owner, { nickname: "Biscuit" });
+    await saveBuild(kv, owner, "Red Devil");
+  });
+
+  it("should give link holders read access", async () => {
+    const { share } = await shareBuild(kv, owner, "red_devil", { link: true });
+
+    const build = await getSharedBuild(kv, stranger, {
+      linkToken: share.target,
+    });
+    expect(build).toMatchObject({ ownerId: "owner", id: "red_devil" });
+
+    await expect(
+      getSharedBuild(kv, stranger, { linkToken: "not-a-token" }),
+    ).rejects.toThrow("invalid or has been revoked");
+    await expect(
+      getSharedBuild(kv, stranger, { ownerId: "owner", buildId: "red_devil" }),
+    ).rejects.toThrow("not found or not shared with you");
+  });
+
+  it("should share with verified email addresses only", async () => {
+    await shareBuild(kv, owner, "red_devil", { email: "friend@example.com" });
+
+    const { builds } = await listSharedWithMe(kv, friend);
+    expect(builds).toMatchObject([
+      { ownerId: "owner", buildId: "red_devil", via: "email" },
+    ]);
+    await expect(
+      getSharedBuild(kv, friend, { ownerId: "owner", buildId: "red_devil" }),
+    ).resolves.toMatchObject({ name: "Red Devil" });
+
+    const anonymous = { ...friend, authenticated: false };
+    expect((await listSharedWithMe(kv, anonymous)).builds).toEqual([]);
+    await expect(
+      getSharedBuild(kv, anonymous, { ownerId: "owner", buildId: "red_devil" }),
+    ).rejects.toThrow("not found or not shared with you");
+  });
+
+  it("should only ever grant read access", () => {
+    const grants = [
+      { type: "user" as const, target: "friend" },
+      { type: "link" as const, target: "token" },
+    ];
+
+    expect(canAccessBuild(friend, "owner", { grants })).toBe(true);
+    expect(canAccessBuild(friend, "owner", { access: "write", grants })).toBe(
+      false,
+    );
+    expect(
+      canAccessBuild(stranger, "owner", { grants, linkToken: "token" }),
+    ).toBe(true);
+    expect(
+      canAccessBuild(stranger, "owner", {
+        access: "write",
+        grants,
+        linkToken: "token",
+      }),
+    ).toBe(false);
+    expect(canAccessBuild(owner, "owner", { access: "write" })).toBe(true);
+  });
+
+  it("should revoke shares", async () => {
+    const { share: link } = await shareBuild(kv, owner, "red_devil", {
+      link: true,
+    });
+    const { share } = await shareBuild(kv, owner, "red_devil", {
+      userId: "friend",
+    });
+
+    const result = await revokeShare(kv, owner, "red_devil", share.id);
+    expect(result).toEqual({ revoked: 1, shares: [link] });
+    expect((await listSharedWithMe(kv, friend)).builds).toEqual([]);
+
+    await revokeShare(kv, owner, "red_devil");
+    await expect(
+      getSharedBuild(kv, stranger, { linkToken: link.target }),
+    ).rejects.toThrow("invalid or has been revoked");
+    await expect(revokeShare(kv, owner, "red_devil", share.id)).rejects.toThrow(
+      `Share "${share.id}" not found`,
+    );
+  });
+
+  it("should revoke shares when the build is deleted", async () => {
+    const { share } = await shareBuild(kv, owner, "red_devil", { link: true });
+    await shareBuild(kv, owner, "red_devil", { userId: "friend" });
+
+    await deleteBuild(kv, owner, "red_devil");
+    await saveBuild(kv, owner, "Red Devil");
+
+    await expect(
+      getSharedBuild(kv, stranger, { linkToken: share.target }),
+    ).rejects.toThrow("invalid or has been revoked");
+    await expect(
+      getSharedBuild(kv, friend, { ownerId: "owner", buildId: "red_devil" }),
+    ).rejects.toThrow("not found or not shared with you");
+  });
+
+  it("should fork a shared build into the caller's garage", async () => {
+    const { share } = await shareBuild(kv, owner, "red_devil", { link: true });
+
+    const forked = await forkSharedBuild(
+      kv,
+      stranger,
+      { linkToken: share.target },
+      "My Devil",
+    );
+    expect(forked.driver.nickname).toBe("Biscuit");
+    expect((await getCurrentBuild(kv, stranger)).driver.nickname).toBe(
+      "Biscuit",
+    );
+
+    const { builds } = await listBuilds(kv, stranger);
+    expect(builds.map((b) => [b.id, b.name])).toEqual([
+      ["my_devil", "My Devil"],
+    ]);
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Build sharing tools for Pomeranian Kart MCP Server
+ * Owners grant other users, email addresses or public links read-only access
+ * to saved builds
+ */
+
+import { randomBytes } from "node:crypto";
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity, BuildAccessGrant } from "../auth/pomerium.ts";
+import { canAccessBuild } from "../auth/pomerium.ts";
+import {
+  type Build,
+  type BuildRating,
+  calculateBuildRating,
+  calculatePerformanceScore,
+} from "../domain/models.ts";
+import {
+  type ClassStatus,
+  ACTIVE_BUILD_KEY,
+  forkBuild,
+  getBuildByOwner,
+  getClassStatus,
+} from "./builds.ts";
+
+const SHARES_NAMESPACE = "shares";
+
+/**
+ * A read-only grant on a saved build
+ */
+export interface BuildShare extends BuildAccessGrant {
+  id: string;
+  createdAt: number;
+}
+
+/**
+ * All grants on a single build
+ */
+interface BuildShares {
+  ownerId: string;
+  ownerName: string;
+  buildId: string;
+  shares: BuildShare[];
+}
+
+/**
+ * Inbox entry pointing a grantee at a shared build
+ */
+interface InboxEntry {
+  shareId: string;
+  ownerId: string;
+  ownerName: string;
+  buildId: string;
+  via: "user" | "email";
+  sharedAt: number;
+}
+
+/**
+ * Where to find a shared build
+ * Either an owner ID (for builds shared with the caller) or a link token
+ */
+export interface SharedBuildRef {
+  buildId?: string;
+  ownerId?: string;
+  linkToken?: string;
+}
+
+/**
+ * Storage key formats:
+ *   grants:${ownerId}:${buildId}                     - BuildShares
+ *   inbox:${type}:${target}:${ownerId}:${buildId}    - InboxEntry
+ *   link:${token}                                    - { ownerId, buildId }
+ */
+function grantsKey(ownerId: string, buildId: string): string {
+  return `grants:${ownerId}:${buildId}`;
+}
+
+function inboxPrefix(type: "user" | "email", target: string): string {
+  return `inbox:${type}:${target}:`;
+}
+
+function inboxKey(
+  type: "user" | "email",
+  target: string,
+  ownerId: string,
+  buildId: string,
+): string {
+  return `${inboxPrefix(type, target)}${ownerId}:${buildId}`;
+}
+
+function linkKey(token: string): string {
+  return `link:${token}`;
+}
+
+/**
+ * Grant read-only access to a saved build
+ * Exactly one of userId, email or link must be given
+ */
+export async function shareBuild(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  target: { userId?: string; email?: string; link?: boolean },
+): Promise<{ share: BuildShare; shares: BuildShare[] }> {
+  const targets = [target.userId, target.email, target.link || undefined];
+  if (targets.filter((t) => t !== undefined).length !== 1) {
+    throw new Error("Provide exactly one of userId, email or link");
+  }
+
+  if (buildId === ACTIVE_BUILD_KEY) {
+    throw new Error("Save the active build before sharing it");
+  }
+
+  const build = await getBuildByOwner(kv, identity.userId, buildId);
+  if (!build) {
+    throw new Error(`Build "${buildId}" not found`);
+  }
+
+  const grant: BuildAccessGrant = target.link
+    ? { type: "link", target: randomBytes(16).toString("base64url") }
+    : target.email
+      ? { type: "email", target: target.email.trim().toLowerCase() }
+      : { type: "user", target: target.userId!.trim().toLowerCase() };
+
+  if (
+    (grant.type === "user" && grant.target === identity.userId) ||
+    (grant.type === "email" && grant.target === identity.email?.toLowerCase())
+  ) {
+    throw new Error("You already own this build");
+  }
+
+  const key = grantsKey(identity.userId, buildId);
+  const stored = await KVHelpers.getJSON<BuildShares>(
+    kv,
+    SHARES_NAMESPACE,
+    key,
+  );
+  const record: BuildShares = stored?.value ?? {
+    ownerId: identity.userId,
+    ownerName: identity.name ?? identity.email ?? identity.userId,
+    buildId,
+    shares: [],
+  };
+
+  const existing = record.shares.find(
+    (s) => s.type === grant.type && s.target === grant.target,
+  );
+  if (existing) {
+    return { share: existing, shares: record.shares };
+  }
+
+  const share: BuildShare = {
+    ...grant,
+    id: randomBytes(6).toString("base64url"),
+    createdAt: Date.now(),
+  };
+  record.shares.push(share);
+
+  await KVHelpers.setJSON(kv, SHARES_NAMESPACE, key, record, {
+    cas: stored?.metadata.version,
+  });
+
+  if (share.type === "link") {
+    await KVHelpers.setJSON(kv, SHARES_NAMESPACE, linkKey(share.target), {
+      ownerId: identity.userId,
+      buildId,
+    });
+  } else {
+    const entry: InboxEntry = {
+      shareId: share.id,
+      ownerId: identity.userId,
+      ownerName: record.ownerName,
+      buildId,
+      via: share.type,
+      sharedAt: share.createdAt,
+    };
+    await KVHelpers.setJSON(
+      kv,
+      SHARES_NAMESPACE,
+      inboxKey(share.type, share.target, identity.userId, buildId),
+      entry,
+    );
+  }
+
+  return { share, shares: record.shares };
+}
+
+/**
+ * Revoke one grant on a build, or all of them when shareId is omitted
+ */
+export async function revokeShare(
+  kv: KV,
+  identity: UserIdentity,
+  buildId: string,
+  shareId?: string,
+): Promise<{ revoked: number; shares: BuildShare[] }> {
+  const key = grantsKey(identity.userId, buildId);
+  const stored = await KVHelpers.getJSON<BuildShares>(
+    kv,
+    SHARES_NAMESPACE,
+    key,
+  );
+
+  const shares = stored?.value.shares ?? [];
+  const revoked = shares.filter((s) => !shareId || s.id === shareId);
+
+  if (shareId && revoked.length === 0) {
+    throw new Error(`Share "${shareId}" not found on build "${buildId}"`);
+  }
+
+  const remaining = shares.filter((s) => !revoked.includes(s));
+
+  if (stored) {
+    if (remaining.length > 0) {
+      await KVHelpers.setJSON(
+        kv,
+        SHARES_NAMESPACE,
+        key,
+        { ...stored.value, shares: remaining },
+        { cas: stored.metadata.version },
+      );
+    } else {
+      await kv.delete(SHARES_NAMESPACE, key);
+    }
+  }
+
+  for (const share of revoked) {
+    await kv.delete(
+      SHARES_NAMESPACE,
+      share.type === "link"
+        ? linkKey(share.target)
+        : inboxKey(share.type, share.target, identity.userId, buildId),
+    );
+  }
+
+  return { revoked: revoked.length, shares: remaining };
+}
+
+/**
+ * List builds other users have shared with the caller (by user ID or email)
+ */
+export async function listSharedWithMe(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<{
+  builds: (Omit<InboxEntry, "shareId"> & {
+    name?: string;
+    performanceScore: number;
+  })[];
+  /** Shared builds that could not be read, left out of builds */
+  unreadable: { ownerId: string; buildId: string; error: string }[];
+}> {
+  const prefixes = [inboxPrefix("user", identity.userId)];
+  if (identity.authenticated && identity.email) {
+    prefixes.push(inboxPrefix("email", identity.email.toLowerCase()));
+  }
+
+  const seen = new Set<string>();
+  const builds = [];
+  const unreadable = [];
+
+  for (const prefix of prefixes) {
+    let cursor: string | undefined;
+    do {
+      const page = await kv.list(SHARES_NAMESPACE, { prefix, cursor });
+
+      for (const key of page.keys) {
+        const entry = await KVHelpers.getJSON<InboxEntry>(
+          kv,
+          SHARES_NAMESPACE,
+          key,
+        );
+        if (!entry) {
+          continue;
+        }
+
+        const { ownerId, ownerName, buildId, via, sharedAt } = entry.value;
+        const id = `${ownerId}:${buildId}`;
+        if (seen.has(id)) {
+          continue;
+        }
+
+        seen.add(id);
+
+        // Skip builds the owner has since deleted or that can't be migrated
+        let build;
+        try {
+          build = await getBuildByOwner(kv, ownerId, buildId);
+        } catch (error) {
+          unreadable.push({
+            ownerId,
+            buildId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          continue;
+        }
+        if (!build) {
+          continue;
+        }
+
+        builds.push({
+          ownerId,
+          ownerName,
+          buildId,
+          name: build.name,
+          via,
+          sharedAt,
+          performanceScore: calculatePerformanceScore(build.car, build.driver),
+        });
+      }
+
+      cursor = page.cursor ?? undefined;
+    } while (cursor);
+  }
+
+  return {
+    builds: builds.sort((a, b) => b.sharedAt - a.sharedAt),
+    unreadable,
+  };
+}
+
+/**
+ * Read a build shared with the caller, enforcing read-only access
+ */
+export async function getSharedBuild(
+  kv: KV,
+  identity: UserIdentity,
+  ref: SharedBuildRef,
+): Promise<
+  Build & {
+    ownerId: string;
+    performanceScore: number;
+    rating: BuildRating;
+    classStatus: ClassStatus;
+  }
+> {
+  const { ownerId, build } = await readSharedBuild(kv, identity, ref);
+
+  return {
+    ...build,
+    ownerId,
+    performanceScore: calculatePerformanceScore(build.car, build.driver),
+    rating: calculateBuildRating(build.car, build.driver),
+    classStatus: getClassStatus(build),
+  };
+}
+
+/**
+ * Fork a shared build into the caller's garage and make it active
+ * @param saveAs - Name for the copy (defaults to the original name)
+ */
+export async function forkSharedBuild(
+  kv: KV,
+  identity: UserIdentity,
+  ref: SharedBuildRef,
+  saveAs?: string,
+): Promise<Build> {
+  const { build } = await readSharedBuild(kv, identity, ref);
+
+  return forkBuild(kv, identity, build, saveAs ?? build.name ?? build.id);
+}
+
+async function readSharedBuild(
+  kv: KV,
+  identity: UserIdentity,
+  ref: SharedBuildRef,
+): Promise<{ ownerId: string; build: Build }> {
+  let { ownerId, buildId } = ref;
+
+  if (ref.linkToken) {
+    const link = await KVHelpers.getJSON<{ ownerId: string; buildId: string }>(
+      kv,
+      SHARES_NAMESPACE,
+      linkKey(ref.linkToken),
+    );
+    if (!link) {
+      throw new Error("Share link is invalid or has been revoked");
+    }
+    ({ ownerId, buildId } = link.value);
+  }
+
+  if (!ownerId || !buildId) {
+    throw new Error("Provide buildId and ownerId, or a linkToken");
+  }
+
+  const grants = await KVHelpers.getJSON<BuildShares>(
+    kv,
+    SHARES_NAMESPACE,
+    grantsKey(ownerId, buildId),
+  );
+
+  const allowed = canAccessBuild(identity, ownerId, {
+    access: "read",
+    grants: grants?.value.shares,
+    linkToken: ref.linkToken,
+  });
+
+  const build = allowed ? await getBuildByOwner(kv, ownerId, buildId) : null;
+
+  // Same error either way, so build IDs can't be probed
+  if (!build) {
+    throw new Error(`Build "${buildId}" not found or not shared with you`);
+  }
+
+  return { ownerId, build };
+}
@@ -0,0 +1,171 @@
+/**
+ * Wallet tools for Pomeranian Kart MCP Server
+ * Each user has a credit balance that pays for customization and is topped
+ * up by a daily grant and race rewards
+ */
+
+import type { KV } from "../storage/index.ts";
+import { KVHelpers } from "../storage/index.ts";
+import type { UserIdentity } from "../auth/pomerium.ts";
+import { getConfig } from "../config.ts";
+
+const WALLETS_NAMESPACE = "wallets";
+
+/** Transactions kept in a wallet's history */
+const TRANSACTION_HISTORY_LIMIT = 20;
+
+export type TransactionReason =
+  | "starting_balance"
+  | "daily_grant"
+  | "race_reward"
+  | "customization"
+  | "unlock";
+
+/**
+ * A credit (positive amount) or charge (negative amount)
+ */
+export interface WalletTransaction {
+  amount: number;
+  /** Balance after the transaction */
+  balance: number;
+  reason: TransactionReason;
+  description: string;
+  timestamp: number;
+}
+
+export interface Wallet {
+  balance: number;
+  /** UTC day (YYYY-MM-DD) of the last daily grant */
+  lastDailyGrant: string;
+  /** Most recent transactions, newest first */
+  transactions: WalletTransaction[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Wallet storage key format: ${userId}
+ */
+function walletKey(userId: string): string {
+  return userId;
+}
+
+/**
+ * Get the caller's wallet, opening it or paying the daily grant when due
+ */
+export async function getWallet(
+  kv: KV,
+  identity: UserIdentity,
+): Promise<Wallet> {
+  const { wallet, version, changed } = await readWallet(kv, identity.userId);
+
+  if (changed) {
+    await writeWallet(kv, identity.userId, wallet, version);
+  }
+
+  return wallet;
+}
+
+/**
+ * Credit or charge a user's wallet
+ * @param amount - Credits to add (negative to charge)
+ * @throws Error if a charge is more than the balance
+ */
+export async function adjustWallet(
+  kv: KV,
+  userId: string,
+  amount: number,
+  reason: TransactionReason,
+  description: string,
+): Promise<Wallet> {
+  const { wallet, version } = await readWallet(kv, userId);
+
+  if (wallet.balance + amount < 0) {
+    throw new Error(
+      `Not enough credits: this costs ${-amount} but your wallet has ${wallet.balance}`,
+    );
+  }
+
+  addTransaction(wallet, amount, reason, description);
+  await writeWallet(kv, userId, wallet, version);
+
+  return wallet;
+}
+
+/**
+ * Read a wallet, applying the starting balance and any due daily grant
+ */
+async function readWallet(
+  kv: KV,
+  userId: string,
+): Promise<{ wallet: Wallet; version?: number; changed: boolean }> {
+  const config = getConfig();
+  const today = new Date().toISOString().slice(0, 10);
+  const stored = await KVHelpers.getJSON<Wallet>(
+    kv,
+    WALLETS_NAMESPACE,
+    walletKey(userId),
+  );
+
+  if (!stored) {
+    const now = Date.now();
+    const wallet: Wallet = {
+      balance: 0,
+      lastDailyGrant: today,
+      transactions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    addTransaction(
+      wallet,
+      config.STARTING_CREDITS,
+      "starting_balance",
+      "Welcome credits",
+    );
+    return { wallet, changed: true };
+  }
+
+  const wallet = stored.value;
+  const version = stored.metadata.version;
+
+  if (wallet.lastDailyGrant === today) {
+    return { wallet, version, changed: false };
+  }
+
+  wallet.lastDailyGrant = today;
+  addTransaction(
+    wallet,
+    config.DAILY_GRANT_CREDITS,
+    "daily_grant",
+    `Daily grant for ${today}`,
+  );
+
+  return { wallet, version, changed: true };
+}
+
+async function writeWallet(
+  kv: KV,
+  userId: string,
+  wallet: Wallet,
+  version: number | undefined,
+): Promise<void> {
+  await KVHelpers.setJSON(kv, WALLETS_NAMESPACE, walletKey(userId), wallet, {
+    cas: version,
+  });
+}
+
+function addTransaction(
+  wallet: Wallet,
+  amount: number,
+  reason: TransactionReason,
+  description: string,
+): void {
+  const timestamp = Date.now();
+
+  wallet.balance += amount;
+  wallet.updatedAt = timestamp;
+  wallet.transactions = [
+    { amount, balance: wallet.balance, reason, description, timestamp },
+    ...wallet.transactions,
+  ].slice(0, TRANSACTION_HISTORY_LIMIT);
+}